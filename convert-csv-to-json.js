@@ -1,4 +1,5 @@
 const fs = require('fs');
+const crypto = require('crypto');
 
 // Read the CSV file
 const csvData = fs.readFileSync('data.csv', 'utf8');
@@ -54,16 +55,18 @@ for (let i = 1; i < lines.length; i++) {
   
   // Create the JSON object
   const sleepRecord = {
+    id: crypto.randomUUID(),
     sleep: sleepDate.toISOString(),
     wake: wakeDate.toISOString(),
     rating: 3, // Default rating since it's not in the CSV
-    note: note
+    note: note,
+    source: 'csv'
   };
   
   jsonData.push(sleepRecord);
 }
 
-// Write to JSON file
-fs.writeFileSync('data.json', JSON.stringify(jsonData, null, 2));
+// Write to JSON file (version 2 of the format, see doc/data-format.md)
+fs.writeFileSync('data.json', JSON.stringify({ schemaVersion: 2, records: jsonData }, null, 2));
 
 console.log(`Converted ${jsonData.length} sleep records to data.json`);
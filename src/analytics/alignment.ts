@@ -0,0 +1,89 @@
+import { foldToHalfDay } from './tau';
+
+const HOURS_IN_DAY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+
+export const ALIGNMENT_TOLERANCE = 60 * 60 * 1000; // Largest sleep onset deviation that still counts as aligned with the target
+
+/**
+ * Desired sleep window, as local times of day (the window wraps past midnight when the wake time is earlier)
+ */
+export interface TargetWindow {
+  sleepMinutes: number; // Target sleep onset, minutes after midnight
+  wakeMinutes: number;  // Target wake time, minutes after midnight
+}
+
+/**
+ * Deviation of a sleep from the target window
+ */
+export interface TargetDeviation {
+  sleep: number; // Sleep onset minus the nearest target onset (milliseconds, ±12h, positive = later)
+  wake: number;  // Wake time minus the nearest target wake time (milliseconds, ±12h, positive = later)
+}
+
+/**
+ * When a drifting schedule lines up with the target
+ */
+export interface AlignmentForecast {
+  aligned: boolean;                // Whether the sleep onset is within the tolerance of the target now
+  daysUntilAligned: number | null; // Days until the onset next comes within the tolerance (0 when aligned), null = never
+  alignedDays: number | null;      // Days the onset stays within the tolerance once there, null = indefinitely (no drift)
+}
+
+/**
+ * Length of the target window, wrapping past midnight
+ * @returns Milliseconds
+ */
+export function getTargetWindowLength(target: TargetWindow): number {
+  return (((target.wakeMinutes - target.sleepMinutes) % 1440 + 1440) % 1440) * 60 * 1000;
+}
+
+/**
+ * Distance of a time from a local time of day on the same day, folded to the nearest day
+ */
+function getTimeOfDayDeviation(time: number, minutes: number): number {
+  const reference = new Date(time);
+  reference.setHours(0, minutes, 0, 0);
+  return foldToHalfDay(time - reference.getTime());
+}
+
+/**
+ * Deviation of a sleep from the target window
+ * @param sleep Sleep onset (epoch milliseconds)
+ * @param wake Wake time (epoch milliseconds)
+ */
+export function getTargetDeviation(sleep: number, wake: number, target: TargetWindow): TargetDeviation {
+  return {
+    sleep: getTimeOfDayDeviation(sleep, target.sleepMinutes),
+    wake: getTimeOfDayDeviation(wake, target.wakeMinutes),
+  };
+}
+
+/**
+ * Forecasts when a schedule drifting at a constant rate lines up with the target onset, and for how long
+ * @param sleep Sleep onset the forecast starts from (epoch milliseconds)
+ * @param drift Daily drift of the sleep onset in milliseconds (the cycle length minus 24h)
+ * @param tolerance Largest onset deviation that counts as aligned
+ */
+export function forecastAlignment(sleep: number, drift: number, target: TargetWindow, tolerance: number = ALIGNMENT_TOLERANCE): AlignmentForecast {
+  let deviation = getTimeOfDayDeviation(sleep, target.sleepMinutes);
+  const aligned = Math.abs(deviation) <= tolerance;
+
+  // Without drift, the schedule stays where it is
+  if (Math.abs(drift) < 60 * 1000) {
+    return { aligned, daysUntilAligned: aligned ? 0 : null, alignedDays: aligned ? null : 0 };
+  }
+
+  // Mirror a negative drift, so the deviation always grows
+  if (drift < 0) deviation = -deviation;
+  const rate = Math.abs(drift);
+
+  // Once within the tolerance, the onset crosses the whole window
+  const alignedDays = Math.floor((2 * tolerance) / rate);
+  if (aligned) {
+    return { aligned, daysUntilAligned: 0, alignedDays: Math.floor((tolerance - deviation) / rate) };
+  }
+
+  // Days until the growing deviation wraps around to the early edge of the window
+  const untilWindow = (((-tolerance - deviation) % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
+  return { aligned, daysUntilAligned: Math.ceil(untilWindow / rate), alignedDays };
+}
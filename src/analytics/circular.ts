@@ -0,0 +1,38 @@
+const MINUTES_IN_DAY = 24 * 60;
+
+/**
+ * Mean and spread of clock times
+ */
+export interface CircularTimeStats {
+  mean: number; // Mean time of day, minutes after midnight
+  sd: number;   // Circular standard deviation in minutes
+}
+
+/**
+ * Averages clock times on the 24h circle, so 23:00 and 01:00 average to 00:00 rather than 12:00
+ * The standard deviation is the circular one (sqrt(-2 ln R)), which matches the usual one for tightly grouped times
+ * @param times Epoch milliseconds, read as local times of day
+ * @returns Mean and spread, or null without times
+ */
+export function circularTimeStats(times: number[]): CircularTimeStats | null {
+  if (times.length === 0) return null;
+
+  let sinSum = 0;
+  let cosSum = 0;
+  times.forEach(time => {
+    const date = new Date(time);
+    const angle = ((date.getHours() * 60 + date.getMinutes()) / MINUTES_IN_DAY) * 2 * Math.PI;
+    sinSum += Math.sin(angle);
+    cosSum += Math.cos(angle);
+  });
+
+  const meanAngle = Math.atan2(sinSum / times.length, cosSum / times.length);
+  // Mean resultant length, 1 when all the times are equal and close to 0 when they are spread over the whole day
+  const resultantLength = Math.min(1, Math.hypot(sinSum, cosSum) / times.length);
+  const sdAngle = Math.sqrt(-2 * Math.log(Math.max(resultantLength, Number.EPSILON)));
+
+  return {
+    mean: ((meanAngle / (2 * Math.PI)) * MINUTES_IN_DAY + MINUTES_IN_DAY) % MINUTES_IN_DAY,
+    sd: (sdAngle / (2 * Math.PI)) * MINUTES_IN_DAY,
+  };
+}
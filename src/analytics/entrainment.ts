@@ -0,0 +1,192 @@
+import type { TargetWindow } from './alignment';
+import { getTargetWindowLength } from './alignment';
+import { foldToHalfDay } from './tau';
+
+const HOUR = 60 * 60 * 1000; // One hour in milliseconds
+const HOURS_IN_DAY = 24 * HOUR; // 24 hours in milliseconds
+
+const TARGET_TOLERANCE = 15 * 60 * 1000; // Distance from the target at which the schedule counts as entrained
+const CLOSE_TO_TARGET = HOUR; // Distance from the target under which the plan corrects the shortest way
+const INTERVENTION_COST = 5 * 60 * 1000; // Shift an intervention must add to be suggested (avoids useless doses)
+const SEARCH_STEP = 30 * 60 * 1000; // Resolution of the suggested times
+const MELATONIN_BEFORE_BED = 30 * 60 * 1000; // Latest melatonin time before the planned sleep onset
+
+// Phase markers, from the sleep times (typical values for a free-running schedule)
+const DLMO_BEFORE_SLEEP = 2 * HOUR; // Dim light melatonin onset, about 2 hours before sleep onset
+const CBT_MIN_BEFORE_WAKE = 2 * HOUR; // Core body temperature minimum, about 2 hours before waking
+
+/**
+ * Interventions the planner may suggest
+ */
+export interface EntrainmentOptions {
+  useMelatonin: boolean; // Low-dose (0.5 mg) melatonin
+  useLight: boolean;     // Bright light (about 10000 lux for 30-60 minutes)
+}
+
+/**
+ * Starting point of the plan, from the predictions
+ */
+export interface EntrainmentStart {
+  sleep: number;         // Predicted next sleep onset (epoch milliseconds)
+  sleepDuration: number; // Expected sleep duration in milliseconds
+  cycleLength: number;   // Free-running cycle length (24h plus the daily drift) in milliseconds
+}
+
+/**
+ * One day of the plan
+ */
+export interface PlannedDay {
+  sleep: number;            // Expected sleep onset when following the plan (epoch milliseconds)
+  wake: number;             // Expected wake time (epoch milliseconds)
+  melatonin: number | null; // Suggested time to take melatonin before this sleep, null when not needed
+  light: number | null;     // Suggested start of the bright light session after the previous wake, null when not needed
+  shift: number;            // Expected phase advance from the interventions (milliseconds, negative = delay)
+  error: number;            // Distance of the sleep midpoint from the target midpoint (milliseconds, ±12h, positive = later)
+}
+
+export interface EntrainmentPlan {
+  direction: 'advance' | 'delay'; // Whether the plan moves the schedule earlier or lets it go around later
+  days: PlannedDay[];
+  daysToTarget: number | null;    // Index of the first day within 15 minutes of the target, null when not reached
+}
+
+/**
+ * Bell curve used to build the phase response curves
+ */
+function gaussian(x: number, center: number, width: number): number {
+  return Math.exp(-((x - center) ** 2) / (2 * width ** 2));
+}
+
+/**
+ * Phase advance from a bright light session (about 10000 lux for 30-60 minutes), in hours
+ * Simplified from the human light PRC (Khalsa et al. 2003): light after the core body temperature minimum advances
+ * the rhythm, light before it delays it, with the largest effects about 2-3 hours on either side.
+ * @param hoursFromCbtMin Time of the light relative to the temperature minimum, in hours (±12)
+ */
+export function lightPrc(hoursFromCbtMin: number): number {
+  return 1.0 * gaussian(hoursFromCbtMin, 2.5, 2) - 1.2 * gaussian(hoursFromCbtMin, -2.5, 2);
+}
+
+/**
+ * Phase advance from 0.5 mg of melatonin, in hours
+ * Simplified from the low-dose melatonin PRC (Burgess et al. 2010): the largest advance comes from a dose 2-4 hours
+ * before the dim light melatonin onset (DLMO), and doses in the morning after waking delay the rhythm slightly.
+ * @param hoursFromDlmo Time of the dose relative to the DLMO, in hours (±12)
+ */
+export function melatoninPrc(hoursFromDlmo: number): number {
+  return 0.5 * gaussian(hoursFromDlmo, -3, 2.5) - 0.3 * gaussian(hoursFromDlmo, 10, 2.5);
+}
+
+/**
+ * Distance of a sleep midpoint from the target midpoint on the same (local) day
+ * @returns Milliseconds folded to ±12h, positive when the sleep is later than the target
+ */
+function getTargetError(sleep: number, sleepDuration: number, target: TargetWindow): number {
+  const midpoint = sleep + sleepDuration / 2;
+
+  const targetMidpoint = new Date(midpoint);
+  targetMidpoint.setHours(0, target.sleepMinutes, 0, getTargetWindowLength(target) / 2);
+
+  return foldToHalfDay(midpoint - targetMidpoint.getTime());
+}
+
+/**
+ * Best timing of the interventions for one day
+ * Scans the waking hours before the sleep for the times whose combined shift comes closest to the wanted one
+ * @param sleep Sleep onset the interventions lead up to (epoch milliseconds)
+ * @param previousWake Wake time before that sleep (epoch milliseconds)
+ * @param wanted Wanted phase advance in milliseconds (negative = delay)
+ */
+function chooseInterventions(sleep: number, previousWake: number, wanted: number, options: EntrainmentOptions) {
+  const dlmo = sleep - DLMO_BEFORE_SLEEP;
+  const cbtMin = previousWake - CBT_MIN_BEFORE_WAKE;
+
+  const candidates = (enabled: boolean, latest: number, effect: (time: number) => number) => {
+    const result: { time: number | null, shift: number }[] = [{ time: null, shift: 0 }];
+    if (!enabled) return result;
+    for (let time = previousWake; time <= latest; time += SEARCH_STEP) {
+      result.push({ time, shift: effect(time) * HOUR });
+    }
+    return result;
+  };
+
+  const melatoninOptions = candidates(options.useMelatonin, sleep - MELATONIN_BEFORE_BED, time => melatoninPrc(foldToHalfDay(time - dlmo) / HOUR));
+  const lightOptions = candidates(options.useLight, sleep - HOUR, time => lightPrc(foldToHalfDay(time - cbtMin) / HOUR));
+
+  let best = { melatonin: null as number | null, light: null as number | null, shift: 0, cost: Math.abs(wanted) };
+  melatoninOptions.forEach(melatonin => {
+    lightOptions.forEach(light => {
+      const shift = melatonin.shift + light.shift;
+      const count = (melatonin.time === null ? 0 : 1) + (light.time === null ? 0 : 1);
+      const cost = Math.abs(wanted - shift) + count * INTERVENTION_COST;
+      if (cost < best.cost) best = { melatonin: melatonin.time, light: light.time, shift, cost };
+    });
+  });
+
+  return best;
+}
+
+/**
+ * Plans the timing of melatonin and bright light that moves a free-running schedule toward a target sleep window
+ *
+ * Each day the planner wants the shift that brings the sleep midpoint to the target (after the daily drift), picks
+ * the times within the waking hours whose phase response comes closest, and moves the next sleep by the drift minus
+ * the expected shift. Once at the target it keeps countering the drift. The direction is the one expected to reach
+ * the target sooner: advancing against the drift, or delaying with it around the clock.
+ *
+ * This is a planning aid built on population averages, not a treatment recommendation.
+ *
+ * @param start Predicted next sleep and free-running cycle
+ * @param target Target sleep window
+ * @param options Interventions to use
+ * @param dayCount Number of days to plan
+ */
+export function planEntrainment(start: EntrainmentStart, target: TargetWindow, options: EntrainmentOptions, dayCount: number): EntrainmentPlan {
+  const drift = start.cycleLength - HOURS_IN_DAY;
+  const wakingLength = start.cycleLength - start.sleepDuration;
+
+  // Largest daily shifts with the selected interventions at their best times
+  const maxAdvance = (options.useMelatonin ? 0.5 : 0) * HOUR + (options.useLight ? 1.0 : 0) * HOUR;
+  const maxDelay = (options.useMelatonin ? 0.3 : 0) * HOUR + (options.useLight ? 1.2 : 0) * HOUR;
+
+  // Days needed in each direction, from the first error
+  const firstError = getTargetError(start.sleep, start.sleepDuration, target);
+  const toAdvance = ((firstError % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
+  const toDelay = (HOURS_IN_DAY - toAdvance) % HOURS_IN_DAY;
+  const advanceDays = maxAdvance > drift ? toAdvance / (maxAdvance - drift) : Infinity;
+  const delayDays = drift + maxDelay > 0 ? toDelay / (drift + maxDelay) : Infinity;
+  const direction = advanceDays <= delayDays ? 'advance' : 'delay';
+
+  const days: PlannedDay[] = [];
+  let sleep = start.sleep;
+  let daysToTarget: number | null = null;
+
+  for (let i = 0; i < dayCount; i++) {
+    const error = getTargetError(sleep, start.sleepDuration, target);
+    if (daysToTarget === null && Math.abs(error) <= TARGET_TOLERANCE) daysToTarget = i;
+
+    // Advance wanted to land on the target at the next sleep: the drift plus the remaining distance in the plan's
+    // direction, or the shortest way once close to the target (so a small overshoot isn't corrected around the clock)
+    const remainingAdvance = ((error % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
+    let wanted = drift + error;
+    if (daysToTarget === null && Math.abs(error) > CLOSE_TO_TARGET) {
+      wanted = direction === 'advance'
+        ? drift + remainingAdvance
+        : drift - (HOURS_IN_DAY - remainingAdvance) % HOURS_IN_DAY;
+    }
+
+    const choice = chooseInterventions(sleep, sleep - wakingLength, wanted, options);
+    days.push({
+      sleep,
+      wake: sleep + start.sleepDuration,
+      melatonin: choice.melatonin,
+      light: choice.light,
+      shift: choice.shift,
+      error,
+    });
+
+    sleep += start.cycleLength - choice.shift;
+  }
+
+  return { direction, days, daysToTarget };
+}
@@ -0,0 +1,65 @@
+import type { Intervention, InterventionType } from '../types/intervention';
+import type { SleepRecord } from '../types/sleep-record';
+
+const MAX_TIME_TO_SLEEP = 24 * 60 * 60 * 1000; // Interventions further than this from the next logged sleep aren't related to it
+
+/**
+ * Timing of interventions of one type relative to the following sleep onset
+ */
+export interface InterventionTimingSummary {
+  type: InterventionType;
+  count: number;        // Number of interventions with a sleep onset logged after them
+  meanBefore: number;   // Mean time between the intervention and the next sleep onset (milliseconds)
+  sdBefore: number;     // Standard deviation of that time (milliseconds, 0 with a single intervention)
+}
+
+/**
+ * Time from each intervention to the next sleep onset
+ * The onsets and the interventions are sorted once and walked together, rather than searching every record for each
+ * intervention.
+ * @param interventions Interventions, in any order
+ * @param records Sleep records, in any order
+ * @returns Milliseconds until the next sleep starts for each intervention (same order), or null when no sleep starts
+ *          within 24 hours
+ */
+export function getTimesToNextSleep(interventions: Intervention[], records: SleepRecord[]): (number | null)[] {
+  const onsets = records.map(record => new Date(record.sleep).getTime()).filter(time => !isNaN(time)).sort((a, b) => a - b);
+  const times: (number | null)[] = interventions.map(() => null);
+
+  let next = 0;
+  interventions
+    .map((intervention, index) => ({ time: new Date(intervention.time).getTime(), index }))
+    .filter(({ time }) => !isNaN(time))
+    .sort((a, b) => a.time - b.time)
+    .forEach(({ time, index }) => {
+      // The interventions are in time order, so the next onset never moves back
+      while (next < onsets.length && onsets[next] < time) next++;
+      if (next < onsets.length && onsets[next] - time <= MAX_TIME_TO_SLEEP) times[index] = onsets[next] - time;
+    });
+  return times;
+}
+
+/**
+ * Summarizes the timing of the interventions relative to the next sleep onset, per type
+ * @param interventions Interventions to summarize
+ * @param records Sleep records, in any order
+ * @returns One summary per type that has timed interventions, in the order of the first intervention of each type
+ */
+export function summarizeInterventionTiming(interventions: Intervention[], records: SleepRecord[]): InterventionTimingSummary[] {
+  const timesToSleep = getTimesToNextSleep(interventions, records);
+  const timesByType = new Map<InterventionType, number[]>();
+  interventions.forEach((intervention, index) => {
+    const before = timesToSleep[index];
+    if (before === null) return;
+    if (!timesByType.has(intervention.type)) timesByType.set(intervention.type, []);
+    timesByType.get(intervention.type)?.push(before);
+  });
+
+  return [...timesByType].map(([type, times]) => {
+    const mean = times.reduce((sum, time) => sum + time, 0) / times.length;
+    const variance = times.length > 1
+      ? times.reduce((sum, time) => sum + (time - mean) ** 2, 0) / (times.length - 1)
+      : 0;
+    return { type, count: times.length, meanBefore: mean, sdBefore: Math.sqrt(variance) };
+  });
+}
@@ -0,0 +1,196 @@
+import type { SleepRecord } from '../types/sleep-record';
+
+const HOUR = 60 * 60 * 1000; // One hour in milliseconds
+const DAY = 24 * HOUR; // One day in milliseconds
+
+/**
+ * Options of the periodogram
+ */
+export interface PeriodogramOptions {
+  minPeriod: number;  // Shortest period tested, in hours
+  maxPeriod: number;  // Longest period tested, in hours
+  periodStep: number; // Distance between the tested periods, in hours
+  sampleStep: number; // Sampling interval of the sleep/wake signal, in milliseconds
+  maxGap: number;     // Longest time between two entries still counted as awake, longer gaps are missing data (milliseconds)
+}
+
+export const DEFAULT_PERIODOGRAM_OPTIONS: PeriodogramOptions = {
+  minPeriod: 20,
+  maxPeriod: 28,
+  periodStep: 0.05,
+  sampleStep: 30 * 60 * 1000,
+  maxGap: 48 * HOUR,
+};
+
+/**
+ * Power of the signal at one period
+ */
+export interface PeriodogramPoint {
+  period: number; // Hours
+  power: number;  // Normalized Lomb-Scargle power
+}
+
+export interface PeriodogramPeak extends PeriodogramPoint {
+  falseAlarm: number; // Probability of a peak this high from noise alone (0-1, lower = more significant)
+}
+
+export interface Periodogram {
+  points: PeriodogramPoint[];
+  peak: PeriodogramPeak | null; // Highest point, null without enough data
+  sampleCount: number;          // Samples of the sleep/wake signal used
+}
+
+/**
+ * Dominant period of one window of the sliding periodogram
+ */
+export interface PeriodWindow {
+  start: number;              // Start of the window (epoch milliseconds)
+  end: number;                // End of the window (epoch milliseconds)
+  peak: PeriodogramPeak | null;
+}
+
+/**
+ * Samples the log as a sleep (1) / wake (0) signal
+ * Awake stretches longer than `maxGap` are left out as missing data rather than counted as wake, so gaps in the log
+ * don't bias the periodogram.
+ * @param records Entries, in any order
+ * @returns Sample times (epoch milliseconds) and values
+ */
+export function sampleSleepSignal(records: SleepRecord[], sampleStep: number, maxGap: number): { times: number[], values: number[] } {
+  const times: number[] = [];
+  const values: number[] = [];
+
+  const spans = records
+    .map(record => ({ sleep: new Date(record.sleep).getTime(), wake: new Date(record.wake).getTime() }))
+    .filter(span => span.wake > span.sleep)
+    .sort((a, b) => a.sleep - b.sleep);
+  if (spans.length === 0) return { times, values };
+
+  let time = spans[0].sleep;
+  spans.forEach((span, index) => {
+    // Skip over a gap in the log
+    if (index > 0 && span.sleep - spans[index - 1].wake > maxGap) {
+      time += Math.ceil((span.sleep - time) / sampleStep) * sampleStep;
+    }
+
+    // Awake until this sleep, then asleep until its wake (overlapping entries continue the sleep)
+    for (; time < span.sleep; time += sampleStep) {
+      times.push(time);
+      values.push(0);
+    }
+    for (; time < span.wake; time += sampleStep) {
+      times.push(time);
+      values.push(1);
+    }
+  });
+
+  return { times, values };
+}
+
+/**
+ * Normalized Lomb-Scargle periodogram of an unevenly sampled signal
+ * The power is normalized by twice the variance, so pure noise has an exponential distribution of mean 1.
+ * @param times Sample times in milliseconds
+ * @param values Sample values
+ * @param periods Periods to test, in hours
+ * @returns Power at each period (0 when the signal is constant)
+ */
+export function lombScargle(times: number[], values: number[], periods: number[]): number[] {
+  const n = values.length;
+  if (n < 3) return periods.map(() => 0);
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1);
+  if (variance === 0) return periods.map(() => 0);
+
+  const hours = times.map(time => (time - times[0]) / HOUR);
+  const centered = values.map(value => value - mean);
+
+  return periods.map(period => {
+    const omega = (2 * Math.PI) / period;
+
+    // Time offset that makes the sine and cosine terms orthogonal
+    let sin2 = 0;
+    let cos2 = 0;
+    hours.forEach(t => {
+      sin2 += Math.sin(2 * omega * t);
+      cos2 += Math.cos(2 * omega * t);
+    });
+    const tau = Math.atan2(sin2, cos2) / (2 * omega);
+
+    let yCos = 0;
+    let ySin = 0;
+    let cosSquared = 0;
+    let sinSquared = 0;
+    hours.forEach((t, i) => {
+      const c = Math.cos(omega * (t - tau));
+      const s = Math.sin(omega * (t - tau));
+      yCos += centered[i] * c;
+      ySin += centered[i] * s;
+      cosSquared += c * c;
+      sinSquared += s * s;
+    });
+
+    return ((yCos * yCos) / cosSquared + (ySin * ySin) / sinSquared) / (2 * variance);
+  });
+}
+
+/**
+ * Computes the periodogram of the sleep/wake signal of a log
+ * Uses Lomb-Scargle, which copes with the gaps left out of the signal, and reports the dominant period with its
+ * false alarm probability (for the number of independent periods in the tested range).
+ * @param records Entries, in any order (naps included)
+ */
+export function computePeriodogram(records: SleepRecord[], options: PeriodogramOptions = DEFAULT_PERIODOGRAM_OPTIONS): Periodogram {
+  const { times, values } = sampleSleepSignal(records, options.sampleStep, options.maxGap);
+
+  const periods: number[] = [];
+  for (let period = options.minPeriod; period <= options.maxPeriod + 1e-9; period += options.periodStep) {
+    periods.push(Math.round(period * 1000) / 1000);
+  }
+
+  // A few days are needed to tell periods in the range apart
+  if (times.length === 0 || times[times.length - 1] - times[0] < 3 * DAY) {
+    return { points: periods.map(period => ({ period, power: 0 })), peak: null, sampleCount: times.length };
+  }
+
+  const powers = lombScargle(times, values, periods);
+  const points = periods.map((period, i) => ({ period, power: powers[i] }));
+
+  const best = points.reduce((max, point) => point.power > max.power ? point : max, points[0]);
+  if (best.power === 0) return { points, peak: null, sampleCount: times.length };
+
+  // Independent frequencies in the range: the span of the data times the width of the frequency band
+  const spanHours = (times[times.length - 1] - times[0]) / HOUR;
+  const independent = Math.max(1, spanHours * (1 / options.minPeriod - 1 / options.maxPeriod));
+  const falseAlarm = 1 - Math.pow(1 - Math.exp(-best.power), independent);
+
+  return { points, peak: { ...best, falseAlarm }, sampleCount: times.length };
+}
+
+/**
+ * Computes the dominant period over a sliding window, to show how the period changes over the log
+ * @param records Entries, in any order
+ * @param windowDays Length of each window in days
+ * @param stepDays Days between the starts of consecutive windows
+ */
+export function computeSlidingPeriodogram(records: SleepRecord[], windowDays: number = 28, stepDays: number = 7, options: PeriodogramOptions = DEFAULT_PERIODOGRAM_OPTIONS): PeriodWindow[] {
+  const sleepTimes = records.map(record => new Date(record.sleep).getTime()).filter(time => !isNaN(time));
+  if (sleepTimes.length === 0) return [];
+
+  const first = Math.min(...sleepTimes);
+  const last = Math.max(...sleepTimes);
+  const windows: PeriodWindow[] = [];
+
+  // The last window ends with the log, earlier ones step back from it
+  for (let end = last; end - windowDays * DAY >= first - stepDays * DAY; end -= stepDays * DAY) {
+    const start = end - windowDays * DAY;
+    const windowRecords = records.filter(record => {
+      const sleep = new Date(record.sleep).getTime();
+      return sleep >= start && sleep <= end;
+    });
+    windows.unshift({ start, end, peak: computePeriodogram(windowRecords, options).peak });
+  }
+
+  return windows;
+}
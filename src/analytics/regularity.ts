@@ -0,0 +1,280 @@
+import type { SleepRecord } from '../types/sleep-record';
+import type { TauEstimate } from './tau';
+import { estimateTau, foldToHalfDay } from './tau';
+import { sampleSleepSignal } from './periodogram';
+
+const HOUR = 60 * 60 * 1000; // One hour in milliseconds
+const DAY = 24 * HOUR; // One day in milliseconds
+
+/**
+ * Regularity of the sleep/wake pattern over a log
+ */
+export interface RegularityMetrics {
+  sri: number | null;                 // Sleep Regularity Index (-100 to 100, 100 = same state at the same time every day), null without 24h pairs
+  interdailyStability: number | null; // Share of the variance explained by the hour of day (0-1), null without variance
+  pairCount: number;                  // Number of 24h sample pairs the SRI is based on
+}
+
+/**
+ * Options of the regularity metrics
+ */
+export interface RegularityOptions {
+  sampleStep: number; // Sampling interval of the sleep/wake signal, in milliseconds (must divide 24 hours)
+  maxGap: number;     // Longest time between two entries still counted as awake, longer gaps are missing data (milliseconds)
+}
+
+export const DEFAULT_REGULARITY_OPTIONS: RegularityOptions = {
+  sampleStep: 5 * 60 * 1000,
+  maxGap: 48 * HOUR,
+};
+
+/**
+ * Computes the Sleep Regularity Index and the interdaily stability of a log
+ *
+ * The SRI is the probability of being in the same state (asleep or awake) at two times 24 hours apart, scaled
+ * to -100..100. The interdaily stability is the variance of the mean profile per clock hour over the total variance,
+ * so a schedule that repeats every 24 hours scores close to 1 and a free-running one close to 0.
+ * @param records Entries, in any order (naps included)
+ */
+export function computeRegularity(records: SleepRecord[], options: RegularityOptions = DEFAULT_REGULARITY_OPTIONS): RegularityMetrics {
+  const { times, values } = sampleSleepSignal(records, options.sampleStep, options.maxGap);
+
+  // The samples are on a grid that divides 24 hours, so the sample a day later has the exact time as its key
+  const byTime = new Map<number, number>();
+  times.forEach((time, i) => byTime.set(time, values[i]));
+
+  let pairCount = 0;
+  let matches = 0;
+  times.forEach((time, i) => {
+    const later = byTime.get(time + DAY);
+    if (later === undefined) return;
+    pairCount++;
+    if (later === values[i]) matches++;
+  });
+
+  const n = values.length;
+  const mean = n > 0 ? values.reduce((sum, value) => sum + value, 0) / n : 0;
+  const totalVariance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+
+  // Mean of each clock hour (local time, like the chart)
+  const hourSums = new Array(24).fill(0);
+  const hourCounts = new Array(24).fill(0);
+  times.forEach((time, i) => {
+    const hour = new Date(time).getHours();
+    hourSums[hour] += values[i];
+    hourCounts[hour]++;
+  });
+  const hourlyVariance = hourSums.reduce((sum, hourSum, hour) => hourCounts[hour] === 0
+    ? sum
+    : sum + hourCounts[hour] * (hourSum / hourCounts[hour] - mean) ** 2, 0);
+
+  return {
+    sri: pairCount > 0 ? -100 + 200 * (matches / pairCount) : null,
+    interdailyStability: totalVariance > 0 ? hourlyVariance / totalVariance : null,
+    pairCount,
+  };
+}
+
+export type EpisodeKind = 'free-running' | 'entrained' | 'irregular';
+
+/**
+ * Stretch of the log with a single pattern
+ */
+export interface SleepEpisode {
+  kind: EpisodeKind;
+  start: number;                // Sleep onset of the first main sleep (epoch milliseconds)
+  end: number;                  // Wake time of the last main sleep (epoch milliseconds)
+  lastOnset: number;            // Sleep onset of the last main sleep (epoch milliseconds)
+  days: number;                 // Number of main sleeps in the episode
+  estimate: TauEstimate | null; // Fit of the sleep onsets of the episode (tau, drift, residual spread)
+}
+
+/**
+ * Options of the episode detection
+ */
+export interface EpisodeOptions {
+  minDays: number;        // Fewest main sleeps in an episode, shorter stretches are never split off
+  maxGap: number;         // Gaps between main sleeps longer than this always end an episode (milliseconds)
+  entrainedDrift: number; // Largest daily drift still counted as entrained to 24 hours (milliseconds)
+  irregularSd: number;    // Residual spread of the onsets above which an episode is irregular (milliseconds)
+  phaseJump: number;      // Largest jump of the onset between two stretches that still lets them merge (milliseconds)
+}
+
+export const DEFAULT_EPISODE_OPTIONS: EpisodeOptions = {
+  minDays: 7,
+  maxGap: 14 * DAY,
+  entrainedDrift: 10 * 60 * 1000,
+  irregularSd: 2 * HOUR,
+  phaseJump: 90 * 60 * 1000,
+};
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Sum of squared residuals of a least squares line through the points from `from` to `to` (exclusive)
+ */
+function lineCost(xs: number[], ys: number[], from: number, to: number): number {
+  const n = to - from;
+  if (n < 3) return 0;
+
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = from; i < to; i++) {
+    meanX += xs[i] / n;
+    meanY += ys[i] / n;
+  }
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = from; i < to; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+
+  return sxx === 0 ? syy : Math.max(0, syy - (sxy * sxy) / sxx);
+}
+
+/**
+ * Splits a series into stretches with a constant drift by binary segmentation
+ * A stretch is split where two lines fit the unwrapped onsets best, as long as that lowers the squared error by more
+ * than the BIC penalty of the extra line (3 parameters at the noise level of the series).
+ * @returns Start index of each stretch
+ */
+function segment(xs: number[], ys: number[], from: number, to: number, penalty: number, minDays: number): number[] {
+  if (to - from < 2 * minDays) return [from];
+
+  const whole = lineCost(xs, ys, from, to);
+  let bestGain = 0;
+  let bestSplit = -1;
+  for (let split = from + minDays; split <= to - minDays; split++) {
+    const gain = whole - lineCost(xs, ys, from, split) - lineCost(xs, ys, split, to);
+    if (gain > bestGain) {
+      bestGain = gain;
+      bestSplit = split;
+    }
+  }
+
+  if (bestSplit === -1 || bestGain <= penalty) return [from];
+  return [...segment(xs, ys, from, bestSplit, penalty, minDays), ...segment(xs, ys, bestSplit, to, penalty, minDays)];
+}
+
+/**
+ * Distance of an onset from where a fit puts the onset of that day (folded to ±12h)
+ */
+function phaseJump(estimate: TauEstimate, time: number): number {
+  const lastFitted = estimate.origin + estimate.intercept + estimate.lastCycle * estimate.tau;
+  const cycles = Math.round((time - lastFitted) / estimate.tau);
+  return foldToHalfDay(time - lastFitted - cycles * estimate.tau);
+}
+
+/**
+ * Classifies a stretch of main sleeps by the fit of its onsets
+ * @param steps Daily drift between consecutive main sleeps of the stretch
+ */
+function classify(estimate: TauEstimate | null, steps: number[], options: EpisodeOptions): EpisodeKind {
+  if (!estimate) return 'irregular';
+
+  // Spread of every onset, the outliers rejected by the fit included, and of the day-to-day steps (scattered onsets
+  // unwrap into a random walk, which a line can follow for a few days)
+  const rms = (values: number[]) => Math.sqrt(values.reduce((sum, value) => sum + value ** 2, 0) / Math.max(1, values.length));
+  const spread = rms(estimate.residuals);
+  const stepSpread = rms(steps.map(step => step - estimate.drift));
+  if (spread > options.irregularSd || stepSpread > options.irregularSd) return 'irregular';
+  return Math.abs(estimate.drift) <= options.entrainedDrift ? 'entrained' : 'free-running';
+}
+
+/**
+ * Splits the log into episodes that are free-running, entrained to 24 hours or irregular
+ *
+ * The onsets are unwrapped day to day (each step folded to ±12h), and change points are found where the drift of the
+ * unwrapped onsets changes. Each stretch is then fitted with estimateTau: a large spread of the onsets around the fit
+ * makes it irregular, otherwise the drift tells entrained from free-running. Neighbouring stretches of the same kind
+ * that drift alike and line up are merged, so a slow change of tau doesn't break an episode into pieces while a
+ * sudden shift (e.g. travel) still does.
+ * @param mainSleeps One main sleep per day, in any order
+ * @returns Episodes in time order (empty with fewer than 3 main sleeps)
+ */
+export function detectEpisodes(mainSleeps: SleepRecord[], options: EpisodeOptions = DEFAULT_EPISODE_OPTIONS): SleepEpisode[] {
+  const entries = mainSleeps
+    .map(record => ({ record, sleep: new Date(record.sleep).getTime(), wake: new Date(record.wake).getTime() }))
+    .filter(entry => !isNaN(entry.sleep) && !isNaN(entry.wake))
+    .sort((a, b) => a.sleep - b.sleep);
+  if (entries.length < 3) return [];
+
+  // Unwrapped onset: each step is the closest whole number of days plus a drift within ±12h
+  const xs = [0];
+  const ys = [0];
+  for (let i = 1; i < entries.length; i++) {
+    const step = entries[i].sleep - entries[i - 1].sleep;
+    const drift = foldToHalfDay(step);
+    ys.push(ys[i - 1] + drift);
+    xs.push(xs[i - 1] + Math.round((step - drift) / DAY));
+  }
+
+  // Noise level from the day-to-day changes of the drift, robust to the change points themselves
+  const steps = ys.slice(1).map((y, i) => (y - ys[i]) / Math.max(1, xs[i + 1] - xs[i]));
+  const stepChanges = steps.slice(1).map((step, i) => step - steps[i]);
+  const noise = stepChanges.length > 0
+    ? Math.max(1.4826 * median(stepChanges.map(change => Math.abs(change - median(stepChanges)))) / Math.SQRT2, 30 * 60 * 1000)
+    : 30 * 60 * 1000;
+  const penalty = 3 * noise * noise * Math.log(entries.length);
+
+  // Long gaps always end an episode, the rest is split by the change points
+  const starts: number[] = [];
+  let partStart = 0;
+  for (let i = 1; i <= entries.length; i++) {
+    if (i < entries.length && entries[i].sleep - entries[i - 1].wake <= options.maxGap) continue;
+    starts.push(...segment(xs, ys, partStart, i, penalty, options.minDays));
+    partStart = i;
+  }
+
+  const fitStretch = (from: number, to: number): SleepEpisode => {
+    const stretch = entries.slice(from, to);
+    const estimate = estimateTau(stretch.map(entry => entry.sleep));
+    return {
+      kind: classify(estimate, steps.slice(from, to - 1), options),
+      start: stretch[0].sleep,
+      end: Math.max(...stretch.map(entry => entry.wake)),
+      lastOnset: stretch[stretch.length - 1].sleep,
+      days: stretch.length,
+      estimate,
+    };
+  };
+
+  // Neighbouring stretches of the same kind form one episode when they drift alike (irregular ones always do),
+  // unless a long gap separates them
+  const episodes: SleepEpisode[] = [];
+  let episodeStart = 0;
+  starts.forEach((start, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1] : entries.length;
+    const stretch = fitStretch(start, end);
+    const previous = episodes[episodes.length - 1];
+
+    const sameKind = previous && previous.kind === stretch.kind && stretch.start - previous.end <= options.maxGap;
+    const driftsAlike = stretch.kind === 'irregular' || (previous?.estimate && stretch.estimate
+      && Math.abs(previous.estimate.drift - stretch.estimate.drift) <= options.entrainedDrift
+      && Math.abs(phaseJump(previous.estimate, stretch.start)) <= options.phaseJump);
+    if (sameKind && driftsAlike) {
+      const merged = fitStretch(episodeStart, end);
+      // Irregular episodes stay irregular even when the longer fit looks better
+      if (stretch.kind === 'irregular' || merged.kind === stretch.kind) {
+        episodes[episodes.length - 1] = { ...merged, kind: stretch.kind };
+        return;
+      }
+    }
+
+    episodes.push(stretch);
+    episodeStart = start;
+  });
+
+  return episodes;
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import type { SleepRecord } from '../types/sleep-record';
+import type { StatisticsPeriod } from '../types/statistics';
+import type { AnalysisOptions } from './sleep-analysis';
+import {
+  DEFAULT_ANALYSIS_OPTIONS,
+  calculateDrift,
+  calculateEntryDrift,
+  generatePredictions,
+  getAverageSleepPerDay,
+  getCycleDays,
+  getMainSleepEntries,
+  getVisibleRecords,
+  summarizeNon24,
+  summarizePeriods
+} from './sleep-analysis';
+
+const MINUTE = 60 * 1000; // One minute in milliseconds
+
+/**
+ * A log with the results expected from it, from src/analytics/fixtures
+ * Durations and times of day are in minutes. Only the results present are checked.
+ */
+interface AnalysisFixture {
+  description: string;
+  options?: Partial<AnalysisOptions>;
+  predictionDays?: number;
+  records: SleepRecord[];
+  expected: {
+    entryDrifts?: number[];                            // Sleep onset drift between consecutive main sleeps
+    sleepDrift?: number;                               // Average daily drift of the sleep onset
+    wakeDrift?: number;                                // Average daily drift of the wake time
+    cycleDays?: number;
+    avgSleepPerDay?: number;
+    mainSleeps?: { sleep: string, wake: string }[];
+    predictions?: { sleep: string, wake: string, rating: number }[];
+    statistics?: Partial<Record<StatisticsPeriod, PeriodFixture[]>>; // Rounded to the minute
+  };
+}
+
+/**
+ * The figures of the statistics panel checked for one week or month
+ */
+interface PeriodFixture {
+  start: string;
+  days: number;
+  onsetMean: number | null;
+  wakeMean: number | null;
+  meanTotalSleep: number;
+  napCount: number;
+  drift: number | null;
+}
+
+const fixtures = import.meta.glob<AnalysisFixture>('./fixtures/*.json', { eager: true, import: 'default' });
+
+/**
+ * Expects two ISO datetimes to be within a second of each other (the regression leaves rounding errors)
+ */
+function expectSameTime(actual: string, expected: string) {
+  expect(Math.abs(new Date(actual).getTime() - new Date(expected).getTime())).toBeLessThan(1000);
+}
+
+describe.each(Object.values(fixtures))('$description', fixture => {
+  const options: AnalysisOptions = { ...DEFAULT_ANALYSIS_OPTIONS, ...fixture.options };
+  const { records, expected } = fixture;
+  const mainSleeps = getMainSleepEntries(records, options);
+
+  if (expected.entryDrifts) it('folds the drift between consecutive main sleeps into ±12h', () => {
+    const drifts = mainSleeps.slice(1).map((entry, i) => calculateEntryDrift(mainSleeps[i], entry).sleepDrift / MINUTE);
+    expect(drifts).toEqual(expected.entryDrifts);
+  });
+
+  if (expected.sleepDrift !== undefined) it('estimates the daily drift of the sleep onset', () => {
+    expect(calculateDrift(mainSleeps).sleepDrift / MINUTE).toBeCloseTo(expected.sleepDrift as number, 3);
+  });
+
+  if (expected.wakeDrift !== undefined) it('estimates the daily drift of the wake time', () => {
+    expect(calculateDrift(mainSleeps).wakeDrift / MINUTE).toBeCloseTo(expected.wakeDrift as number, 3);
+  });
+
+  if (expected.cycleDays !== undefined) it('counts the days to go once around the clock', () => {
+    expect(summarizeNon24(records, options).cycleDays).toBe(expected.cycleDays);
+  });
+
+  if (expected.avgSleepPerDay !== undefined) it('averages the sleep per day, naps included', () => {
+    expect((getAverageSleepPerDay(records, options.dayStartHour) as number) / MINUTE).toBeCloseTo(expected.avgSleepPerDay as number, 6);
+  });
+
+  if (expected.mainSleeps) it('picks one main sleep per day, merging interrupted sleeps', () => {
+    expect(mainSleeps.map(({ sleep, wake }) => ({ sleep, wake }))).toEqual(expected.mainSleeps);
+  });
+
+  if (expected.predictions) it('predicts the next main sleeps', () => {
+    const predictions = generatePredictions(records, fixture.predictionDays ?? 0, options);
+    expect(predictions).toHaveLength(expected.predictions?.length ?? 0);
+
+    predictions.forEach((prediction, i) => {
+      const expectedPrediction = expected.predictions?.[i] as { sleep: string, wake: string, rating: number };
+      expectSameTime(prediction.sleep, expectedPrediction.sleep);
+      expectSameTime(prediction.wake, expectedPrediction.wake);
+      expect(prediction.rating).toBe(expectedPrediction.rating);
+      expect(prediction.isPredicted).toBe(true);
+    });
+  });
+
+  if (expected.statistics) it('aggregates the entries per week and per month', () => {
+    const toMinutes = (value: number | null) => value === null ? null : Math.round(value / MINUTE);
+    Object.entries(expected.statistics ?? {}).forEach(([period, expectedPeriods]) => {
+      const periods = summarizePeriods(records, period as StatisticsPeriod, options).map(statistics => ({
+        start: statistics.start,
+        days: statistics.days,
+        onsetMean: statistics.onsetMean === null ? null : Math.round(statistics.onsetMean),
+        wakeMean: statistics.wakeMean === null ? null : Math.round(statistics.wakeMean),
+        meanTotalSleep: toMinutes(statistics.meanTotalSleep),
+        napCount: statistics.napCount,
+        drift: toMinutes(statistics.drift)
+      }));
+      expect(periods).toEqual(expectedPeriods);
+    });
+  });
+});
+
+describe('getVisibleRecords', () => {
+  const records = Object.values(fixtures)[0].records;
+
+  it('keeps the most recent entries', () => {
+    expect(getVisibleRecords(records, 2)).toEqual(records.slice(-2));
+  });
+
+  it('keeps every entry when the limit is 0', () => {
+    expect(getVisibleRecords(records, 0)).toBe(records);
+  });
+});
+
+describe('getCycleDays', () => {
+  it('is 0 when the drift is under a minute', () => {
+    expect(getCycleDays(30 * 1000)).toBe(0);
+  });
+
+  it('is the same for a delay and an advance', () => {
+    expect(getCycleDays(-30 * MINUTE)).toBe(getCycleDays(30 * MINUTE));
+  });
+});
+
+describe('generatePredictions', () => {
+  const noisy: SleepRecord[] = Array.from({ length: 20 }, (_, i) => {
+    const sleep = Date.UTC(2025, 0, 1, 23) + i * 24.5 * 60 * MINUTE + (i % 3 - 1) * 40 * MINUTE;
+    return { sleep: new Date(sleep).toISOString(), wake: new Date(sleep + 8 * 60 * MINUTE).toISOString(), rating: 3, note: '' };
+  });
+
+  it('widens the likely ranges the further ahead the prediction is', () => {
+    const widths = generatePredictions(noisy, 5).map(prediction =>
+      new Date(prediction.sleepRange?.latest as string).getTime() - new Date(prediction.sleepRange?.earliest as string).getTime());
+    widths.slice(1).forEach((width, i) => expect(width).toBeGreaterThan(widths[i]));
+  });
+
+  it('returns nothing without main sleeps or days to predict', () => {
+    expect(generatePredictions([], 5)).toEqual([]);
+    expect(generatePredictions(noisy, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,303 @@
+import type { SleepRecord, PredictedSleepRecord } from '../types/sleep-record';
+import type { PeriodStatistics, StatisticsPeriod } from '../types/statistics';
+import type { TauEstimate } from './tau';
+import { estimateTau, foldToHalfDay, predictionHalfWidth } from './tau';
+import type { SleepClassificationOptions } from './sleep-periods';
+import { DEFAULT_SLEEP_CLASSIFICATION, getMainSleepRecords, groupSleepPeriods } from './sleep-periods';
+import { circularTimeStats } from './circular';
+import { getSleepDay } from '../utils/actogram';
+import { getPeriodStart } from '../utils/dates';
+
+const HOURS_IN_DAY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+const DEFAULT_DRIFT = 30 * 60 * 1000; // Drift assumed with fewer than 2 main sleeps (30m beyond 24h)
+
+/**
+ * Settings the Non-24 analysis depends on (the chart passes its own)
+ */
+export interface AnalysisOptions {
+  dayStartHour: number;                       // Hour (0-23) at which a sleep day starts
+  maxEntries: number;                         // Most recent entries counted as visible (0 = all)
+  averagingDays: number;                      // Main sleeps of the last this many days used for the drift
+  classification: SleepClassificationOptions; // Merging of interrupted sleeps and nap thresholds
+}
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  dayStartHour: 17,
+  maxEntries: 90,
+  averagingDays: 14,
+  classification: DEFAULT_SLEEP_CLASSIFICATION,
+};
+
+/**
+ * Drift of the sleep and wake times from one main sleep to the next
+ */
+export interface EntryDrift {
+  sleepDrift: number; // Change of the sleep onset beyond 24h, within ±12h (ms)
+  wakeDrift: number;  // Change of the wake time beyond 24h, within ±12h (ms)
+}
+
+/**
+ * Average daily drift of a run of main sleeps
+ */
+export interface DriftSummary extends EntryDrift {
+  avgRating: number;                     // Average rating of the main sleeps
+  sleepEstimate: TauEstimate | null;     // Regression over the sleep onsets, null with fewer than 2 main sleeps
+  midpointEstimate: TauEstimate | null;  // Regression over the sleep midpoints, null with fewer than 2 main sleeps
+}
+
+/**
+ * Cycle of the visible main sleeps, the predictions and the natural-cycle view count from it
+ */
+export interface CycleModel {
+  cycleLength: number;             // 24h plus the estimated daily drift of the sleep onset
+  lastWakeTime: number;            // Wake time the cycles are counted from (epoch milliseconds)
+  avgSleepDuration: number;        // Average duration of the visible main sleeps
+  driftData: DriftSummary;
+  wakeEstimate: TauEstimate | null;
+}
+
+/**
+ * Figures of the Non-24 analysis, over the whole log and over the visible entries
+ */
+export interface Non24Summary {
+  total: DriftSummary;                  // Drift of the main sleeps of the whole log
+  visible: DriftSummary;                // Drift of the main sleeps of the visible entries
+  cycleDays: number;                    // Days the total drift takes to go once around the clock (0 = no drift)
+  avgSleepPerDay: number | null;        // Average sleep per day with entries, naps included (ms)
+  visibleAvgSleepPerDay: number | null; // The same over the visible entries
+}
+
+/**
+ * The most recent entries, the ones the chart shows
+ * @param records Entries sorted by sleep start
+ * @param maxEntries Number of entries kept (0 = all)
+ */
+export function getVisibleRecords(records: SleepRecord[], maxEntries: number): SleepRecord[] {
+  return maxEntries > 0 && records.length > maxEntries ? records.slice(-maxEntries) : records;
+}
+
+/**
+ * Gets the main sleep of each day, merged with the rest of its sleep period (see groupSleepPeriods)
+ * Only the last `averagingDays` are kept when there are more days than that.
+ * @param records Entries, in any order
+ * @returns Main sleeps in time order
+ */
+export function getMainSleepEntries(records: SleepRecord[], options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS): SleepRecord[] {
+  const getDate = (record: SleepRecord) => getSleepDay(new Date(record.sleep).getTime(), options.dayStartHour);
+  const mainSleepEntries = getMainSleepRecords(records, groupSleepPeriods(records, getDate, options.classification));
+
+  // Limit to the most recent entries for averaging
+  const uniqueDatesCount = new Set(mainSleepEntries.map(getDate)).size;
+  return options.averagingDays < uniqueDatesCount && mainSleepEntries.length > options.averagingDays
+    ? mainSleepEntries.slice(-options.averagingDays)
+    : mainSleepEntries;
+}
+
+/**
+ * Calculates the drift between two consecutive main sleeps
+ * The difference is folded into ±12h around a whole number of days, so a delay past midnight is a small positive
+ * drift rather than almost a day backwards.
+ */
+export function calculateEntryDrift(prevEntry: SleepRecord, currEntry: SleepRecord): EntryDrift {
+  return {
+    sleepDrift: foldToHalfDay(new Date(currEntry.sleep).getTime() - new Date(prevEntry.sleep).getTime()),
+    wakeDrift: foldToHalfDay(new Date(currEntry.wake).getTime() - new Date(prevEntry.wake).getTime())
+  };
+}
+
+/**
+ * Calculates the average daily drift in sleep and wake times
+ * The drift is the slope of a robust regression over the unwrapped sleep and wake times (see estimateTau). With fewer
+ * than 2 main sleeps it defaults to 30m and a rating of 3.
+ * @param entries Main sleeps in time order
+ */
+export function calculateDrift(entries: SleepRecord[]): DriftSummary {
+  if (entries.length < 2) {
+    return {
+      sleepDrift: DEFAULT_DRIFT,
+      wakeDrift: DEFAULT_DRIFT,
+      avgRating: 3,
+      sleepEstimate: null,
+      midpointEstimate: null
+    };
+  }
+
+  const sleepTimes = entries.map(entry => new Date(entry.sleep).getTime());
+  const wakeTimes = entries.map(entry => new Date(entry.wake).getTime());
+  const midpointTimes = entries.map((_, i) => (sleepTimes[i] + wakeTimes[i]) / 2);
+
+  // There are at least 2 entries, so the estimates are never null here
+  const sleepEstimate = estimateTau(sleepTimes) as TauEstimate;
+  const wakeEstimate = estimateTau(wakeTimes) as TauEstimate;
+
+  return {
+    sleepDrift: sleepEstimate.drift,
+    wakeDrift: wakeEstimate.drift,
+    avgRating: entries.reduce((sum, entry) => sum + entry.rating, 0) / entries.length,
+    sleepEstimate,
+    midpointEstimate: estimateTau(midpointTimes)
+  };
+}
+
+/**
+ * Days a daily drift takes to move the sleep once around the clock
+ * @returns The number of days, 0 when the drift is under a minute
+ */
+export function getCycleDays(drift: number): number {
+  const driftPerDay = drift % HOURS_IN_DAY;
+  const adjustedDrift = driftPerDay === 0 ? drift : driftPerDay;
+  return Math.abs(adjustedDrift) < 60 * 1000 ? 0 : Math.abs(Math.round(HOURS_IN_DAY / adjustedDrift));
+}
+
+/**
+ * Average time asleep per sleep day, naps included
+ * Days without entries are left out.
+ * @returns Milliseconds, null without entries
+ */
+export function getAverageSleepPerDay(records: SleepRecord[], dayStartHour: number): number | null {
+  const totalsByDay = new Map<string, number>();
+  records.forEach(record => {
+    const sleepTime = new Date(record.sleep).getTime();
+    const date = getSleepDay(sleepTime, dayStartHour);
+    totalsByDay.set(date, (totalsByDay.get(date) ?? 0) + new Date(record.wake).getTime() - sleepTime);
+  });
+  if (totalsByDay.size === 0) return null;
+
+  let total = 0;
+  totalsByDay.forEach(dayTotal => total += dayTotal);
+  return total / totalsByDay.size;
+}
+
+/**
+ * Computes the figures of the Non-24 analysis
+ * @param records Entries sorted by sleep start
+ */
+export function summarizeNon24(records: SleepRecord[], options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS): Non24Summary {
+  const visibleRecords = getVisibleRecords(records, options.maxEntries);
+  const total = calculateDrift(getMainSleepEntries(records, options));
+
+  return {
+    total,
+    visible: calculateDrift(getMainSleepEntries(visibleRecords, options)),
+    cycleDays: getCycleDays(total.sleepDrift),
+    avgSleepPerDay: getAverageSleepPerDay(records, options.dayStartHour),
+    visibleAvgSleepPerDay: getAverageSleepPerDay(visibleRecords, options.dayStartHour)
+  };
+}
+
+/**
+ * Aggregates the visible entries per week or per month, for the statistics panel
+ * Main sleeps and naps are told apart the same way as on the chart, and the onset and wake times are averaged over
+ * the main sleeps only.
+ * @param records Entries sorted by sleep start
+ * @returns One entry per period with entries, oldest first
+ */
+export function summarizePeriods(records: SleepRecord[], period: StatisticsPeriod, options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS): PeriodStatistics[] {
+  const visibleRecords = getVisibleRecords(records, options.maxEntries);
+  const getDate = (record: SleepRecord) => getSleepDay(new Date(record.sleep).getTime(), options.dayStartHour);
+  const sleepPeriods = groupSleepPeriods(visibleRecords, getDate, options.classification);
+  const mainSleepIndices = new Set(sleepPeriods.filter(sleepPeriod => sleepPeriod.isMain).flatMap(sleepPeriod => sleepPeriod.indices));
+  const mainSleeps = getMainSleepRecords(visibleRecords, sleepPeriods);
+
+  // Indices of the visible entries in each period
+  const periods = new Map<string, number[]>();
+  visibleRecords.forEach((record, index) => {
+    const start = getPeriodStart(getDate(record), period);
+    if (!periods.has(start)) periods.set(start, []);
+    periods.get(start)?.push(index);
+  });
+
+  return [...periods.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([start, indices]) => {
+    const periodRecords = indices.map(index => visibleRecords[index]);
+    const periodMainSleeps = mainSleeps.filter(record => getPeriodStart(getDate(record), period) === start);
+    const onsets = circularTimeStats(periodMainSleeps.map(record => new Date(record.sleep).getTime()));
+    const wakes = circularTimeStats(periodMainSleeps.map(record => new Date(record.wake).getTime()));
+
+    const totalSleep = periodRecords.reduce((total, record) => total + new Date(record.wake).getTime() - new Date(record.sleep).getTime(), 0);
+    const days = new Set(periodRecords.map(getDate)).size;
+
+    return {
+      start,
+      days,
+      onsetMean: onsets?.mean ?? null,
+      onsetSd: onsets?.sd ?? null,
+      wakeMean: wakes?.mean ?? null,
+      wakeSd: wakes?.sd ?? null,
+      meanTotalSleep: totalSleep / days,
+      napCount: indices.filter(index => !mainSleepIndices.has(index)).length,
+      meanRating: periodRecords.reduce((total, record) => total + record.rating, 0) / periodRecords.length,
+      // calculateDrift falls back to a default drift below 2 entries, which would look like a measurement
+      drift: periodMainSleeps.length >= 2 ? calculateDrift(periodMainSleeps).sleepDrift : null
+    };
+  });
+}
+
+/**
+ * Models the cycle of the visible main sleeps
+ * @param records Entries sorted by sleep start
+ * @returns The model, or null when no main sleep is visible
+ */
+export function getCycleModel(records: SleepRecord[], options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS): CycleModel | null {
+  const mainSleepEntries = getMainSleepEntries(getVisibleRecords(records, options.maxEntries), options);
+  if (mainSleepEntries.length === 0) return null;
+
+  const driftData = calculateDrift(mainSleepEntries);
+  const wakeEstimate = estimateTau(mainSleepEntries.map(entry => new Date(entry.wake).getTime()));
+
+  const totalSleepDuration = mainSleepEntries.reduce((sum, entry) =>
+    sum + new Date(entry.wake).getTime() - new Date(entry.sleep).getTime(), 0);
+  const avgSleepDuration = totalSleepDuration / mainSleepEntries.length;
+
+  // Start from the wake time of the last visible entry
+  // If the last night was rejected as an outlier by the drift regression, start from the fitted wake time instead
+  const lastEntry = mainSleepEntries[mainSleepEntries.length - 1];
+  let lastWakeTime = new Date(lastEntry.wake).getTime();
+  if (wakeEstimate && wakeEstimate.rejected[wakeEstimate.rejected.length - 1]) {
+    lastWakeTime = wakeEstimate.origin + wakeEstimate.intercept + wakeEstimate.tau * wakeEstimate.lastCycle;
+  }
+
+  // One cycle is 24h plus the estimated daily drift of the sleep onset
+  const cycleLength = HOURS_IN_DAY + driftData.sleepDrift;
+
+  return { cycleLength, lastWakeTime, avgSleepDuration, driftData, wakeEstimate };
+}
+
+/**
+ * Predicts the next main sleeps from the cycle of the visible ones
+ * Each wake time is one more cycle after the last one, and the sleep starts the average duration before it. The
+ * likely (80%) ranges come from the spread of the past times around the drift regression and widen with the distance.
+ * @param records Entries sorted by sleep start
+ * @param days Number of days to predict
+ */
+export function generatePredictions(records: SleepRecord[], days: number, options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS): PredictedSleepRecord[] {
+  const model = getCycleModel(records, options);
+  if (!model || days <= 0) return [];
+
+  const { cycleLength, lastWakeTime, avgSleepDuration, driftData, wakeEstimate } = model;
+  const predictions: PredictedSleepRecord[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const nextWakeTime = lastWakeTime + cycleLength * (i + 1);
+    const nextSleepTime = nextWakeTime - avgSleepDuration;
+    const sleepHalfWidth = driftData.sleepEstimate ? predictionHalfWidth(driftData.sleepEstimate, i + 1) : 0;
+    const wakeHalfWidth = wakeEstimate ? predictionHalfWidth(wakeEstimate, i + 1) : 0;
+
+    predictions.push({
+      sleep: new Date(nextSleepTime).toISOString(),
+      wake: new Date(nextWakeTime).toISOString(),
+      rating: Math.round(driftData.avgRating),
+      note: 'Predicted entry',
+      isPredicted: true,
+      sleepRange: {
+        earliest: new Date(nextSleepTime - sleepHalfWidth).toISOString(),
+        latest: new Date(nextSleepTime + sleepHalfWidth).toISOString()
+      },
+      wakeRange: {
+        earliest: new Date(nextWakeTime - wakeHalfWidth).toISOString(),
+        latest: new Date(nextWakeTime + wakeHalfWidth).toISOString()
+      }
+    });
+  }
+
+  return predictions;
+}
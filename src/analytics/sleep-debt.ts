@@ -0,0 +1,116 @@
+import type { SleepRecord } from '../types/sleep-record';
+
+const DAY = 24 * 60 * 60 * 1000; // One day in milliseconds
+const RECOVERY_REBOUND = 30 * 60 * 1000; // Rise of the debt that ends a recovery period (smaller wiggles are ignored)
+
+/**
+ * Total sleep of one day, naps included
+ */
+export interface DailySleep {
+  date: string;  // Day (YYYY-MM-DD)
+  total: number; // Time asleep in milliseconds
+}
+
+/**
+ * Sleep debt at the end of a day
+ */
+export interface SleepDebtDay extends DailySleep {
+  balance: number; // Sleep need minus sleep over the window ending this day (milliseconds, positive = debt, negative = surplus)
+}
+
+/**
+ * Stretch of days over which the debt was paid back
+ */
+export interface RecoveryPeriod {
+  start: string;     // Day the debt peaked (YYYY-MM-DD)
+  end: string;       // Day the debt bottomed out (YYYY-MM-DD)
+  peak: number;      // Debt at the start in milliseconds
+  recovered: number; // Debt paid back by the end in milliseconds
+}
+
+/**
+ * Adds up the sleep of each day, naps included
+ * @param getDate Day a record belongs to (YYYY-MM-DD)
+ * @returns One entry per day with records, sorted by date
+ */
+export function getDailySleepTotals(records: SleepRecord[], getDate: (record: SleepRecord) => string): DailySleep[] {
+  const totals = new Map<string, number>();
+  records.forEach(record => {
+    const duration = new Date(record.wake).getTime() - new Date(record.sleep).getTime();
+    const date = getDate(record);
+    totals.set(date, (totals.get(date) ?? 0) + duration);
+  });
+
+  return [...totals.entries()]
+    .map(([date, total]) => ({ date, total }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Computes the running sleep debt over a rolling window
+ * Each day's balance adds up the sleep need minus the sleep of every logged day in the window ending that day.
+ * Days without entries are left out rather than counted as no sleep, as a gap in the log usually means missing data.
+ * @param days Daily totals, sorted by date
+ * @param need Sleep need per day in milliseconds
+ * @param windowDays Length of the window in calendar days
+ */
+export function computeSleepDebt(days: DailySleep[], need: number, windowDays: number): SleepDebtDay[] {
+  const time = (date: string) => new Date(date).getTime();
+
+  let first = 0;
+  let balance = 0;
+  return days.map(day => {
+    balance += need - day.total;
+
+    // Drop the days that fell out of the window
+    while (time(days[first].date) <= time(day.date) - windowDays * DAY) {
+      balance -= need - days[first].total;
+      first++;
+    }
+
+    return { ...day, balance };
+  });
+}
+
+/**
+ * Finds the periods where the debt was paid back
+ * A period runs from a debt peak to the lowest point after it, and counts when at least `minRecovery` was paid back.
+ * It ends once the debt rises again by more than 30 minutes.
+ * @param debt Daily balances, sorted by date
+ * @param minRecovery Smallest debt reduction that counts as a recovery, in milliseconds
+ */
+export function findRecoveryPeriods(debt: SleepDebtDay[], minRecovery: number = 2 * 60 * 60 * 1000): RecoveryPeriod[] {
+  const periods: RecoveryPeriod[] = [];
+  if (debt.length === 0) return periods;
+
+  const addPeriod = (peak: number, trough: number) => periods.push({
+    start: debt[peak].date,
+    end: debt[trough].date,
+    peak: debt[peak].balance,
+    recovered: debt[peak].balance - debt[trough].balance,
+  });
+
+  let peak = 0;
+  let trough: number | null = null;
+  for (let i = 1; i < debt.length; i++) {
+    const balance = debt[i].balance;
+
+    if (trough === null) {
+      // Looking for a peak, and for a drop from it large enough to be a recovery
+      if (balance >= debt[peak].balance) {
+        peak = i;
+      } else if (debt[peak].balance >= minRecovery && debt[peak].balance - balance >= minRecovery) {
+        trough = i;
+      }
+    } else if (balance <= debt[trough].balance) {
+      trough = i;
+    } else if (balance - debt[trough].balance > RECOVERY_REBOUND) {
+      addPeriod(peak, trough);
+      peak = i;
+      trough = null;
+    }
+  }
+  if (trough !== null) addPeriod(peak, trough);
+
+  return periods;
+}
@@ -0,0 +1,122 @@
+import type { SleepRecord } from '../types/sleep-record';
+
+/**
+ * Thresholds used to group entries into sleep periods and to tell main sleeps from naps
+ */
+export interface SleepClassificationOptions {
+  mergeGap: number;        // Entries separated by at most this much time awake form one sleep period (ms, 0 = only overlapping ones)
+  minMainDuration: number; // Sleep periods shorter than this are naps, even when they are the longest of their day (ms)
+}
+
+export const DEFAULT_SLEEP_CLASSIFICATION: SleepClassificationOptions = {
+  mergeGap: 60 * 60 * 1000,
+  minMainDuration: 3 * 60 * 60 * 1000,
+};
+
+/**
+ * One sleep: a single entry, or entries interrupted by short awakenings
+ */
+export interface SleepPeriod {
+  indices: number[]; // Indices of the entries (into the records passed in), in time order
+  sleep: number;     // Start of the first entry (epoch milliseconds)
+  wake: number;      // End of the last entry (epoch milliseconds)
+  duration: number;  // Time asleep, the interruptions left out (milliseconds)
+  date: string;      // Day the period belongs to, the day of its first entry
+  isMain: boolean;   // Whether this is the main sleep of its day
+}
+
+/**
+ * Groups entries into sleep periods and picks the main sleep of each day
+ *
+ * Entries less than `mergeGap` apart are merged, unless one of them is marked as a nap by hand. On each day the
+ * longest period (by time asleep, so sleeps over 24 hours count in full) is the main sleep when it lasts at least
+ * `minMainDuration`, the others are naps. A period with an entry marked as main sleep by hand is preferred over the
+ * unmarked ones, and periods marked as naps are never the main sleep. There is at most one main sleep per day.
+ * @param records Entries, in any order
+ * @param getDate Day an entry belongs to (YYYY-MM-DD)
+ * @returns Periods in time order
+ */
+export function groupSleepPeriods(records: SleepRecord[], getDate: (record: SleepRecord) => string, options: SleepClassificationOptions = DEFAULT_SLEEP_CLASSIFICATION): SleepPeriod[] {
+  const entries = records
+    .map((record, index) => ({ record, index, sleep: new Date(record.sleep).getTime(), wake: new Date(record.wake).getTime() }))
+    .filter(entry => !isNaN(entry.sleep) && !isNaN(entry.wake))
+    .sort((a, b) => a.sleep - b.sleep);
+
+  // Merge the entries separated by a short awakening (overlapping entries are always merged)
+  const groups: (typeof entries)[] = [];
+  entries.forEach(entry => {
+    const group = groups[groups.length - 1];
+    const isNap = (candidate: typeof entry) => candidate.record.sleepType === 'nap';
+
+    if (group && !isNap(entry) && !group.some(isNap)) {
+      const gap = entry.sleep - Math.max(...group.map(member => member.wake));
+      if (gap <= options.mergeGap) {
+        group.push(entry);
+        return;
+      }
+    }
+    groups.push([entry]);
+  });
+
+  const periods: SleepPeriod[] = groups.map(group => ({
+    indices: group.map(entry => entry.index),
+    sleep: group[0].sleep,
+    wake: Math.max(...group.map(entry => entry.wake)),
+    duration: mergedDuration(group),
+    date: getDate(group[0].record),
+    isMain: false,
+  }));
+
+  // The main sleep of each day, among the periods that can be one
+  const manualType = (period: SleepPeriod) => {
+    const types = period.indices.map(index => records[index].sleepType);
+    return types.includes('main') ? 'main' : types.includes('nap') ? 'nap' : null;
+  };
+  const byDate = new Map<string, SleepPeriod[]>();
+  periods.forEach(period => {
+    if (!byDate.has(period.date)) byDate.set(period.date, []);
+    byDate.get(period.date)?.push(period);
+  });
+
+  byDate.forEach(dayPeriods => {
+    const marked = dayPeriods.filter(period => manualType(period) === 'main');
+    const candidates = marked.length > 0
+      ? marked
+      : dayPeriods.filter(period => manualType(period) === null && period.duration >= options.minMainDuration);
+    if (candidates.length === 0) return;
+
+    candidates.reduce((longest, period) => period.duration > longest.duration ? period : longest).isMain = true;
+  });
+
+  return periods;
+}
+
+/**
+ * Time asleep in a group of entries, counting overlapping parts once
+ */
+function mergedDuration(entries: { sleep: number, wake: number }[]): number {
+  let total = 0;
+  let coveredUntil = -Infinity;
+  entries.forEach(entry => {
+    const start = Math.max(entry.sleep, coveredUntil);
+    if (entry.wake > start) total += entry.wake - start;
+    coveredUntil = Math.max(coveredUntil, entry.wake);
+  });
+  return total;
+}
+
+/**
+ * Main sleeps as single records spanning their whole period
+ * A merged period becomes its first entry with the wake time of the last one.
+ * @param records The records the periods were grouped from
+ * @param periods Periods from groupSleepPeriods
+ * @returns One record per main sleep, in time order
+ */
+export function getMainSleepRecords(records: SleepRecord[], periods: SleepPeriod[]): SleepRecord[] {
+  return periods
+    .filter(period => period.isMain)
+    .map(period => {
+      const first = records[period.indices[0]];
+      return period.indices.length === 1 ? first : { ...first, wake: new Date(period.wake).toISOString() };
+    });
+}
@@ -0,0 +1,185 @@
+const HOURS_IN_DAY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+
+/**
+ * Result of fitting a line to the unwrapped phase of a daily event (e.g. sleep onset)
+ *
+ * The model is `time = origin + intercept + tau * cycle`, where `cycle` counts the circadian
+ * cycles since the first point. All durations are in milliseconds.
+ */
+export interface TauEstimate {
+  tau: number;               // Estimated period (24h + drift)
+  drift: number;             // Daily drift (tau - 24h), positive when the schedule delays
+  confidence: number | null; // Half width of the 95% confidence interval of tau (null with fewer than 3 points)
+  rSquared: number;          // Goodness of fit of the phase regression (0-1)
+  residualSd: number;        // Standard deviation of the residuals
+  n: number;                 // Number of points used in the fit
+  outliers: number;          // Number of points rejected as outliers
+  origin: number;            // Time of the first point (epoch milliseconds)
+  intercept: number;         // Fitted phase at cycle 0, relative to origin
+  meanCycle: number;         // Mean cycle number of the points used (for prediction intervals)
+  sxx: number;               // Sum of squared cycle deviations of the points used (for prediction intervals)
+  lastCycle: number;         // Cycle number of the last point
+  residuals: number[];       // Residual of each point in time order (including rejected ones)
+  rejected: boolean[];       // Whether each point (in time order) was rejected as an outlier
+}
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Folds a time difference into the ±12h range around a whole number of days
+ */
+export function foldToHalfDay(diff: number): number {
+  let folded = ((diff % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
+  if (folded > HOURS_IN_DAY / 2) folded -= HOURS_IN_DAY;
+  return folded;
+}
+
+/**
+ * Approximate two-sided 95% quantile of Student's t distribution
+ * (Cornish-Fisher expansion around the normal quantile, accurate enough for confidence intervals)
+ */
+function tQuantile95(degreesOfFreedom: number): number {
+  const z = 1.959964;
+  const df = degreesOfFreedom;
+  return z
+    + (z ** 3 + z) / (4 * df)
+    + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2)
+    + (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * df ** 3);
+}
+
+/**
+ * Assigns a cycle number to each time, so that gaps of several days count as several cycles
+ * @param times Sorted epoch milliseconds, one per cycle at most
+ */
+function assignCycles(times: number[]): number[] {
+  // First guess of the period from consecutive days only (gaps would make the folding ambiguous)
+  const steps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const diff = times[i] - times[i - 1];
+    if (Math.round(diff / HOURS_IN_DAY) === 1) steps.push(foldToHalfDay(diff));
+  }
+  const periodGuess = HOURS_IN_DAY + (steps.length > 0 ? median(steps) : 0);
+
+  const cycles = [0];
+  for (let i = 1; i < times.length; i++) {
+    const elapsed = Math.max(1, Math.round((times[i] - times[i - 1]) / periodGuess));
+    cycles.push(cycles[i - 1] + elapsed);
+  }
+  return cycles;
+}
+
+/**
+ * Ordinary least squares fit of y = intercept + slope * x
+ */
+function fitLine(xs: number[], ys: number[]) {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  return { slope, intercept, meanX, meanY, sxx };
+}
+
+/**
+ * Estimates the circadian period from the times of a daily event (sleep onset, wake, midpoint...)
+ *
+ * The times are unwrapped into a phase (time minus 24h per cycle) and a line is fitted to the phase.
+ * The slope is the daily drift, so a missing day only removes one point instead of skewing an average.
+ * Points further than 3 robust standard deviations (from the median absolute deviation) are rejected
+ * and the line is refitted, so a single bad night doesn't move the estimate.
+ *
+ * @param times Epoch milliseconds of the event, at most one per cycle (e.g. the main sleep of each day)
+ * @returns The estimate, or null with fewer than 2 points
+ */
+export function estimateTau(times: number[]): TauEstimate | null {
+  const sorted = [...times].sort((a, b) => a - b);
+  if (sorted.length < 2) return null;
+
+  const origin = sorted[0];
+  const cycles = assignCycles(sorted);
+  // Unwrapped phase: time since the origin, minus a full day per cycle
+  const phases = sorted.map((time, i) => time - origin - cycles[i] * HOURS_IN_DAY);
+
+  let rejected = sorted.map(() => false);
+  let fit = fitLine(cycles, phases);
+
+  // Reject outliers and refit until the set of points doesn't change
+  for (let iteration = 0; iteration < 5; iteration++) {
+    const residuals = phases.map((phase, i) => phase - (fit.intercept + fit.slope * cycles[i]));
+    const used = residuals.filter((_, i) => !rejected[i]);
+    const mad = median(used.map(residual => Math.abs(residual - median(used))));
+
+    // Never reject points within 30 minutes of the line, the MAD can be tiny for very regular logs
+    const threshold = Math.max(3 * 1.4826 * mad, 30 * 60 * 1000);
+    const nextRejected = residuals.map(residual => Math.abs(residual) > threshold);
+
+    // Keep at least 3 points (or all of them when there are fewer)
+    if (nextRejected.filter(value => !value).length < Math.min(3, sorted.length)) break;
+    if (nextRejected.every((value, i) => value === rejected[i])) break;
+
+    rejected = nextRejected;
+    const keptCycles = cycles.filter((_, i) => !rejected[i]);
+    const keptPhases = phases.filter((_, i) => !rejected[i]);
+    fit = fitLine(keptCycles, keptPhases);
+  }
+
+  const keptIndices = sorted.map((_, i) => i).filter(i => !rejected[i]);
+  const n = keptIndices.length;
+  const residuals = phases.map((phase, i) => phase - (fit.intercept + fit.slope * cycles[i]));
+
+  const sse = keptIndices.reduce((sum, i) => sum + residuals[i] ** 2, 0);
+  const sst = keptIndices.reduce((sum, i) => sum + (phases[i] - fit.meanY) ** 2, 0);
+
+  // With 2 points the line goes through both, so there is no spread to estimate the uncertainty from
+  const residualVariance = n > 2 ? sse / (n - 2) : 0;
+  const confidence = n > 2 && fit.sxx > 0
+    ? tQuantile95(n - 2) * Math.sqrt(residualVariance / fit.sxx)
+    : null;
+
+  return {
+    tau: HOURS_IN_DAY + fit.slope,
+    drift: fit.slope,
+    confidence,
+    rSquared: sst === 0 ? 1 : Math.max(0, 1 - sse / sst),
+    residualSd: Math.sqrt(residualVariance),
+    n,
+    outliers: sorted.length - n,
+    origin,
+    intercept: fit.intercept,
+    meanCycle: fit.meanX,
+    sxx: fit.sxx,
+    lastCycle: cycles[cycles.length - 1],
+    residuals,
+    rejected,
+  };
+}
+
+/**
+ * Half width of the prediction interval for the event a number of cycles after the last point
+ * The interval widens with the distance from the fitted data, and covers the residual spread of the history
+ * @param estimate The fitted estimate
+ * @param cyclesAhead Number of cycles after the last point
+ * @param z Normal quantile of the interval (1.2816 for a two-sided 80% interval)
+ * @returns Half width in milliseconds (0 when the spread can't be estimated)
+ */
+export function predictionHalfWidth(estimate: TauEstimate, cyclesAhead: number, z: number = 1.2816): number {
+  if (estimate.n <= 2 || estimate.sxx === 0) return 0;
+
+  const cycle = estimate.lastCycle + cyclesAhead;
+  return z * estimate.residualSd * Math.sqrt(1 + 1 / estimate.n + (cycle - estimate.meanCycle) ** 2 / estimate.sxx);
+}
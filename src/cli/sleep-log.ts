@@ -0,0 +1,340 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { SleepRecord, PredictedSleepRecord, PredictionRange } from '../types/sleep-record';
+import type { AnalysisOptions } from '../analytics/sleep-analysis';
+import { DEFAULT_ANALYSIS_OPTIONS, generatePredictions, summarizeNon24 } from '../analytics/sleep-analysis';
+import type { SleepLog } from '../data/schema';
+import { CURRENT_SCHEMA_VERSION, parseSleepLog } from '../data/schema';
+import { sortRecords } from '../data/sleep-store';
+import type { DateFormat, SleepDateRule } from '../utils/csv';
+import { DATE_FORMATS, SLEEP_DATE_RULES, convertRows, guessColumnMapping, inferSleepDateRule, parseCsv } from '../utils/csv';
+import type { ExportFormat, ExportOptions } from '../utils/export';
+import { buildExportRows, getExportInterventions, toCsv, toJson } from '../utils/export';
+import { formatDays, formatDrift, formatFit, formatSleepAmount, formatTau } from '../utils/format';
+import { toLocalInputValue } from '../utils/dates';
+import { validateSleepLog } from '../utils/validation';
+
+const USAGE = `Usage: sleep-log <command> [options]
+
+Commands:
+  report               Print the Non-24 analysis (cycle length, tau, drift, average sleep)
+  predict              Print the predicted sleeps, as drawn in the chart
+  import [file.csv]    Convert a CSV sleep log (default data.csv) to the JSON format
+  export               Export the sleep log as JSON or CSV
+
+Options:
+  --file <path>          Sleep log to read (default public/data.json, - for stdin)
+  --output <path>        Write to a file instead of stdout
+  --day-start <hour>     Hour the day starts (default 17)
+  --entries <n>          Most recent entries counted as visible (default 90, 0 = all)
+  --averaging-days <n>   Days of main sleeps the drift is estimated from (default all)
+  --merge-gap <minutes>  Longest awakening within one sleep (default 60)
+  --min-main-sleep <h>   Shortest main sleep in hours (default 3)
+  --json                 Print the report or the predictions as JSON
+
+predict and export:
+  --days <n>             Days to predict (default 30)
+
+import:
+  --date-format <format> ${DATE_FORMATS.join(', ')} (default MM/DD/YY)
+  --sleep-date <rule>    ${SLEEP_DATE_RULES.map(rule => rule.value).join(', ')} (default: guessed from the rows)
+  --cutoff-hour <hour>   Cutoff hour of the cutoff rule (default 12)
+  --rating <n>           Rating of rows without one (default 3)
+
+export:
+  --format <json|csv>    Output format (default json)
+  --visible              Only the visible entries (see --entries)
+  --from <YYYY-MM-DD>    First sleep day of the range (see --day-start)
+  --to <YYYY-MM-DD>      Last sleep day of the range
+  --main-sleep           Add the main sleep / nap flag
+  --duration             Add the sleep duration
+  --drift                Add the drift from the previous day's main sleep
+  --predictions          Add the predicted entries after the real ones
+`;
+
+type Options = ReturnType<typeof parseCommandLine>['values'];
+
+/**
+ * Parses the command line, failing on unknown options
+ */
+function parseCommandLine(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'file': { type: 'string', default: 'public/data.json' },
+      'output': { type: 'string' },
+      'day-start': { type: 'string' },
+      'entries': { type: 'string' },
+      'averaging-days': { type: 'string' },
+      'merge-gap': { type: 'string' },
+      'min-main-sleep': { type: 'string' },
+      'json': { type: 'boolean', default: false },
+      'days': { type: 'string' },
+      'date-format': { type: 'string', default: 'MM/DD/YY' },
+      'sleep-date': { type: 'string' },
+      'cutoff-hour': { type: 'string' },
+      'rating': { type: 'string' },
+      'format': { type: 'string', default: 'json' },
+      'visible': { type: 'boolean', default: false },
+      'from': { type: 'string' },
+      'to': { type: 'string' },
+      'main-sleep': { type: 'boolean', default: false },
+      'duration': { type: 'boolean', default: false },
+      'drift': { type: 'boolean', default: false },
+      'predictions': { type: 'boolean', default: false },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  });
+}
+
+/**
+ * Reads a numeric option
+ * @param fallback Value when the option is not given
+ */
+function readNumber(options: Options, name: keyof Options, fallback: number, min: number, max: number = Infinity): number {
+  const value = options[name];
+  if (value === undefined) return fallback;
+
+  const number = Number(value);
+  if (typeof value !== 'string' || value.trim() === '' || isNaN(number) || number < min || number > max) {
+    throw new Error(`--${name} must be a number from ${min}${max === Infinity ? '' : ` to ${max}`}`);
+  }
+  return number;
+}
+
+/**
+ * Reads a text file, or stdin for "-"
+ */
+function readInput(path: string): string {
+  try {
+    return readFileSync(path === '-' ? 0 : path, 'utf8');
+  } catch {
+    throw new Error(`Can't read ${path === '-' ? 'stdin' : path}`);
+  }
+}
+
+/**
+ * Writes the output of a command to the --output file, or stdout
+ */
+function writeOutput(options: Options, text: string) {
+  const content = text.endsWith('\n') ? text : `${text}\n`;
+  if (options.output) {
+    writeFileSync(options.output, content);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+/**
+ * Reads the sleep log and leaves out the records with errors, like the chart does
+ */
+function loadLog(options: Options): SleepLog {
+  let json: unknown;
+  try {
+    json = JSON.parse(readInput(options.file));
+  } catch (error) {
+    throw error instanceof SyntaxError ? new Error(`${options.file} is not valid JSON`) : error;
+  }
+
+  const log = parseSleepLog(json);
+  const rejected = new Set(validateSleepLog(log.records, getAnalysisOptions(options, log.records).dayStartHour).filter(issue => issue.severity === 'error').map(issue => issue.record));
+  if (rejected.size > 0) {
+    console.error(`Left out ${rejected.size} record${rejected.size === 1 ? '' : 's'} with errors`);
+  }
+
+  return { records: sortRecords(log.records.filter(record => !rejected.has(record))), interventions: log.interventions };
+}
+
+/**
+ * Settings of the Non-24 analysis from the options, with the chart's defaults
+ */
+function getAnalysisOptions(options: Options, records: SleepRecord[]): AnalysisOptions {
+  return {
+    dayStartHour: readNumber(options, 'day-start', DEFAULT_ANALYSIS_OPTIONS.dayStartHour, 0, 23),
+    maxEntries: readNumber(options, 'entries', DEFAULT_ANALYSIS_OPTIONS.maxEntries, 0),
+    // The chart averages over every day of the log unless told otherwise (there are never more days than records)
+    averagingDays: readNumber(options, 'averaging-days', Math.max(records.length, 1), 1),
+    classification: {
+      mergeGap: readNumber(options, 'merge-gap', DEFAULT_ANALYSIS_OPTIONS.classification.mergeGap / (60 * 1000), 0) * 60 * 1000,
+      minMainDuration: readNumber(options, 'min-main-sleep', DEFAULT_ANALYSIS_OPTIONS.classification.minMainDuration / (60 * 60 * 1000), 0) * 60 * 60 * 1000,
+    },
+  };
+}
+
+/**
+ * Converts milliseconds to minutes, rounded to a tenth
+ */
+function toMinutes(ms: number | null): number | null {
+  return ms === null ? null : Math.round(ms / (6 * 1000)) / 10;
+}
+
+/**
+ * Prints the Non-24 analysis of the info box
+ */
+function report(options: Options): string {
+  const { records } = loadLog(options);
+  if (records.length < 2) throw new Error('The report needs at least 2 entries');
+
+  const summary = summarizeNon24(records, getAnalysisOptions(options, records));
+  const { total, visible } = summary;
+
+  if (options.json) {
+    return JSON.stringify({
+      entries: records.length,
+      cycleDays: summary.cycleDays,
+      tauMinutes: {
+        onset: toMinutes(total.sleepEstimate?.tau ?? null),
+        onsetConfidence: toMinutes(total.sleepEstimate?.confidence ?? null),
+        midpoint: toMinutes(total.midpointEstimate?.tau ?? null),
+      },
+      rSquared: total.sleepEstimate?.rSquared ?? null,
+      driftMinutes: { total: toMinutes(total.sleepDrift), visible: toMinutes(visible.sleepDrift) },
+      sleepPerDayMinutes: { total: toMinutes(summary.avgSleepPerDay), visible: toMinutes(summary.visibleAvgSleepPerDay) },
+    }, null, 2);
+  }
+
+  const { fit, details } = formatFit(total.sleepEstimate);
+  const rows: [string, string][] = [
+    ['Cycle length', formatDays(summary.cycleDays)],
+    ['Tau: Onset', formatTau(total.sleepEstimate)],
+    ['Tau: Midpoint', formatTau(total.midpointEstimate)],
+    ['Fit', details ? `${fit} (${details})` : fit],
+    ['Drift: Total', formatDrift(total.sleepDrift)],
+    ['Drift: Visible', formatDrift(visible.sleepDrift)],
+    ['Sleep: Total', formatSleepAmount(summary.avgSleepPerDay)],
+    ['Sleep: Visible', formatSleepAmount(summary.visibleAvgSleepPerDay)],
+  ];
+  const width = Math.max(...rows.map(([label]) => label.length));
+
+  return ['Non-24 Analysis', ...rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`)].join('\n');
+}
+
+/**
+ * Predicts the next sleeps the same way as the chart
+ */
+function getPredictions(options: Options, records: SleepRecord[]): PredictedSleepRecord[] {
+  return generatePredictions(records, readNumber(options, 'days', 30, 0), getAnalysisOptions(options, records));
+}
+
+/**
+ * Prints the predicted sleeps in local time, with their likely (80%) ranges
+ */
+function predict(options: Options): string {
+  const { records } = loadLog(options);
+  const predictions = getPredictions(options, records);
+
+  if (options.json) {
+    return JSON.stringify(predictions.map(({ sleep, wake, sleepRange, wakeRange }) => ({ sleep, wake, sleepRange, wakeRange })), null, 2);
+  }
+  if (predictions.length === 0) return 'No main sleeps to predict from';
+
+  const formatTime = (iso: string) => toLocalInputValue(iso).replace('T', ' ');
+  const formatRange = (range?: PredictionRange) => range ? `${formatTime(range.earliest).slice(11)}-${formatTime(range.latest).slice(11)}` : '';
+
+  return [
+    'Sleep             Wake              Likely sleep  Likely wake',
+    ...predictions.map(prediction =>
+      `${formatTime(prediction.sleep)}  ${formatTime(prediction.wake)}  ${formatRange(prediction.sleepRange).padEnd(12)}  ${formatRange(prediction.wakeRange)}`),
+  ].join('\n');
+}
+
+/**
+ * Converts a CSV sleep log to the JSON format, the same way as the CSV import dialog
+ * Rows that can't be converted are listed on stderr.
+ */
+function importCsv(options: Options, path: string): string {
+  const rows = parseCsv(readInput(path));
+  if (rows.length < 2) throw new Error(`${path} has no data rows`);
+
+  const dateFormat = options['date-format'] as DateFormat;
+  if (!DATE_FORMATS.includes(dateFormat)) throw new Error(`--date-format must be one of ${DATE_FORMATS.join(', ')}`);
+
+  const baseOptions = {
+    mapping: guessColumnMapping(rows[0]),
+    dateFormat,
+    cutoffHour: readNumber(options, 'cutoff-hour', 12, 0, 23),
+    defaultRating: readNumber(options, 'rating', 3, 1, 5),
+  };
+  const dataRows = rows.slice(1);
+
+  const rule = options['sleep-date'] as SleepDateRule | undefined;
+  if (rule !== undefined && !SLEEP_DATE_RULES.some(({ value }) => value === rule)) {
+    throw new Error(`--sleep-date must be one of ${SLEEP_DATE_RULES.map(({ value }) => value).join(', ')}`);
+  }
+
+  const result = convertRows(dataRows, { ...baseOptions, sleepDateRule: rule ?? inferSleepDateRule(dataRows, baseOptions) }, 1);
+  result.problems.forEach(problem => console.error(`Row ${problem.row + 1}: ${problem.message}`));
+  console.error(`Converted ${result.records.length} sleep records`);
+
+  // No ids: reading the file derives them from the times, so converting the same CSV again gives the same records
+  const records = result.records.map(({ record }) => record);
+  return JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, records, interventions: [] }, null, 2);
+}
+
+/**
+ * Exports the sleep log with the same rows and fields as the export dialog
+ */
+function exportLog(options: Options): string {
+  const { records, interventions } = loadLog(options);
+
+  const format = options.format as ExportFormat;
+  if (format !== 'json' && format !== 'csv') throw new Error('--format must be json or csv');
+
+  const exportOptions: ExportOptions = {
+    format,
+    range: options.from || options.to ? 'custom' : options.visible ? 'visible' : 'all',
+    from: options.from ?? '0000-01-01',
+    to: options.to ?? '9999-12-31',
+    includeMainSleep: options['main-sleep'],
+    includeDuration: options.duration,
+    includeDrift: options.drift,
+    includePredictions: options.predictions,
+  };
+
+  const predictions = exportOptions.includePredictions ? getPredictions(options, records) : [];
+  const analysis = getAnalysisOptions(options, records);
+  const rows = buildExportRows(records, predictions, exportOptions, analysis);
+
+  return format === 'csv'
+    ? toCsv(rows, exportOptions)
+    : toJson(rows, exportOptions, getExportInterventions(interventions, exportOptions, rows, analysis.dayStartHour));
+}
+
+/**
+ * Runs a command
+ * @param args Command line arguments, without the node and script paths
+ */
+function main(args: string[]) {
+  const { values: options, positionals } = parseCommandLine(args);
+  const [command, ...rest] = positionals;
+
+  if (options.help || command === undefined) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case 'report':
+      writeOutput(options, report(options));
+      break;
+    case 'predict':
+      writeOutput(options, predict(options));
+      break;
+    case 'import':
+      writeOutput(options, importCsv(options, rest[0] ?? 'data.csv'));
+      break;
+    case 'export':
+      writeOutput(options, exportLog(options));
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,327 @@
+import type { SleepRecord } from '../types/sleep-record';
+import type { ColumnMapping, CsvConversionOptions, DateFormat, SleepDateRule } from '../utils/csv';
+import { DATE_FORMATS, SLEEP_DATE_RULES, convertRows, guessColumnMapping, inferSleepDateRule, parseCsv } from '../utils/csv';
+import { validateSleepRecord } from '../utils/validation';
+import { escapeHtml } from '../utils/html';
+
+/**
+ * Detail of the `records-import` event
+ */
+export interface RecordsImportDetail {
+  records: SleepRecord[];
+}
+
+/**
+ * Status of a single CSV row in the preview
+ */
+interface PreviewRow {
+  row: number;
+  cells: string[];
+  record: SleepRecord | null;
+  problem: string | null;
+}
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping, label: string, required: boolean }[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'sleep', label: 'Sleep time', required: true },
+  { key: 'wake', label: 'Wake time', required: true },
+  { key: 'rating', label: 'Rating', required: false },
+  { key: 'note', label: 'Note', required: false },
+  { key: 'tags', label: 'Tags', required: false },
+];
+
+/**
+ * Modal dialog for importing sleep records from a CSV file
+ * Previews the file, lets the user map columns and pick the date rules, then dispatches `records-import`
+ */
+export class CsvImportDialog extends HTMLElement {
+  private records: SleepRecord[] = []; // Existing records, imported rows must not overlap them
+  private rows: string[][] = [];       // All parsed CSV rows, including the header row
+  private hasHeader: boolean = true;
+  private mapping: ColumnMapping = { date: 0, sleep: 1, wake: 2, rating: null, note: null, tags: null };
+  private dateFormat: DateFormat = 'MM/DD/YY';
+  private sleepDateRule: SleepDateRule | 'infer' = 'infer';
+  private cutoffHour: number = 12; // Same cutoff as the old convert script
+  private preview: PreviewRow[] = [];
+
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    const fileInput = this.querySelector('#csv-file') as HTMLInputElement;
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      this.loadText(await file.text());
+    });
+
+    const headerCheckbox = this.querySelector('#csv-has-header') as HTMLInputElement;
+    headerCheckbox.addEventListener('change', () => {
+      this.hasHeader = headerCheckbox.checked;
+      this.renderMapping();
+      this.updatePreview();
+    });
+
+    const dateFormatSelect = this.querySelector('#csv-date-format') as HTMLSelectElement;
+    dateFormatSelect.addEventListener('change', () => {
+      this.dateFormat = dateFormatSelect.value as DateFormat;
+      this.updatePreview();
+    });
+
+    const ruleSelect = this.querySelector('#csv-sleep-date-rule') as HTMLSelectElement;
+    ruleSelect.addEventListener('change', () => {
+      this.sleepDateRule = ruleSelect.value as SleepDateRule | 'infer';
+      this.updatePreview();
+    });
+
+    const cutoffInput = this.querySelector('#csv-cutoff-hour') as HTMLInputElement;
+    cutoffInput.addEventListener('change', () => {
+      const hour = parseInt(cutoffInput.value, 10);
+      if (hour >= 0 && hour <= 23) this.cutoffHour = hour;
+      this.updatePreview();
+    });
+
+    this.querySelector('.cancel-button')?.addEventListener('click', () => this.close());
+    this.querySelector('.import-button')?.addEventListener('click', () => this.submit());
+
+    this.querySelector('.dialog-backdrop')?.addEventListener('click', (event) => {
+      if (event.target === event.currentTarget) this.close();
+    });
+
+    this.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+    });
+  }
+
+  /**
+   * Opens the dialog
+   * @param records All existing records (imported rows overlapping them are skipped)
+   */
+  public open(records: SleepRecord[]) {
+    this.records = records;
+    this.rows = [];
+    this.preview = [];
+
+    (this.querySelector('#csv-file') as HTMLInputElement).value = '';
+    this.renderMapping();
+    this.renderPreview();
+    this.querySelector('.dialog-backdrop')?.classList.remove('hidden');
+  }
+
+  /**
+   * Closes the dialog without importing
+   */
+  public close() {
+    this.querySelector('.dialog-backdrop')?.classList.add('hidden');
+  }
+
+  /**
+   * Parses the CSV text and guesses a column mapping from its header
+   */
+  private loadText(text: string) {
+    this.rows = parseCsv(text);
+    if (this.rows.length > 0) {
+      this.mapping = guessColumnMapping(this.hasHeader ? this.rows[0] : []);
+    }
+    this.renderMapping();
+    this.updatePreview();
+  }
+
+  /**
+   * Returns the rows containing data (without the header row)
+   */
+  private getDataRows(): string[][] {
+    return this.hasHeader ? this.rows.slice(1) : this.rows;
+  }
+
+  /**
+   * Returns the conversion options for the current settings
+   * When the sleep date rule is set to infer, the most plausible rule for the file is used
+   */
+  private getOptions(): CsvConversionOptions {
+    const baseOptions = {
+      mapping: this.mapping,
+      dateFormat: this.dateFormat,
+      cutoffHour: this.cutoffHour,
+      defaultRating: 3, // Default rating since it's not always in the CSV
+    };
+
+    const sleepDateRule = this.sleepDateRule === 'infer'
+      ? inferSleepDateRule(this.getDataRows(), baseOptions)
+      : this.sleepDateRule;
+
+    return { ...baseOptions, sleepDateRule };
+  }
+
+  /**
+   * Converts the rows with the current settings and checks them against the existing data
+   */
+  private updatePreview() {
+    const dataRows = this.getDataRows();
+    const firstRow = this.hasHeader ? 1 : 0;
+    const options = this.getOptions();
+    const result = convertRows(dataRows, options, firstRow);
+
+    // Show which rule was picked when inferring
+    const inferredLabel = this.querySelector('.inferred-rule');
+    if (inferredLabel) {
+      const rule = SLEEP_DATE_RULES.find(({ value }) => value === options.sleepDateRule);
+      inferredLabel.textContent = this.sleepDateRule === 'infer' && dataRows.length > 0 ? `Inferred: ${rule?.label}` : '';
+    }
+
+    const problemsByRow = new Map(result.problems.map(problem => [problem.row, problem.message]));
+    const recordsByRow = new Map(result.records.map(({ row, record }) => [row, record]));
+
+    // Accepted records are checked against the existing data and against each other
+    const accepted: SleepRecord[] = [];
+
+    this.preview = dataRows.map((cells, i) => {
+      const row = firstRow + i;
+      const record = recordsByRow.get(row) ?? null;
+
+      if (!record) {
+        // Rows without their own problem were skipped for a general reason (e.g. missing required columns)
+        return { row, cells, record: null, problem: problemsByRow.get(row) ?? result.problems[0]?.message ?? 'Could not be converted' };
+      }
+
+      const errors = validateSleepRecord(record, [...this.records, ...accepted]);
+      if (errors.length > 0) {
+        return { row, cells, record: null, problem: errors[0] };
+      }
+
+      accepted.push(record);
+      return { row, cells, record, problem: null };
+    });
+
+    this.renderPreview();
+  }
+
+  /**
+   * Renders the column mapping selects for the current file
+   */
+  private renderMapping() {
+    const container = this.querySelector('.column-mapping');
+    if (!container) return;
+
+    const columnCount = Math.max(0, ...this.rows.map(row => row.length));
+    const headers = Array.from({ length: columnCount }, (_, i) =>
+      this.hasHeader && this.rows[0]?.[i] ? `${i + 1}: ${this.rows[0][i]}` : `Column ${i + 1}`
+    );
+
+    container.innerHTML = MAPPING_FIELDS.map(({ key, label, required }) => `
+      <label for="csv-map-${key}">${label}:</label>
+      <select id="csv-map-${key}" data-field="${key}" class="bg-gray-800 text-white text-xs p-1 rounded">
+        ${required ? '' : `<option value="">(none)</option>`}
+        ${headers.map((header, i) =>
+          `<option value="${i}" ${this.mapping[key] === i ? 'selected' : ''}>${escapeHtml(header)}</option>`
+        ).join('')}
+      </select>
+    `).join('');
+
+    container.querySelectorAll('select').forEach(select => {
+      select.addEventListener('change', () => {
+        const field = select.dataset.field as keyof ColumnMapping;
+        this.mapping = { ...this.mapping, [field]: select.value === '' ? null : parseInt(select.value, 10) };
+        this.updatePreview();
+      });
+    });
+  }
+
+  /**
+   * Renders the preview table and the import summary
+   */
+  private renderPreview() {
+    const table = this.querySelector('.preview-table');
+    const summary = this.querySelector('.preview-summary');
+    const importButton = this.querySelector('.import-button') as HTMLButtonElement;
+    if (!table || !summary) return;
+
+    const validCount = this.preview.filter(row => row.record).length;
+    const problemCount = this.preview.length - validCount;
+
+    summary.textContent = this.preview.length === 0
+      ? 'Choose a CSV file to preview it'
+      : `${validCount} entries ready to import, ${problemCount} rows will be skipped`;
+    importButton.disabled = validCount === 0;
+
+    const formatTime = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+
+    table.innerHTML = this.preview.map(({ row, cells, record, problem }) => `
+      <tr class="${problem ? 'text-red-400' : ''}">
+        <td class="pr-2 text-gray-400">${row + 1}</td>
+        <td class="pr-2">${escapeHtml(cells.join(', '))}</td>
+        <td class="pr-2 whitespace-nowrap">${record ? `${formatTime(record.sleep)} → ${formatTime(record.wake)}` : ''}</td>
+        <td>${problem ? escapeHtml(problem) : 'OK'}</td>
+      </tr>
+    `).join('');
+  }
+
+  /**
+   * Dispatches `records-import` with the rows that converted cleanly
+   */
+  private submit() {
+    const records = this.preview.flatMap(row => row.record ? [row.record] : []);
+    if (records.length === 0) return;
+
+    this.dispatchEvent(new CustomEvent<RecordsImportDetail>('records-import', {
+      detail: { records },
+      bubbles: true
+    }));
+    this.close();
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="dialog-backdrop hidden fixed inset-0 bg-black bg-opacity-60 z-30 flex items-center justify-center">
+        <div class="bg-[#222222] border border-[#444444] rounded p-4 w-[48rem] max-h-[90vh] text-white text-xs flex flex-col gap-2">
+          <div class="font-bold mb-1 border-b border-gray-600 pb-1">Import CSV</div>
+
+          <div class="flex items-center gap-4">
+            <input type="file" id="csv-file" accept=".csv,text/csv" class="text-xs" />
+            <label class="flex items-center gap-1">
+              <input type="checkbox" id="csv-has-header" ${this.hasHeader ? 'checked' : ''} />
+              First row is a header
+            </label>
+          </div>
+
+          <div class="column-mapping grid grid-cols-[auto_1fr_auto_1fr] gap-x-2 gap-y-1 items-center"></div>
+
+          <div class="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 items-center">
+            <label for="csv-date-format">Date format:</label>
+            <select id="csv-date-format" class="bg-gray-800 text-white text-xs p-1 rounded">
+              ${DATE_FORMATS.map(format => `<option value="${format}" ${format === this.dateFormat ? 'selected' : ''}>${format}</option>`).join('')}
+            </select>
+
+            <label for="csv-sleep-date-rule">Sleep date:</label>
+            <div class="flex items-center gap-2">
+              <select id="csv-sleep-date-rule" class="bg-gray-800 text-white text-xs p-1 rounded">
+                <option value="infer" selected>Infer from the data</option>
+                ${SLEEP_DATE_RULES.map(({ value, label }) => `<option value="${value}">${label}</option>`).join('')}
+              </select>
+              <label for="csv-cutoff-hour">Cutoff hour:</label>
+              <input type="number" id="csv-cutoff-hour" min="0" max="23" step="1" value="${this.cutoffHour}" class="bg-gray-800 text-white text-xs p-1 rounded w-12" />
+              <span class="inferred-rule text-gray-400"></span>
+            </div>
+          </div>
+
+          <div class="preview-summary text-gray-300"></div>
+          <div class="overflow-auto max-h-[40vh] border border-[#333333] rounded p-1">
+            <table class="w-full text-left">
+              <tbody class="preview-table"></tbody>
+            </table>
+          </div>
+
+          <div class="flex justify-end gap-2 mt-2">
+            <button type="button" class="cancel-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">Cancel</button>
+            <button type="button" class="import-button bg-[#3B82F6] hover:bg-blue-400 disabled:opacity-50 px-2 py-1 rounded" disabled>Import</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('csv-import-dialog', CsvImportDialog);
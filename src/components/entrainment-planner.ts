@@ -0,0 +1,181 @@
+import type { EntrainmentOptions, EntrainmentPlan } from '../analytics/entrainment';
+import type { TargetWindow } from '../analytics/alignment';
+import { formatTimeOfDay, parseTimeOfDay } from '../utils/target-schedule';
+
+/**
+ * Detail of the `plan-request` event
+ */
+export interface PlanRequestDetail {
+  target: TargetWindow;
+  options: EntrainmentOptions;
+}
+
+/**
+ * Modal dialog for planning melatonin and bright light toward a target sleep window
+ * Dispatches `plan-request` with the target and `plan-clear` to remove the plan, the owner computes the plan
+ * (from its predictions) and shows it back with `showPlan`
+ */
+export class EntrainmentPlanner extends HTMLElement {
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    const form = this.querySelector('form') as HTMLFormElement;
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.submit();
+    });
+
+    this.querySelector('.clear-button')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('plan-clear', { bubbles: true }));
+      this.showPlan(null);
+    });
+    this.querySelector('.cancel-button')?.addEventListener('click', () => this.close());
+
+    this.querySelector('.dialog-backdrop')?.addEventListener('click', (event) => {
+      if (event.target === event.currentTarget) this.close();
+    });
+
+    this.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+    });
+  }
+
+  /**
+   * Opens the dialog
+   * @param plan Plan currently shown on the chart, if any
+   * @param target Target window shown in the inputs
+   */
+  public open(plan: EntrainmentPlan | null, target: TargetWindow) {
+    (this.querySelector('#plan-target-sleep') as HTMLInputElement).value = formatTimeOfDay(target.sleepMinutes);
+    (this.querySelector('#plan-target-wake') as HTMLInputElement).value = formatTimeOfDay(target.wakeMinutes);
+    this.showError('');
+    this.showPlan(plan);
+    this.querySelector('.dialog-backdrop')?.classList.remove('hidden');
+    (this.querySelector('#plan-target-sleep') as HTMLInputElement).focus();
+  }
+
+  /**
+   * Closes the dialog, the plan stays on the chart
+   */
+  public close() {
+    this.querySelector('.dialog-backdrop')?.classList.add('hidden');
+  }
+
+  /**
+   * Shows a plan as a table of days, or clears the table
+   */
+  public showPlan(plan: EntrainmentPlan | null) {
+    const summary = this.querySelector('.plan-summary') as HTMLElement;
+    const table = this.querySelector('.plan-table') as HTMLElement;
+    summary.classList.toggle('hidden', plan === null);
+    table.classList.toggle('hidden', plan === null);
+    if (!plan) return;
+
+    const reached = plan.daysToTarget === null
+      ? `Target not reached within ${plan.days.length} days`
+      : plan.daysToTarget === 0 ? 'Already at the target' : `Target reached in ${plan.daysToTarget} days`;
+    summary.textContent = `${reached} (${plan.direction === 'advance' ? 'advancing' : 'delaying around the clock'})`;
+
+    const formatDay = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    const formatTime = (time: number | null) => time === null
+      ? '-'
+      : new Date(time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+    const formatShift = (ms: number) => `${ms > 0 ? '+' : ''}${Math.round(ms / (60 * 1000))}m`;
+
+    (table.querySelector('tbody') as HTMLElement).innerHTML = plan.days.map((day, index) => `
+      <tr class="${plan.daysToTarget !== null && index >= plan.daysToTarget ? 'text-green-400' : ''}">
+        <td>${formatDay(day.sleep)}</td>
+        <td>${formatTime(day.sleep)}-${formatTime(day.wake)}</td>
+        <td>${formatTime(day.melatonin)}</td>
+        <td>${formatTime(day.light)}</td>
+        <td title="Expected advance (negative = delay)">${formatShift(day.shift)}</td>
+        <td title="Distance from the target (positive = later)">${formatShift(day.error)}</td>
+      </tr>
+    `).join('');
+  }
+
+  /**
+   * Shows an error below the fields (empty message hides it)
+   */
+  public showError(message: string) {
+    const error = this.querySelector('.dialog-error') as HTMLElement;
+    error.textContent = message;
+    error.classList.toggle('hidden', message === '');
+  }
+
+  /**
+   * Dispatches `plan-request` with the target and the selected interventions
+   */
+  private submit() {
+    const sleepMinutes = parseTimeOfDay((this.querySelector('#plan-target-sleep') as HTMLInputElement).value);
+    const wakeMinutes = parseTimeOfDay((this.querySelector('#plan-target-wake') as HTMLInputElement).value);
+    if (sleepMinutes === null || wakeMinutes === null) {
+      this.showError('Enter the target sleep and wake times');
+      return;
+    }
+
+    const options: EntrainmentOptions = {
+      useMelatonin: (this.querySelector('#plan-use-melatonin') as HTMLInputElement).checked,
+      useLight: (this.querySelector('#plan-use-light') as HTMLInputElement).checked
+    };
+
+    this.showError('');
+    this.dispatchEvent(new CustomEvent<PlanRequestDetail>('plan-request', {
+      detail: { target: { sleepMinutes, wakeMinutes }, options },
+      bubbles: true
+    }));
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="dialog-backdrop hidden fixed inset-0 bg-black bg-opacity-60 z-30 flex items-center justify-center">
+        <form class="bg-[#222222] border border-[#444444] rounded p-4 w-[28rem] text-white text-xs flex flex-col gap-2" novalidate>
+          <div class="font-bold mb-1 border-b border-gray-600 pb-1">Entrainment planner</div>
+
+          <div class="grid grid-cols-2 gap-2">
+            <label for="plan-target-sleep">Target sleep time:</label>
+            <label for="plan-target-wake">Target wake time:</label>
+            <input type="time" id="plan-target-sleep" class="bg-gray-800 text-white text-xs p-1 rounded" />
+            <input type="time" id="plan-target-wake" class="bg-gray-800 text-white text-xs p-1 rounded" />
+          </div>
+
+          <div class="flex gap-4">
+            <label class="flex items-center gap-1"><input type="checkbox" id="plan-use-melatonin" checked /> Melatonin (0.5 mg)</label>
+            <label class="flex items-center gap-1"><input type="checkbox" id="plan-use-light" checked /> Bright light (30-60 min)</label>
+          </div>
+
+          <p class="text-gray-400">
+            Starts from the predicted schedule and suggests daily times from average phase response curves.
+            For planning only, not medical advice.
+          </p>
+
+          <div class="dialog-error hidden text-red-400"></div>
+
+          <div class="plan-summary hidden font-bold"></div>
+          <div class="plan-table hidden max-h-64 overflow-y-auto">
+            <table class="w-full text-left">
+              <thead class="text-gray-400">
+                <tr><th>Day</th><th>Sleep</th><th>Melatonin</th><th>Light</th><th>Shift</th><th>Error</th></tr>
+              </thead>
+              <tbody></tbody>
+            </table>
+          </div>
+
+          <div class="flex justify-between mt-2">
+            <button type="button" class="clear-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">Clear plan</button>
+            <div class="flex gap-2 ml-auto">
+              <button type="button" class="cancel-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">Close</button>
+              <button type="submit" class="bg-[#3B82F6] hover:bg-blue-400 px-2 py-1 rounded">Plan</button>
+            </div>
+          </div>
+        </form>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('entrainment-planner', EntrainmentPlanner);
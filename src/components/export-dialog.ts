@@ -0,0 +1,154 @@
+import type { ExportFormat, ExportOptions, ExportRange } from '../utils/export';
+
+/**
+ * Modal dialog for choosing what to export
+ * Dispatches `export-request` with the selected options, the owner builds and downloads the file
+ */
+export class ExportDialog extends HTMLElement {
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    // Only enable the date inputs for a custom range
+    this.querySelectorAll('input[name="export-range"]').forEach(input => {
+      input.addEventListener('change', () => this.updateRangeInputs());
+    });
+
+    const form = this.querySelector('form') as HTMLFormElement;
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.submit();
+    });
+
+    this.querySelector('.cancel-button')?.addEventListener('click', () => this.close());
+
+    this.querySelector('.dialog-backdrop')?.addEventListener('click', (event) => {
+      if (event.target === event.currentTarget) this.close();
+    });
+
+    this.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+    });
+  }
+
+  /**
+   * Opens the dialog
+   * @param firstDate First date in the log (YYYY-MM-DD), used as the default custom range start
+   * @param lastDate Last date in the log (YYYY-MM-DD), used as the default custom range end
+   */
+  public open(firstDate: string, lastDate: string) {
+    const fromInput = this.querySelector('#export-from') as HTMLInputElement;
+    const toInput = this.querySelector('#export-to') as HTMLInputElement;
+    if (!fromInput.value) fromInput.value = firstDate;
+    if (!toInput.value) toInput.value = lastDate;
+
+    this.updateRangeInputs();
+    this.showError('');
+    this.querySelector('.dialog-backdrop')?.classList.remove('hidden');
+  }
+
+  /**
+   * Closes the dialog without exporting
+   */
+  public close() {
+    this.querySelector('.dialog-backdrop')?.classList.add('hidden');
+  }
+
+  private updateRangeInputs() {
+    const isCustom = this.getRange() === 'custom';
+    (this.querySelector('#export-from') as HTMLInputElement).disabled = !isCustom;
+    (this.querySelector('#export-to') as HTMLInputElement).disabled = !isCustom;
+  }
+
+  private getRange(): ExportRange {
+    const checked = this.querySelector('input[name="export-range"]:checked') as HTMLInputElement | null;
+    return (checked?.value ?? 'all') as ExportRange;
+  }
+
+  private isChecked(id: string): boolean {
+    return (this.querySelector(`#${id}`) as HTMLInputElement).checked;
+  }
+
+  /**
+   * Dispatches `export-request` with the selected options
+   */
+  private submit() {
+    const format = (this.querySelector('input[name="export-format"]:checked') as HTMLInputElement).value as ExportFormat;
+    const range = this.getRange();
+    const from = (this.querySelector('#export-from') as HTMLInputElement).value || null;
+    const to = (this.querySelector('#export-to') as HTMLInputElement).value || null;
+
+    if (range === 'custom' && (!from || !to || from > to)) {
+      this.showError('Select a start date on or before the end date');
+      return;
+    }
+
+    const options: ExportOptions = {
+      format,
+      range,
+      from,
+      to,
+      includeMainSleep: this.isChecked('export-main-sleep'),
+      includeDuration: this.isChecked('export-duration'),
+      includeDrift: this.isChecked('export-drift'),
+      includePredictions: this.isChecked('export-predictions'),
+    };
+
+    this.dispatchEvent(new CustomEvent<ExportOptions>('export-request', {
+      detail: options,
+      bubbles: true
+    }));
+    this.close();
+  }
+
+  private showError(message: string) {
+    const error = this.querySelector('.dialog-error');
+    if (!error) return;
+    error.textContent = message;
+    error.classList.toggle('hidden', message === '');
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="dialog-backdrop hidden fixed inset-0 bg-black bg-opacity-60 z-30 flex items-center justify-center">
+        <form class="bg-[#222222] border border-[#444444] rounded p-4 w-80 text-white text-xs flex flex-col gap-2">
+          <div class="font-bold mb-1 border-b border-gray-600 pb-1">Export sleep log</div>
+
+          <div class="font-bold">Format</div>
+          <div class="flex gap-4">
+            <label class="flex items-center gap-1"><input type="radio" name="export-format" value="csv" checked /> CSV</label>
+            <label class="flex items-center gap-1"><input type="radio" name="export-format" value="json" /> JSON</label>
+          </div>
+
+          <div class="font-bold">Range</div>
+          <label class="flex items-center gap-1"><input type="radio" name="export-range" value="all" checked /> All data</label>
+          <label class="flex items-center gap-1"><input type="radio" name="export-range" value="visible" /> Visible entries</label>
+          <label class="flex items-center gap-1"><input type="radio" name="export-range" value="custom" /> Date range</label>
+          <div class="flex items-center gap-1 pl-4">
+            <input type="date" id="export-from" class="bg-gray-800 text-white text-xs p-1 rounded" />
+            <span>to</span>
+            <input type="date" id="export-to" class="bg-gray-800 text-white text-xs p-1 rounded" />
+          </div>
+
+          <div class="font-bold">Fields</div>
+          <label class="flex items-center gap-1"><input type="checkbox" id="export-main-sleep" checked /> Main sleep / nap</label>
+          <label class="flex items-center gap-1"><input type="checkbox" id="export-duration" checked /> Duration</label>
+          <label class="flex items-center gap-1"><input type="checkbox" id="export-drift" /> Drift from previous day</label>
+          <label class="flex items-center gap-1" title="Only available when predictions are shown in the chart"><input type="checkbox" id="export-predictions" /> Predicted entries</label>
+
+          <div class="dialog-error hidden text-red-400"></div>
+
+          <div class="flex justify-end gap-2 mt-2">
+            <button type="button" class="cancel-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">Cancel</button>
+            <button type="submit" class="bg-[#3B82F6] hover:bg-blue-400 px-2 py-1 rounded">Export</button>
+          </div>
+        </form>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('export-dialog', ExportDialog);
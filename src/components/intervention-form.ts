@@ -0,0 +1,256 @@
+import type { Intervention, InterventionType } from '../types/intervention';
+import { INTERVENTION_TYPES, getInterventionTypeInfo } from '../utils/interventions';
+import { toLocalInputValue } from '../utils/dates';
+
+/**
+ * Detail of the `intervention-save` event
+ * `index` is null when a new intervention is logged
+ */
+export interface InterventionSaveDetail {
+  intervention: Omit<Intervention, 'id'> & { id?: string };
+  index: number | null;
+}
+
+/**
+ * Detail of the `intervention-delete` event
+ */
+export interface InterventionDeleteDetail {
+  index: number;
+}
+
+/**
+ * Modal form for logging, editing and deleting interventions (melatonin, light therapy, medication)
+ * Dispatches `intervention-save` and `intervention-delete` events, the owner is responsible for applying them
+ */
+export class InterventionForm extends HTMLElement {
+  private interventions: Intervention[] = []; // Existing interventions
+  private editIndex: number | null = null; // Index of the intervention being edited (null = new intervention)
+  private confirmingDelete: boolean = false; // Whether the delete button is waiting for confirmation
+
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    const form = this.querySelector('form') as HTMLFormElement;
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.submit();
+    });
+
+    // Offer the usual unit of the selected type, unless the unit was changed by hand
+    const typeSelect = this.querySelector('#intervention-type') as HTMLSelectElement;
+    const unitInput = this.querySelector('#intervention-unit') as HTMLInputElement;
+    typeSelect.addEventListener('change', () => {
+      const isDefaultUnit = unitInput.value === '' || INTERVENTION_TYPES.some(info => info.defaultUnit === unitInput.value);
+      if (isDefaultUnit) unitInput.value = getInterventionTypeInfo(typeSelect.value as InterventionType).defaultUnit;
+    });
+
+    this.querySelector('.cancel-button')?.addEventListener('click', () => this.close());
+    this.querySelector('.delete-button')?.addEventListener('click', () => this.requestDelete());
+
+    // Close when clicking the backdrop, but not when clicking inside the dialog
+    this.querySelector('.form-backdrop')?.addEventListener('click', (event) => {
+      if (event.target === event.currentTarget) this.close();
+    });
+
+    this.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+    });
+  }
+
+  /**
+   * Opens the form
+   * @param interventions All existing interventions
+   * @param index Index of the intervention to edit, or null to log a new one
+   */
+  public open(interventions: Intervention[], index: number | null = null) {
+    this.interventions = interventions;
+    this.editIndex = index;
+    this.confirmingDelete = false;
+
+    const intervention = index !== null ? interventions[index] : this.createDefaultIntervention();
+
+    (this.querySelector('#intervention-type') as HTMLSelectElement).value = intervention.type;
+    (this.querySelector('#intervention-time') as HTMLInputElement).value = toLocalInputValue(intervention.time);
+    (this.querySelector('#intervention-dose') as HTMLInputElement).value = intervention.dose?.toString() ?? '';
+    (this.querySelector('#intervention-unit') as HTMLInputElement).value = intervention.unit;
+    (this.querySelector('#intervention-duration') as HTMLInputElement).value = intervention.duration?.toString() ?? '';
+    (this.querySelector('#intervention-name') as HTMLInputElement).value = intervention.name;
+    (this.querySelector('#intervention-note') as HTMLInputElement).value = intervention.note;
+
+    const title = this.querySelector('.form-title');
+    if (title) title.textContent = index !== null ? 'Edit intervention' : 'New intervention';
+
+    const deleteButton = this.querySelector('.delete-button') as HTMLButtonElement;
+    deleteButton.classList.toggle('hidden', index === null);
+    deleteButton.textContent = 'Delete';
+
+    this.showErrors([]);
+    this.querySelector('.form-backdrop')?.classList.remove('hidden');
+    (this.querySelector('#intervention-type') as HTMLSelectElement).focus();
+  }
+
+  /**
+   * Closes the form without saving
+   */
+  public close() {
+    this.querySelector('.form-backdrop')?.classList.add('hidden');
+    this.editIndex = null;
+    this.confirmingDelete = false;
+  }
+
+  /**
+   * Creates the values shown when logging a new intervention
+   * Defaults to a dose of melatonin taken now
+   */
+  private createDefaultIntervention(): Omit<Intervention, 'id'> {
+    const time = new Date();
+    time.setSeconds(0, 0);
+
+    return {
+      type: 'melatonin',
+      time: time.toISOString(),
+      dose: null,
+      unit: getInterventionTypeInfo('melatonin').defaultUnit,
+      duration: null,
+      name: '',
+      note: ''
+    };
+  }
+
+  /**
+   * Reads the form values into an intervention (the id is kept when editing)
+   */
+  private readIntervention(): InterventionSaveDetail['intervention'] {
+    const input = (id: string) => this.querySelector(`#${id}`) as HTMLInputElement;
+    const readNumber = (id: string) => input(id).value.trim() === '' ? null : Number(input(id).value);
+    const time = new Date(input('intervention-time').value);
+
+    return {
+      id: this.editIndex !== null ? this.interventions[this.editIndex].id : undefined,
+      type: (this.querySelector('#intervention-type') as HTMLSelectElement).value as InterventionType,
+      time: isNaN(time.getTime()) ? '' : time.toISOString(),
+      dose: readNumber('intervention-dose'),
+      unit: input('intervention-unit').value.trim(),
+      duration: readNumber('intervention-duration'),
+      name: input('intervention-name').value.trim(),
+      note: input('intervention-note').value.trim()
+    };
+  }
+
+  /**
+   * Checks the form values
+   * @returns List of human-readable error messages (empty when valid)
+   */
+  private validate(intervention: InterventionSaveDetail['intervention']): string[] {
+    const errors: string[] = [];
+    if (intervention.time === '') errors.push('Time is not a valid date');
+    if (intervention.dose !== null && (!Number.isFinite(intervention.dose) || intervention.dose < 0)) {
+      errors.push('Dose must be a number of at least 0');
+    }
+    if (intervention.duration !== null && (!Number.isFinite(intervention.duration) || intervention.duration <= 0)) {
+      errors.push('Duration must be a number of minutes above 0');
+    }
+    return errors;
+  }
+
+  /**
+   * Validates the form and dispatches `intervention-save` when the intervention is valid
+   */
+  private submit() {
+    const intervention = this.readIntervention();
+    const errors = this.validate(intervention);
+
+    if (errors.length > 0) {
+      this.showErrors(errors);
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent<InterventionSaveDetail>('intervention-save', {
+      detail: { intervention, index: this.editIndex },
+      bubbles: true
+    }));
+    this.close();
+  }
+
+  /**
+   * Deletes the intervention being edited
+   * The first click asks for confirmation, the second one dispatches `intervention-delete`
+   */
+  private requestDelete() {
+    if (this.editIndex === null) return;
+
+    const deleteButton = this.querySelector('.delete-button') as HTMLButtonElement;
+    if (!this.confirmingDelete) {
+      this.confirmingDelete = true;
+      deleteButton.textContent = 'Confirm delete';
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent<InterventionDeleteDetail>('intervention-delete', {
+      detail: { index: this.editIndex },
+      bubbles: true
+    }));
+    this.close();
+  }
+
+  /**
+   * Shows validation errors below the fields
+   */
+  private showErrors(errors: string[]) {
+    const errorList = this.querySelector('.form-errors');
+    if (!errorList) return;
+
+    errorList.innerHTML = errors.map(error => `<li>${error}</li>`).join('');
+    errorList.classList.toggle('hidden', errors.length === 0);
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="form-backdrop hidden fixed inset-0 bg-black bg-opacity-60 z-30 flex items-center justify-center">
+        <form class="bg-[#222222] border border-[#444444] rounded p-4 w-80 text-white text-xs flex flex-col gap-2" novalidate>
+          <div class="form-title font-bold mb-1 border-b border-gray-600 pb-1">New intervention</div>
+
+          <label for="intervention-type">Type:</label>
+          <select id="intervention-type" class="bg-gray-800 text-white text-xs p-1 rounded">
+            ${INTERVENTION_TYPES.map(info => `<option value="${info.type}">${info.label}</option>`).join('')}
+          </select>
+
+          <label for="intervention-time">Time:</label>
+          <input type="datetime-local" id="intervention-time" class="bg-gray-800 text-white text-xs p-1 rounded" required />
+
+          <div class="grid grid-cols-2 gap-2">
+            <label for="intervention-dose">Dose:</label>
+            <label for="intervention-unit">Unit:</label>
+            <input type="number" id="intervention-dose" min="0" step="any" class="bg-gray-800 text-white text-xs p-1 rounded" placeholder="Optional" />
+            <input type="text" id="intervention-unit" class="bg-gray-800 text-white text-xs p-1 rounded" />
+          </div>
+
+          <label for="intervention-duration">Duration (min):</label>
+          <input type="number" id="intervention-duration" min="1" class="bg-gray-800 text-white text-xs p-1 rounded" placeholder="Empty for a single dose" />
+
+          <label for="intervention-name">Product or device:</label>
+          <input type="text" id="intervention-name" class="bg-gray-800 text-white text-xs p-1 rounded" placeholder="Optional" />
+
+          <label for="intervention-note">Note:</label>
+          <input type="text" id="intervention-note" class="bg-gray-800 text-white text-xs p-1 rounded" placeholder="Optional" />
+
+          <ul class="form-errors hidden text-red-400 list-disc pl-4"></ul>
+
+          <div class="flex justify-between mt-2">
+            <button type="button" class="delete-button hidden bg-red-800 hover:bg-red-700 px-2 py-1 rounded">Delete</button>
+            <div class="flex gap-2 ml-auto">
+              <button type="button" class="cancel-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">Cancel</button>
+              <button type="submit" class="bg-[#3B82F6] hover:bg-blue-400 px-2 py-1 rounded">Save</button>
+            </div>
+          </div>
+        </form>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('intervention-form', InterventionForm);
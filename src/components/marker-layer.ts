@@ -0,0 +1,84 @@
+/**
+ * A marker waiting to be added to the layer, positioned in percent of the plot area like the sleep blocks
+ */
+export interface PlacedMarker {
+  left: number;               // Left edge of the area the marker is drawn in (percent of the width)
+  top: number;                // Top edge (percent of the height)
+  width: number;              // Width (percent of the width)
+  height: number;             // Height (percent of the height)
+  create: () => HTMLElement;  // Builds the positioned marker element
+}
+
+/**
+ * Holds markers drawn as elements over the sleep blocks, such as the interventions
+ * Only the markers inside the viewport are created, the others when scrolling or resizing brings them into view. A
+ * marker stays once it's created, so the layer only grows with what has been seen.
+ */
+export class MarkerLayer extends HTMLElement {
+  private pending: PlacedMarker[] = []; // Markers not created yet because they were outside the viewport
+  private frame: number | null = null; // Pending animation frame of an update
+  private resizeObserver = new ResizeObserver(() => this.onViewportChange());
+  private onViewportChange = () => {
+    if (this.pending.length > 0) this.scheduleUpdate();
+  };
+
+  connectedCallback() {
+    this.className = 'absolute inset-0 block pointer-events-none';
+    this.resizeObserver.observe(this);
+    window.addEventListener('scroll', this.onViewportChange, { passive: true, capture: true });
+    window.addEventListener('resize', this.onViewportChange);
+    this.scheduleUpdate();
+  }
+
+  disconnectedCallback() {
+    this.resizeObserver.disconnect();
+    window.removeEventListener('scroll', this.onViewportChange, { capture: true });
+    window.removeEventListener('resize', this.onViewportChange);
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+  }
+
+  /**
+   * Replaces the markers, the ones inside the viewport are created on the next frame
+   */
+  public setMarkers(markers: PlacedMarker[]) {
+    this.innerHTML = '';
+    this.pending = markers;
+    this.scheduleUpdate();
+  }
+
+  private scheduleUpdate() {
+    if (this.frame !== null || !this.isConnected) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      this.update();
+    });
+  }
+
+  /**
+   * Creates the pending markers that are inside the viewport
+   */
+  private update() {
+    const rect = this.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    // Part of the element inside the viewport, in percent
+    const visible = {
+      left: (Math.max(0, -rect.left) / rect.width) * 100,
+      top: (Math.max(0, -rect.top) / rect.height) * 100,
+      right: ((window.innerWidth - rect.left) / rect.width) * 100,
+      bottom: ((window.innerHeight - rect.top) / rect.height) * 100
+    };
+
+    const fragment = document.createDocumentFragment();
+    this.pending = this.pending.filter(marker => {
+      if (marker.left > visible.right || marker.left + marker.width < visible.left || marker.top > visible.bottom || marker.top + marker.height < visible.top) return true;
+      fragment.appendChild(marker.create());
+      return false;
+    });
+    this.appendChild(fragment);
+  }
+}
+
+// Register the custom element
+customElements.define('marker-layer', MarkerLayer);
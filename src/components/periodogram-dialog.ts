@@ -0,0 +1,164 @@
+import type { Periodogram, PeriodogramPeak, PeriodWindow } from '../analytics/periodogram';
+
+/**
+ * Modal dialog showing the periodogram of the visible entries and the dominant period over a sliding window
+ * The owner computes both and passes them to `open`
+ */
+export class PeriodogramDialog extends HTMLElement {
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    this.querySelector('.cancel-button')?.addEventListener('click', () => this.close());
+
+    this.querySelector('.dialog-backdrop')?.addEventListener('click', (event) => {
+      if (event.target === event.currentTarget) this.close();
+    });
+
+    this.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+    });
+  }
+
+  /**
+   * Opens the dialog
+   * @param periodogram Periodogram of the whole range
+   * @param windows Dominant period of each window, oldest first
+   */
+  public open(periodogram: Periodogram, windows: PeriodWindow[]) {
+    this.renderSummary(periodogram);
+    this.renderPeriodogram(periodogram);
+    this.renderWindows(windows);
+
+    this.querySelector('.dialog-backdrop')?.classList.remove('hidden');
+    (this.querySelector('.cancel-button') as HTMLButtonElement).focus();
+  }
+
+  /**
+   * Closes the dialog
+   */
+  public close() {
+    this.querySelector('.dialog-backdrop')?.classList.add('hidden');
+  }
+
+  private formatPeriod(hours: number): string {
+    const totalMinutes = Math.round(hours * 60);
+    return `${Math.floor(totalMinutes / 60)}h ${(totalMinutes % 60).toString().padStart(2, '0')}m`;
+  }
+
+  private formatSignificance(peak: PeriodogramPeak): string {
+    return peak.falseAlarm < 0.001 ? 'p < 0.001' : `p = ${peak.falseAlarm.toFixed(3)}`;
+  }
+
+  private renderSummary(periodogram: Periodogram) {
+    const summary = this.querySelector('.periodogram-summary') as HTMLElement;
+    const { peak } = periodogram;
+
+    summary.textContent = peak
+      ? `Dominant period: ${this.formatPeriod(peak.period)} (${this.formatSignificance(peak)}${peak.falseAlarm >= 0.05 ? ', not significant' : ''})`
+      : 'Not enough data: the periodogram needs at least 3 days of entries';
+  }
+
+  /**
+   * Plots the power against the period, with the 24h period and the peak marked
+   */
+  private renderPeriodogram(periodogram: Periodogram) {
+    const plot = this.querySelector('.periodogram-plot') as HTMLElement;
+    const { points, peak } = periodogram;
+    if (points.length < 2 || !peak) {
+      plot.innerHTML = '';
+      return;
+    }
+
+    const minPeriod = points[0].period;
+    const maxPeriod = points[points.length - 1].period;
+    const x = (period: number) => ((period - minPeriod) / (maxPeriod - minPeriod)) * 100;
+    const y = (power: number) => 100 - (power / peak.power) * 95;
+
+    const line = points.map(point => `${x(point.period)},${y(point.power)}`).join(' ');
+    const ticks = [];
+    for (let period = Math.ceil(minPeriod); period <= maxPeriod; period += 2) ticks.push(period);
+
+    plot.innerHTML = `
+      <svg class="w-full h-32 bg-[#1a1a1a] rounded" viewBox="0 0 100 100" preserveAspectRatio="none">
+        <line x1="${x(24)}" y1="0" x2="${x(24)}" y2="100" stroke="#666666" stroke-dasharray="2,2" vector-effect="non-scaling-stroke" />
+        <polyline points="${line}" fill="none" stroke="#3B82F6" stroke-width="1.5" vector-effect="non-scaling-stroke" />
+        <line x1="${x(peak.period)}" y1="0" x2="${x(peak.period)}" y2="100" stroke="#FF00FF" vector-effect="non-scaling-stroke" />
+      </svg>
+      <div class="relative h-4 text-gray-400">
+        ${ticks.map(period => `<span class="absolute -translate-x-1/2" style="left: ${x(period)}%">${period}h</span>`).join('')}
+      </div>
+    `;
+  }
+
+  /**
+   * Plots the dominant period of each window against time, significant windows filled
+   */
+  private renderWindows(windows: PeriodWindow[]) {
+    const plot = this.querySelector('.periodogram-windows') as HTMLElement;
+    const withPeak = windows.filter(window => window.peak !== null);
+    if (withPeak.length === 0) {
+      plot.innerHTML = '<div class="text-gray-400">Not enough data for the sliding window</div>';
+      return;
+    }
+
+    const minPeriod = 20;
+    const maxPeriod = 28;
+    const first = windows[0].end;
+    const last = windows[windows.length - 1].end;
+    const x = (time: number) => last === first ? 50 : 2 + ((time - first) / (last - first)) * 96;
+    const y = (period: number) => 100 - ((period - minPeriod) / (maxPeriod - minPeriod)) * 100;
+    const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+    const dots = withPeak.map(window => {
+      const peak = window.peak as PeriodogramPeak;
+      const significant = peak.falseAlarm < 0.05;
+      return `<circle cx="${x(window.end)}%" cy="${y(peak.period)}%" r="3" fill="${significant ? '#FF00FF' : 'none'}" stroke="#FF00FF">
+        <title>${formatDate(window.start)} – ${formatDate(window.end)}: ${this.formatPeriod(peak.period)} (${this.formatSignificance(peak)})</title>
+      </circle>`;
+    }).join('');
+
+    plot.innerHTML = `
+      <div class="flex gap-1">
+        <div class="relative w-6 h-32 text-gray-400">
+          ${[20, 24, 28].map(period => `<span class="absolute right-0 -translate-y-1/2" style="top: ${y(period)}%">${period}h</span>`).join('')}
+        </div>
+        <svg class="flex-1 h-32 bg-[#1a1a1a] rounded">
+          <line x1="0" y1="${y(24)}%" x2="100%" y2="${y(24)}%" stroke="#666666" stroke-dasharray="2,2" />
+          ${dots}
+        </svg>
+      </div>
+      <div class="flex justify-between text-gray-400 pl-7">
+        <span>${formatDate(first)}</span>
+        <span>${formatDate(last)}</span>
+      </div>
+    `;
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="dialog-backdrop hidden fixed inset-0 bg-black bg-opacity-60 z-30 flex items-center justify-center">
+        <div class="bg-[#222222] border border-[#444444] rounded p-4 w-[32rem] text-white text-xs flex flex-col gap-2">
+          <div class="font-bold mb-1 border-b border-gray-600 pb-1">Periodogram</div>
+
+          <div class="periodogram-summary font-bold"></div>
+          <div class="text-gray-400">Lomb-Scargle power of the sleep/wake signal of the visible entries (naps included), 20-28h. Gaps over 48h are left out.</div>
+          <div class="periodogram-plot"></div>
+
+          <div class="font-bold mt-2">Dominant period over time</div>
+          <div class="text-gray-400">28-day windows, one week apart. Filled dots are significant (p < 0.05).</div>
+          <div class="periodogram-windows"></div>
+
+          <div class="flex justify-end mt-2">
+            <button type="button" class="cancel-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">Close</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('periodogram-dialog', PeriodogramDialog);
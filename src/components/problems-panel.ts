@@ -0,0 +1,87 @@
+import type { ValidationIssue } from '../utils/validation';
+import { escapeHtml } from '../utils/html';
+
+/**
+ * Collapsible panel listing the problems found in the sleep log
+ * Hidden when there are no problems, dispatches `issue-select` when a problem is clicked
+ */
+export class ProblemsPanel extends HTMLElement {
+  private issues: ValidationIssue[] = [];
+  private expanded: boolean = false;
+
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    this.querySelector('.problems-toggle')?.addEventListener('click', () => {
+      this.expanded = !this.expanded;
+      this.render();
+    });
+
+    // Items are re-created with the list, so listen on the list itself
+    this.querySelector('.problems-list')?.addEventListener('click', (event) => {
+      const item = (event.target as HTMLElement).closest('.problem-item') as HTMLElement | null;
+      if (!item) return;
+
+      const issue = this.issues[parseInt(item.dataset.index ?? '-1', 10)];
+      if (!issue) return;
+
+      this.dispatchEvent(new CustomEvent<ValidationIssue>('issue-select', {
+        detail: issue,
+        bubbles: true
+      }));
+    });
+  }
+
+  /**
+   * Replaces the listed problems
+   * @param issues Problems to list, errors are shown before warnings
+   */
+  public setIssues(issues: ValidationIssue[]) {
+    this.issues = [
+      ...issues.filter(issue => issue.severity === 'error'),
+      ...issues.filter(issue => issue.severity === 'warning')
+    ];
+    this.render();
+  }
+
+  private render() {
+    const panel = this.querySelector('.problems-panel');
+    const toggle = this.querySelector('.problems-toggle');
+    const list = this.querySelector('.problems-list');
+    if (!panel || !toggle || !list) return;
+
+    panel.classList.toggle('hidden', this.issues.length === 0);
+
+    const errorCount = this.issues.filter(issue => issue.severity === 'error').length;
+    const warningCount = this.issues.length - errorCount;
+    toggle.innerHTML = `
+      <span class="text-red-400">${errorCount} error${errorCount === 1 ? '' : 's'}</span>,
+      <span class="text-yellow-400">${warningCount} warning${warningCount === 1 ? '' : 's'}</span>
+      <span class="text-gray-400 ml-1">${this.expanded ? '▲' : '▼'}</span>
+    `;
+
+    list.classList.toggle('hidden', !this.expanded);
+    list.innerHTML = this.issues.map((issue, index) => `
+      <li class="problem-item flex gap-2 px-1 py-0.5 rounded cursor-pointer hover:bg-[#333333]" data-index="${index}" title="${issue.severity === 'error' ? 'Not shown in the chart' : 'Shown in the chart'}${issue.date ? ', click to show the day' : ''}">
+        <span class="${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}">${issue.severity === 'error' ? '✕' : '!'}</span>
+        <span class="text-gray-400 whitespace-nowrap">${issue.date ?? 'No date'}</span>
+        <span>${escapeHtml(issue.message)}</span>
+      </li>
+    `).join('');
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="problems-panel hidden bg-black bg-opacity-70 p-2 rounded text-white text-xs max-w-md">
+        <button type="button" class="problems-toggle font-bold w-full text-left" title="Problems found in the sleep log"></button>
+        <ul class="problems-list hidden mt-1 max-h-64 overflow-y-auto flex flex-col gap-0.5 border-t border-gray-600 pt-1"></ul>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('problems-panel', ProblemsPanel);
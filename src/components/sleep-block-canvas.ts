@@ -0,0 +1,285 @@
+/**
+ * Kind of a sleep block, which sets its fill and border
+ */
+export type SleepBlockKind = 'main' | 'nap' | 'predicted-main' | 'predicted-nap';
+
+/**
+ * A sleep block, positioned in percent of the plot area like the chart's other layers
+ */
+export interface SleepBlock {
+  left: number;         // Left edge (percent of the width)
+  top: number;          // Top edge (percent of the height)
+  width: number;        // Width (percent of the width)
+  height: number;       // Height (percent of the height)
+  kind: SleepBlockKind;
+  dimmed: boolean;      // Left out by the tag filter, drawn at 20% opacity
+}
+
+// Same colours as the blocks had as elements: white with a gray border, predicted entries dashed and unfilled
+const BLOCK_STYLES: Record<SleepBlockKind, { fill: string | null, stroke: string, dashed: boolean }> = {
+  'main': { fill: '#FFFFFF', stroke: '#444444', dashed: false },
+  'nap': { fill: '#FFFFFF', stroke: '#777777', dashed: false },
+  'predicted-main': { fill: null, stroke: '#FFFFFF', dashed: true },
+  'predicted-nap': { fill: null, stroke: '#99A1AF', dashed: true },
+};
+
+const BORDER_RADIUS = 4;     // Corner radius in CSS pixels (rounded-sm)
+const DIMMED_OPACITY = 0.2;  // Opacity of the blocks left out by the tag filter
+const HOVER_STROKE = '#FFFFFF';
+const FLASH_STROKE = '#FB2C36'; // Ring around a flashed block (red-500)
+const HIT_BUCKETS = 128;     // Vertical strips the blocks are indexed by for hit testing
+
+/**
+ * Draws the sleep blocks of the chart on a canvas instead of one element per block
+ * Only the blocks inside the viewport are drawn, and only when the blocks, the size or the visible part change. The
+ * hovered block is drawn on a second canvas on top, so hovering doesn't redraw the others. The element ignores the
+ * pointer itself: the chart finds the block under the pointer with blockAt.
+ */
+export class SleepBlockCanvas<T extends SleepBlock = SleepBlock> extends HTMLElement {
+  private blocks: T[] = []; // Blocks in drawing order, the last one is on top
+  private buckets: number[][] | null = null; // Indices of the blocks crossing each strip, built on the first hit test
+  private hovered: T | null = null; // Block drawn with the hover style
+  private flashed: T | null = null; // Block drawn with a red ring, see flash
+  private flashTimer: number | null = null; // Pending removal of the flash ring, cleared when disconnected
+  private frame: number | null = null; // Pending animation frame of a redraw
+  private clipped: boolean = false; // Whether the last draw left out blocks outside the viewport
+  private resizeObserver = new ResizeObserver(() => this.scheduleDraw());
+  private onViewportChange = () => {
+    if (this.clipped) this.scheduleDraw();
+  };
+
+  connectedCallback() {
+    if (!this.querySelector('canvas')) {
+      this.className = 'absolute inset-0 block pointer-events-none';
+      this.innerHTML = `
+        <canvas class="block-layer absolute inset-0 w-full h-full"></canvas>
+        <canvas class="hover-layer absolute inset-0 w-full h-full"></canvas>
+      `;
+    }
+
+    this.resizeObserver.observe(this);
+    window.addEventListener('scroll', this.onViewportChange, { passive: true, capture: true });
+    window.addEventListener('resize', this.onViewportChange);
+    this.scheduleDraw();
+  }
+
+  disconnectedCallback() {
+    this.resizeObserver.disconnect();
+    window.removeEventListener('scroll', this.onViewportChange, { capture: true });
+    window.removeEventListener('resize', this.onViewportChange);
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    if (this.flashTimer !== null) clearTimeout(this.flashTimer);
+    this.flashTimer = null;
+    this.flashed = null;
+  }
+
+  /**
+   * Replaces the blocks and redraws them on the next frame
+   * @param blocks Blocks in drawing order, later blocks are drawn over earlier ones
+   */
+  public setBlocks(blocks: T[]) {
+    this.blocks = blocks;
+    this.buckets = null;
+    if (this.hovered && !blocks.includes(this.hovered)) this.hovered = null;
+    if (this.flashed && !blocks.includes(this.flashed)) this.flashed = null;
+    this.scheduleDraw();
+  }
+
+  /**
+   * The blocks in drawing order
+   */
+  public getBlocks(): readonly T[] {
+    return this.blocks;
+  }
+
+  /**
+   * Finds the topmost block under a point
+   * @param clientX Horizontal position in the viewport (e.g. MouseEvent.clientX)
+   * @param clientY Vertical position in the viewport
+   * @returns The block, or null when the point is between blocks or outside the chart
+   */
+  public blockAt(clientX: number, clientY: number): T | null {
+    const rect = this.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+
+    const x = ((clientX - rect.left) / rect.width) * 100;
+    const y = ((clientY - rect.top) / rect.height) * 100;
+    if (x < 0 || x >= 100 || y < 0 || y >= 100) return null;
+
+    const bucket = this.getBuckets()[Math.min(HIT_BUCKETS - 1, Math.floor((x / 100) * HIT_BUCKETS))];
+    for (let i = bucket.length - 1; i >= 0; i--) {
+      const block = this.blocks[bucket[i]];
+      if (x >= block.left && x < block.left + block.width && y >= block.top && y < block.top + block.height) return block;
+    }
+    return null;
+  }
+
+  /**
+   * Draws a block with the hover style (white border and a shadow, over the other blocks)
+   * @param block The hovered block, null to clear
+   */
+  public setHovered(block: T | null) {
+    if (block === this.hovered) return;
+    this.hovered = block;
+    this.drawOverlay();
+  }
+
+  /**
+   * Rings a block in red for a moment, to point it out
+   * @param block The block to flash
+   * @param duration How long the ring stays, in milliseconds
+   */
+  public flash(block: T, duration: number = 2000) {
+    if (this.flashTimer !== null) clearTimeout(this.flashTimer);
+    this.flashed = block;
+    this.drawOverlay();
+    this.flashTimer = window.setTimeout(() => {
+      this.flashed = null;
+      this.flashTimer = null;
+      this.drawOverlay();
+    }, duration);
+  }
+
+  /**
+   * Indexes the blocks by the vertical strips they cross, so a hit test only looks at the blocks of one strip
+   */
+  private getBuckets(): number[][] {
+    if (this.buckets) return this.buckets;
+
+    const buckets: number[][] = Array.from({ length: HIT_BUCKETS }, () => []);
+    this.blocks.forEach((block, index) => {
+      const first = Math.max(0, Math.floor((block.left / 100) * HIT_BUCKETS));
+      const last = Math.min(HIT_BUCKETS - 1, Math.floor(((block.left + block.width) / 100) * HIT_BUCKETS));
+      for (let i = first; i <= last; i++) buckets[i].push(index);
+    });
+    this.buckets = buckets;
+    return buckets;
+  }
+
+  private scheduleDraw() {
+    if (this.frame !== null || !this.isConnected) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      this.draw();
+    });
+  }
+
+  /**
+   * Sizes a canvas for the element at the device pixel ratio
+   * @returns The context, scaled so drawing is in CSS pixels, or null when the element isn't laid out
+   */
+  private prepareCanvas(canvas: HTMLCanvasElement | null): CanvasRenderingContext2D | null {
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || this.clientWidth === 0 || this.clientHeight === 0) return null;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(this.clientWidth * ratio);
+    const height = Math.round(this.clientHeight * ratio);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, this.clientWidth, this.clientHeight);
+    return context;
+  }
+
+  /**
+   * Draws the blocks that are inside the viewport
+   */
+  private draw() {
+    const context = this.prepareCanvas(this.querySelector<HTMLCanvasElement>('.block-layer'));
+    if (!context) return;
+
+    // Part of the element inside the viewport, in CSS pixels from its top left corner
+    const rect = this.getBoundingClientRect();
+    const visible = {
+      left: Math.max(0, -rect.left),
+      top: Math.max(0, -rect.top),
+      right: Math.min(this.clientWidth, window.innerWidth - rect.left),
+      bottom: Math.min(this.clientHeight, window.innerHeight - rect.top)
+    };
+    this.clipped = visible.left > 0 || visible.top > 0 || visible.right < this.clientWidth || visible.bottom < this.clientHeight;
+
+    this.blocks.forEach(block => {
+      const box = this.toPixels(block);
+      if (box.x > visible.right || box.x + box.width < visible.left || box.y > visible.bottom || box.y + box.height < visible.top) return;
+      this.drawBlock(context, block, box, BLOCK_STYLES[block.kind].stroke);
+    });
+
+    this.drawOverlay();
+  }
+
+  /**
+   * Draws the hovered and the flashed block over the others
+   */
+  private drawOverlay() {
+    const context = this.prepareCanvas(this.querySelector<HTMLCanvasElement>('.hover-layer'));
+    if (!context) return;
+
+    if (this.flashed) {
+      const box = this.toPixels(this.flashed);
+      context.strokeStyle = FLASH_STROKE;
+      context.lineWidth = 2;
+      context.beginPath();
+      context.roundRect(box.x - 1, box.y - 1, box.width + 2, box.height + 2, BORDER_RADIUS + 1);
+      context.stroke();
+    }
+
+    if (this.hovered) {
+      // One shadow of shadow-lg, the canvas can't draw both
+      context.shadowColor = 'rgba(0, 0, 0, 0.1)';
+      context.shadowBlur = 15;
+      context.shadowOffsetY = 10;
+      this.drawBlock(context, this.hovered, this.toPixels(this.hovered), HOVER_STROKE);
+    }
+  }
+
+  /**
+   * Converts a block's position to CSS pixels, snapped to device pixels so the borders stay sharp
+   */
+  private toPixels(block: SleepBlock): { x: number, y: number, width: number, height: number } {
+    const ratio = window.devicePixelRatio || 1;
+    const snap = (value: number) => Math.round(value * ratio) / ratio;
+    const x = snap((block.left / 100) * this.clientWidth);
+    const y = snap((block.top / 100) * this.clientHeight);
+    return {
+      x,
+      y,
+      width: snap(((block.left + block.width) / 100) * this.clientWidth) - x,
+      height: snap(((block.top + block.height) / 100) * this.clientHeight) - y
+    };
+  }
+
+  /**
+   * Draws one block: its fill, then a 1px border inside its box
+   */
+  private drawBlock(context: CanvasRenderingContext2D, block: SleepBlock, box: { x: number, y: number, width: number, height: number }, stroke: string) {
+    const style = BLOCK_STYLES[block.kind];
+    const radius = Math.max(0, Math.min(BORDER_RADIUS, box.width / 2, box.height / 2));
+
+    context.save();
+    context.globalAlpha = block.dimmed ? DIMMED_OPACITY : 1;
+
+    if (style.fill) {
+      context.fillStyle = style.fill;
+      context.beginPath();
+      context.roundRect(box.x, box.y, box.width, box.height, radius);
+      context.fill();
+    }
+
+    context.strokeStyle = stroke;
+    context.lineWidth = 1;
+    context.setLineDash(style.dashed ? [3, 3] : []);
+    context.beginPath();
+    context.roundRect(box.x + 0.5, box.y + 0.5, Math.max(0, box.width - 1), Math.max(0, box.height - 1), Math.max(0, radius - 0.5));
+    context.stroke();
+
+    context.restore();
+  }
+}
+
+// Register the custom element
+customElements.define('sleep-block-canvas', SleepBlockCanvas);
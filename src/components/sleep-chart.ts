@@ -1,27 +1,146 @@
-// Define the interface for sleep data
-interface SleepRecord {
-  sleep: string;    // ISO datetime string for sleep start
-  wake: string;     // ISO datetime string for wake time
-  rating: number;   // Sleep quality rating (e.g., 1-5)
-  note: string;     // Optional notes about the sleep
+import type { SleepRecord, PredictedSleepRecord, PredictionRange } from '../types/sleep-record';
+import type { Intervention } from '../types/intervention';
+import type { SleepRecordForm, RecordSaveDetail, RecordDeleteDetail } from './sleep-record-form';
+import './sleep-record-form';
+import type { InterventionForm, InterventionSaveDetail, InterventionDeleteDetail } from './intervention-form';
+import './intervention-form';
+import type { CsvImportDialog, RecordsImportDetail } from './csv-import-dialog';
+import './csv-import-dialog';
+import type { ExportDialog } from './export-dialog';
+import './export-dialog';
+import type { TimezoneDialog } from './timezone-dialog';
+import './timezone-dialog';
+import type { ProblemsPanel } from './problems-panel';
+import './problems-panel';
+import type { SleepStatistics } from './sleep-statistics';
+import './sleep-statistics';
+import type { PeriodogramDialog } from './periodogram-dialog';
+import './periodogram-dialog';
+import type { EntrainmentPlanner, PlanRequestDetail } from './entrainment-planner';
+import './entrainment-planner';
+import type { SleepBlock, SleepBlockCanvas, SleepBlockKind } from './sleep-block-canvas';
+import './sleep-block-canvas';
+import type { MarkerLayer, PlacedMarker } from './marker-layer';
+import './marker-layer';
+import type { ExportOptions } from '../utils/export';
+import { buildExportRows, downloadFile, getExportInterventions, toCsv, toJson } from '../utils/export';
+import type { TimezoneColumn } from '../utils/timezones';
+import { formatTimeInZone, isValidTimeZone, loadTimezones, saveTimezones } from '../utils/timezones';
+import { escapeHtml } from '../utils/html';
+import type { ActogramLayout, ActogramSegment, DisplayMode, PlotOrientation } from '../utils/actogram';
+import { daysBetween, fillDateRange } from '../utils/dates';
+import { formatDays, formatDrift, formatFit, formatSleepAmount, formatTau } from '../utils/format';
+import type { ValidationIssue } from '../utils/validation';
+import { validateSleepLog } from '../utils/validation';
+import { CYCLE_START_CT, DISPLAY_MODES, DOUBLE_PLOT_SPAN, PLOT_ORIENTATIONS, findOverlappingRows, findRowIndex, getActogramRowStarts, getActogramSegment, getCycleRowStarts, getSleepDay } from '../utils/actogram';
+import type { SleepStore } from '../data/sleep-store';
+import { openSleepStore, getRecordKey, sortRecords } from '../data/sleep-store';
+import { createRecordId } from '../data/schema';
+import type { TagFilterMode } from '../utils/tags';
+import { collectTags, getRecordTags, getTagColor } from '../utils/tags';
+import { INTERVENTION_TYPES, describeIntervention, getInterventionTypeInfo, sortInterventions } from '../utils/interventions';
+import { getTimesToNextSleep, summarizeInterventionTiming } from '../analytics/intervention-timing';
+import type { EntrainmentPlan } from '../analytics/entrainment';
+import type { TargetWindow } from '../analytics/alignment';
+import { computePeriodogram, computeSlidingPeriodogram } from '../analytics/periodogram';
+import type { RecoveryPeriod, SleepDebtDay } from '../analytics/sleep-debt';
+import { computeSleepDebt, findRecoveryPeriods, getDailySleepTotals } from '../analytics/sleep-debt';
+import { ALIGNMENT_TOLERANCE, forecastAlignment, getTargetDeviation, getTargetWindowLength } from '../analytics/alignment';
+import { DEFAULT_TARGET_WINDOW, formatTimeOfDay, loadTargetSchedule, parseTimeOfDay, saveTargetSchedule } from '../utils/target-schedule';
+import { planEntrainment } from '../analytics/entrainment';
+import type { EpisodeKind, SleepEpisode } from '../analytics/regularity';
+import { computeRegularity, detectEpisodes } from '../analytics/regularity';
+import type { SleepClassificationOptions, SleepPeriod } from '../analytics/sleep-periods';
+import { DEFAULT_SLEEP_CLASSIFICATION, getMainSleepRecords, groupSleepPeriods } from '../analytics/sleep-periods';
+import type { AnalysisOptions, CycleModel } from '../analytics/sleep-analysis';
+import { calculateEntryDrift, generatePredictions, getCycleModel, getMainSleepEntries, getVisibleRecords, summarizeNon24, summarizePeriods } from '../analytics/sleep-analysis';
+
+/**
+ * Part of the chart that is re-rendered on its own, see requestRender
+ */
+type RenderPart = 'y-axis' | 'blocks' | 'trend-lines' | 'x-axis' | 'info';
+
+// Elements drawn over the sleep blocks that take the pointer (the debt overlay only through its dots)
+const BLOCK_OVERLAY_SELECTOR = '.intervention-marker, .planned-sleep, .planned-intervention, .sleep-debt-overlay *';
+
+/**
+ * A sleep block of the chart: where it is drawn, and the entry it shows for the hover highlights, tooltip and editing
+ */
+interface ChartBlock extends SleepBlock {
+  record: SleepRecord | PredictedSleepRecord;
+  recordIndex: number | null;            // Index into sleepData, null for predicted entries
+  isMainSleep: boolean;
+  previousMainSleep: SleepRecord | null; // Main sleep of the previous day, for the drift in the tooltip
+  rowStart: number | null;               // Start of the block's row (epoch milliseconds), null in the standard view
+  rowSpan: number | null;                // Time covered by the row in milliseconds, null in the standard view
 }
 
-interface PredictedSleepRecord extends SleepRecord {
-  isPredicted: boolean; // Flag to indicate this is a predicted entry
+/**
+ * Day columns of the standard view, and the entries every view lays out
+ */
+interface DayColumns {
+  visibleData: SleepRecord[];          // Visible real entries (the start of combinedData)
+  combinedData: SleepRecord[];         // Visible real entries followed by the predicted ones
+  recordIndexOffset: number;           // Offset between combinedData indices and sleepData indices
+  entriesByDay: Map<string, number[]>; // Indices (into combinedData) of the entries of each day
+  dates: string[];                     // Day of each column, sorted (YYYY-MM-DD)
+  dayIndices: Map<string, number>;     // Column of each day
+}
+
+/**
+ * Part of a trend line, in percent of the chart
+ */
+interface TrendSegment {
+  start: { x: number, y: number };
+  end: { x: number, y: number };
+  dashed: boolean; // Across days (or cycles) without data
+}
+
+/**
+ * Trend lines of a view: the lines and the likely ranges as SVG, the dots for a MarkerLayer
+ */
+interface TrendLines {
+  svg: string;
+  dots: PlacedMarker[];
 }
 
 export class SleepChart extends HTMLElement {
-  private sleepData: SleepRecord[] = [];
+  private sleepData: SleepRecord[] = []; // Plottable records, sorted by sleep start
+  private invalidRecords: SleepRecord[] = []; // Records left out of the chart because of validation errors
+  private interventions: Intervention[] = []; // Logged interventions (melatonin, light, medication), sorted by time
+  private problemsPanel: ProblemsPanel | null = null; // Lists the problems found in the log
+  private statisticsPanel: SleepStatistics | null = null; // Weekly and monthly aggregates of the visible entries
+  private store: SleepStore | null = null; // Persistent storage, opened in loadData
   private dayStartHour: number = 17; // Default to 17:00
   private maxEntries: number = 90; // Default to 0 (show all entries)
   private showPredictions: boolean = true; // Whether to show predicted entries
   private predictionDays: number = 30; // Number of days to predict
   private averagingDays: number = 14; // Number of past days to use for averaging
+  private timezones: TimezoneColumn[] = loadTimezones(); // Timezone columns shown on the Y-axis
+  private displayMode: DisplayMode = 'standard'; // 24h columns, double-plotted 48h rows or one row per cycle
+  private plotOrientation: PlotOrientation = 'vertical'; // Direction of the rows in the double-plotted and natural-cycle views
+  private manualCycleLength: number | null = null; // Cycle length (ms) of the natural-cycle view entered by hand, null = estimated
+  private continuousDays: boolean = false; // Whether days (or cycles) without entries keep their column
+  private tagFilter: string | null = null; // Entries with this tag stand out, null = no filter
+  private tagFilterMode: TagFilterMode = 'dim'; // Whether the entries without the tag are dimmed or hidden
 
   // Visibility toggles for different chart elements
   private showSleepTrendLines: boolean = false; // Whether to show sleep trend lines
   private showWakeTrendLines: boolean = false; // Whether to show wake trend lines
   private showSleepBlocks: boolean = true; // Whether to show sleep blocks
+  private showInterventions: boolean = true; // Whether to show the interventions
+  private showSleepDebt: boolean = false; // Whether to show the sleep debt curve and the recovery periods
+  private sleepNeed: number = 8 * 60 * 60 * 1000; // Sleep needed per day (ms), the debt builds up below it
+  private debtWindowDays: number = 14; // Number of days the sleep debt is added up over
+  private sleepClassification: SleepClassificationOptions = { ...DEFAULT_SLEEP_CLASSIFICATION }; // Merging of interrupted sleeps and nap thresholds
+  private showEpisodes: boolean = true; // Whether to shade the free-running, entrained and irregular episodes
+  private targetSchedule: TargetWindow | null = loadTargetSchedule(); // Desired sleep window drawn as a band, null = off
+  private entrainmentRequest: PlanRequestDetail | null = null; // Target of the entrainment plan shown over the predictions, null = no plan
+  private pendingRender: Set<RenderPart> = new Set(); // Parts of the chart to render on the next frame, see requestRender
+  private renderFrame: number | null = null; // Animation frame of the pending render
+  private renderCache: Map<string, unknown> | null = null; // Data shared by the parts rendered together, null outside a render
+  private blockCanvas: SleepBlockCanvas<ChartBlock> | null = null; // Canvas the sleep blocks are drawn on, kept across renders
+  private hoveredBlock: ChartBlock | null = null; // Block under the pointer, null = none
 
   constructor() {
     super();
@@ -39,182 +158,147 @@ export class SleepChart extends HTMLElement {
     // Add prediction controls
     this.addPredictionControls();
 
-    // Load data when the component is added to the DOM
-    // Do this last so we can update the UI with the correct values
-    await this.loadData();
-  }
-
-  /**
-   * Updates the non-24 info box with drift calculations
-   */
-  private updateNon24Info() {
-    const infoBox = this.querySelector('.non24-info');
-    if (!infoBox || this.sleepData.length < 2) {
-      return;
-    }
-
-    // Get all main sleep entries
-    const allMainSleepEntries = this.getMainSleepEntries(this.sleepData);
+    // Add the form for creating and editing entries
+    this.addRecordForm();
 
-    // Calculate drift for all entries
-    const allDriftData = this.calculateDrift(allMainSleepEntries);
+    // Add the form for logging interventions
+    this.addInterventionForm();
 
-    // Calculate drift for displayed entries
-    const displayedData = this.maxEntries > 0 && this.sleepData.length > this.maxEntries
-      ? this.sleepData.slice(-this.maxEntries)
-      : this.sleepData;
-    const displayedMainSleepEntries = this.getMainSleepEntries(displayedData);
-    const displayedDriftData = this.calculateDrift(displayedMainSleepEntries);
+    // Add the entrainment planner
+    this.addEntrainmentPlanner();
 
-    // Format time values for display (weeks and days)
-    const formatDays = (days: number) => {
-      if (days === 0) return 'N/A';
-      if (days === 1) return '1 day';
+    // Add the CSV import dialog
+    this.addImportDialog();
 
-      const weeks = Math.floor(days / 7);
-      const remainingDays = days % 7;
+    // Add the export dialog
+    this.addExportDialog();
 
-      if (weeks === 0) return `${days} days`;
-      if (remainingDays === 0) return `${weeks}w`;
-      return `${weeks}w ${remainingDays}d`;
-    };
+    // Add the periodogram dialog
+    this.addPeriodogramDialog();
 
-    // We'll use our formatDrift method to format the drift values
+    // Add the panel listing the problems found in the log
+    this.addProblemsPanel();
 
-    // Calculate total drift from 24h day
-    const totalDrift = allDriftData.sleepDrift;
-    const totalDriftFormatted = this.formatDrift(totalDrift);
+    // Add the weekly and monthly statistics
+    this.addStatisticsPanel();
 
-    // Calculate visualized drift (based on displayed entries)
-    const visualizedDrift = displayedDriftData.sleepDrift;
-    const visualizedDriftFormatted = this.formatDrift(visualizedDrift);
+    // Add the timezone configuration dialog and size the Y-axis for the configured columns
+    this.addTimezoneDialog();
+    this.requestRender('y-axis');
 
-    // Calculate cycle length (days to complete a full loop back to the same time)
-    // This is calculated as 24h / (drift per day)
-    const HOURS_IN_DAY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+    // Load data when the component is added to the DOM
+    // Do this last so we can update the UI with the correct values
+    await this.loadData();
+  }
 
-    // Get the drift amount in milliseconds (ignoring the 24h part)
-    // We need to handle the case where drift might be > 24h or < -24h
-    const driftPerDay = totalDrift % HOURS_IN_DAY;
-    const adjustedDrift = driftPerDay === 0 ? totalDrift : driftPerDay;
-
-    // Calculate how many days it takes to complete a full 24h cycle
-    // If drift is 0, then it's exactly 24h (1 day)
-    // If drift is very small, it could be a very large number of days
-    let cycleDays;
-    if (Math.abs(adjustedDrift) < 60000) { // Less than 1 minute drift
-      cycleDays = 0; // Effectively no drift
-    } else {
-      cycleDays = Math.abs(Math.round(HOURS_IN_DAY / adjustedDrift));
+  /**
+   * Renders parts of the chart on the next frame
+   * Parts requested together, or again before the frame, are rendered once. The blocks render the trend lines too.
+   */
+  private requestRender(...parts: RenderPart[]) {
+    parts.forEach(part => this.pendingRender.add(part));
+    if (this.renderFrame === null) {
+      this.renderFrame = requestAnimationFrame(() => this.flushRender());
     }
+  }
 
-    const cycleDaysFormatted = formatDays(cycleDays);
-
-    // Calculate average sleep per day
-    // Group all entries by date (including naps)
-    const entriesByDay = new Map<string, SleepRecord[]>();
-
-    // Process all sleep data
-    this.sleepData.forEach(record => {
-      const sleepTime = new Date(record.sleep);
-      const dateStr = sleepTime.toISOString().split('T')[0];
-
-      if (!entriesByDay.has(dateStr)) {
-        entriesByDay.set(dateStr, []);
-      }
-      entriesByDay.get(dateStr)?.push(record);
-    });
-
-    // Calculate total sleep time for each day
-    let totalSleepTimeAllDays = 0;
-    let dayCount = 0;
-
-    entriesByDay.forEach((entries) => {
-      let totalSleepTimeForDay = 0;
-
-      // Calculate total sleep time for this day (including naps)
-      entries.forEach(entry => {
-        const sleepTime = new Date(entry.sleep).getTime();
-        const wakeTime = new Date(entry.wake).getTime();
-        const sleepDuration = wakeTime - sleepTime;
-
-        // Add to the total for this day
-        totalSleepTimeForDay += sleepDuration;
-      });
-
-      // Add to the overall total
-      totalSleepTimeAllDays += totalSleepTimeForDay;
-      dayCount++;
-    });
-
-    // Calculate average sleep per day (all data)
-    const avgSleepPerDayMs = totalSleepTimeAllDays / dayCount;
-    const avgSleepPerDayHours = avgSleepPerDayMs / (1000 * 60 * 60);
-    const avgSleepPerDayFormatted = `${Math.floor(avgSleepPerDayHours)}h ${Math.round((avgSleepPerDayHours % 1) * 60)}m`;
-
-    console.log('Total sleep calculation:', {
-      totalSleepTimeAllDays,
-      dayCount,
-      avgSleepPerDayMs,
-      avgSleepPerDayHours,
-      avgSleepPerDayFormatted
-    });
-
-    // Calculate average sleep per day for visible data
-    const visibleData = this.maxEntries > 0 && this.sleepData.length > this.maxEntries
-      ? this.sleepData.slice(-this.maxEntries)
-      : this.sleepData;
-
-    // Group visible entries by date
-    const visibleEntriesByDay = new Map<string, SleepRecord[]>();
-
-    visibleData.forEach(record => {
-      const sleepTime = new Date(record.sleep);
-      const dateStr = sleepTime.toISOString().split('T')[0];
-
-      if (!visibleEntriesByDay.has(dateStr)) {
-        visibleEntriesByDay.set(dateStr, []);
-      }
-      visibleEntriesByDay.get(dateStr)?.push(record);
-    });
-
-    // Calculate total sleep time for visible data
-    let totalSleepTimeVisibleDays = 0;
-    let visibleDayCount = 0;
+  /**
+   * Renders the requested parts right away, for code that needs the chart up to date
+   */
+  private flushRender() {
+    if (this.renderFrame !== null) cancelAnimationFrame(this.renderFrame);
+    this.renderFrame = null;
 
-    visibleEntriesByDay.forEach((entries) => {
-      let totalSleepTimeForDay = 0;
+    const parts = this.pendingRender;
+    this.pendingRender = new Set();
+    if (parts.size === 0) return;
 
-      // Calculate total sleep time for this day (including naps)
-      entries.forEach(entry => {
-        const sleepTime = new Date(entry.sleep).getTime();
-        const wakeTime = new Date(entry.wake).getTime();
-        const sleepDuration = wakeTime - sleepTime;
+    // The predictions, the cycle model, the day columns and the rows are computed once for all the parts
+    this.renderCache = new Map();
+    try {
+      if (parts.has('y-axis')) this.renderYAxis();
+      if (parts.has('blocks')) this.renderSleepBlocks();
+      else if (parts.has('trend-lines')) this.renderTrendLines();
+      if (parts.has('x-axis')) this.renderXAxis();
+      if (parts.has('info')) this.updateNon24Info();
+    } finally {
+      this.renderCache = null;
+    }
+  }
 
-        // Add to the total for this day
-        totalSleepTimeForDay += sleepDuration;
-      });
+  /**
+   * Computes data once per render, the parts rendered together share it
+   * Outside a render the data is computed on every call, so it is never stale.
+   * @param key Name of the data
+   * @param compute Computes the data
+   */
+  private cached<T>(key: string, compute: () => T): T {
+    if (!this.renderCache) return compute();
+    if (!this.renderCache.has(key)) this.renderCache.set(key, compute());
+    return this.renderCache.get(key) as T;
+  }
 
-      // Add to the visible total
-      totalSleepTimeVisibleDays += totalSleepTimeForDay;
-      visibleDayCount++;
-    });
+  /**
+   * Updates the non-24 info box with drift calculations
+   */
+  private updateNon24Info() {
+    // The statistics cover the same visible entries as the info box
+    this.updateStatistics();
 
-    // Calculate average sleep per day (visible data)
-    const avgSleepPerDayVisibleMs = totalSleepTimeVisibleDays / visibleDayCount;
-    const avgSleepPerDayVisibleHours = avgSleepPerDayVisibleMs / (1000 * 60 * 60);
-    const avgSleepPerDayVisibleFormatted = `${Math.floor(avgSleepPerDayVisibleHours)}h ${Math.round((avgSleepPerDayVisibleHours % 1) * 60)}m`;
+    const infoBox = this.querySelector('.non24-info');
+    if (!infoBox || this.sleepData.length < 2) {
+      return;
+    }
 
-    console.log('Visible sleep calculation:', {
-      totalSleepTimeVisibleDays,
-      visibleDayCount,
-      avgSleepPerDayVisibleMs,
-      avgSleepPerDayVisibleHours,
-      avgSleepPerDayVisibleFormatted,
-      maxEntries: this.maxEntries,
-      totalEntries: this.sleepData.length,
-      visibleEntries: visibleData.length
-    });
+    // Drift over the whole log and over the displayed entries, cycle length and average sleep per day
+    const non24 = summarizeNon24(this.sleepData, this.getAnalysisOptions());
+    const allDriftData = non24.total;
+
+    // Drift from the 24h day, over all entries and over the displayed ones
+    const totalDriftFormatted = formatDrift(allDriftData.sleepDrift);
+    const visualizedDriftFormatted = formatDrift(non24.visible.sleepDrift);
+
+    // Days to complete a full loop back to the same time
+    const cycleDaysFormatted = formatDays(non24.cycleDays);
+
+    // Estimated period (tau) with its 95% confidence interval, and how well it fits
+    const tauFormatted = formatTau(allDriftData.sleepEstimate);
+    const midpointTauFormatted = formatTau(allDriftData.midpointEstimate);
+    const { fit: fitFormatted, details: fitDetails } = formatFit(allDriftData.sleepEstimate);
+
+    // Length of a row of the natural-cycle view (the predictions use the estimated one)
+    const cycleViewMinutes = Math.round(this.getNaturalCycleLength() / (60 * 1000));
+    const cycleViewFormatted = `${Math.floor(cycleViewMinutes / 60)}h ${cycleViewMinutes % 60}m (${this.manualCycleLength === null ? 'estimated' : 'manual'})`;
+
+    // Average sleep per day with entries (naps included), over all data and over the visible data
+    const avgSleepPerDayFormatted = formatSleepAmount(non24.avgSleepPerDay);
+    const avgSleepPerDayVisibleFormatted = formatSleepAmount(non24.visibleAvgSleepPerDay);
+
+    // Timing of each type of intervention relative to the next sleep onset
+    const interventionTimingRows = summarizeInterventionTiming(this.interventions, this.sleepData).map(summary => `
+        <div>${getInterventionTypeInfo(summary.type).label}:</div>
+        <div title="${summary.count} followed by a sleep within 24h, SD ${this.formatDuration(summary.sdBefore)}">${this.formatDuration(summary.meanBefore)} before onset</div>
+    `).join('');
+
+    const targetRows = this.formatAlignmentForecast();
+
+    // The log split into episodes, so a past free-run doesn't hide that the sleep is entrained now (and vice versa)
+    const episodes = this.getEpisodes();
+    const currentEpisode = episodes[episodes.length - 1];
+    const formatEpisodeDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    const episodeList = episodes.map(episode =>
+      `${formatEpisodeDate(episode.start)}–${formatEpisodeDate(episode.lastOnset)}: ${this.formatEpisode(episode)} (${episode.days} days)`
+    ).join('\n');
+    const regularity = computeRegularity(this.sleepData);
+
+    // Sleep debt at the end of the log, and the last time it was paid back
+    const sleepDebt = this.getSleepDebt();
+    const currentDebt = sleepDebt.days[sleepDebt.days.length - 1];
+    const lastRecovery = sleepDebt.recoveries[sleepDebt.recoveries.length - 1];
+    const formatDate = (date: string) => new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    const lastRecoveryFormatted = lastRecovery
+      ? `${formatDate(lastRecovery.start)}–${formatDate(lastRecovery.end)} (${this.formatDuration(lastRecovery.recovered)})`
+      : 'None';
 
     // Update the info box content
     infoBox.innerHTML = `
@@ -223,6 +307,21 @@ export class SleepChart extends HTMLElement {
         <div>Cycle length:</div>
         <div>${cycleDaysFormatted}</div>
 
+        <div class="flex items-center">
+          <span>Tau: Onset</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="Period estimated by a regression over the sleep onset times, with its 95% confidence interval">[?]</span>
+        </div>
+        <div>${tauFormatted}</div>
+
+        <div>Tau: Midpoint</div>
+        <div>${midpointTauFormatted}</div>
+
+        <div class="flex items-center">
+          <span>Fit:</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="How well a constant drift explains the sleep onset times (1 = perfectly)">[?]</span>
+        </div>
+        <div title="${fitDetails}">${fitFormatted}</div>
+
         <div>Drift: Total</div>
         <div>${totalDriftFormatted}</div>
 
@@ -232,6 +331,39 @@ export class SleepChart extends HTMLElement {
         </div>
         <div>${visualizedDriftFormatted}</div>
 
+        ${this.displayMode === 'natural-cycle' ? `
+        <div class="flex items-center">
+          <span>Cycle view:</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="Length of one column of the natural-cycle view. The estimated length is 24h plus the visible drift, the same cycle as the predictions">[?]</span>
+        </div>
+        <div>${cycleViewFormatted}</div>
+        ` : ''}
+
+        <div class="col-span-2 border-t border-gray-700 my-1"></div>
+
+        <div class="flex items-center">
+          <span>Episode:</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="Current stretch of the log, split where the drift of the sleep onsets changes. Hover the value for all ${episodes.length} episodes">[?]</span>
+        </div>
+        <div title="${episodeList}">${currentEpisode ? this.formatEpisode(currentEpisode) : 'N/A'}</div>
+
+        ${currentEpisode ? `
+        <div>Episode since:</div>
+        <div>${formatEpisodeDate(currentEpisode.start)} (${currentEpisode.days} days)</div>
+        ` : ''}
+
+        <div class="flex items-center">
+          <span>Regularity:</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="Sleep Regularity Index: chance of being asleep or awake at the same time 24h later, from -100 to 100 (100 = the same every day)">[?]</span>
+        </div>
+        <div>${regularity.sri === null ? 'N/A' : `SRI ${Math.round(regularity.sri)}`}</div>
+
+        <div class="flex items-center">
+          <span>Stability:</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="Interdaily stability: how much of the sleep/wake pattern follows the clock hour, from 0 to 1 (free-running sleep scores close to 0)">[?]</span>
+        </div>
+        <div>${regularity.interdailyStability === null ? 'N/A' : `IS ${regularity.interdailyStability.toFixed(2)}`}</div>
+
         <div class="col-span-2 border-t border-gray-700 my-1"></div>
 
         <div>Sleep: Total</div>
@@ -242,6 +374,28 @@ export class SleepChart extends HTMLElement {
           <span class="ml-1 text-xs text-gray-400 cursor-help" title="Average sleep calculated from currently displayed entries only">[?]</span>
         </div>
         <div>${avgSleepPerDayVisibleFormatted}</div>
+
+        <div class="flex items-center">
+          <span>Sleep debt:</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="Sleep need (${this.formatDuration(this.sleepNeed)} per day) minus the sleep of the last ${this.debtWindowDays} days, naps included. Negative is a surplus">[?]</span>
+        </div>
+        <div>${currentDebt ? this.formatDebt(currentDebt.balance) : 'N/A'}</div>
+
+        <div class="flex items-center">
+          <span>Last recovery:</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="Last period where at least 2h of debt was paid back (${sleepDebt.recoveries.length} in the log)">[?]</span>
+        </div>
+        <div>${lastRecoveryFormatted}</div>
+
+        ${targetRows ? `
+        <div class="col-span-2 border-t border-gray-700 my-1"></div>
+        ${targetRows}
+        ` : ''}
+
+        ${interventionTimingRows ? `
+        <div class="col-span-2 border-t border-gray-700 my-1"></div>
+        ${interventionTimingRows}
+        ` : ''}
       </div>
     `;
   }
@@ -259,12 +413,11 @@ export class SleepChart extends HTMLElement {
     // Update the property
     this.dayStartHour = hour;
 
+    // The problems are dated by sleep day too
+    this.applyValidation();
+
     // Re-render the chart components
-    this.renderYAxis();
-    this.renderSleepBlocks();
-    this.renderXAxis();
-    this.renderTrendLines();
-    this.updateNon24Info();
+    this.requestRender('y-axis', 'blocks', 'x-axis', 'info');
   }
 
   /**
@@ -282,10 +435,179 @@ export class SleepChart extends HTMLElement {
     this.maxEntries = count;
 
     // Re-render the chart components
-    this.renderSleepBlocks();
-    this.renderXAxis();
-    this.renderTrendLines();
-    this.updateNon24Info();
+    this.requestRender('blocks', 'x-axis', 'info');
+  }
+
+  /**
+   * Sets how the days are laid out and updates the chart
+   * @param mode 'standard' for 24h columns, 'double-plot' for 48h rows showing day N and day N+1,
+   *             'natural-cycle' for one row per circadian cycle
+   */
+  public setDisplayMode(mode: DisplayMode) {
+    // Validate input
+    if (!DISPLAY_MODES.includes(mode)) {
+      console.error(`Display mode must be one of: ${DISPLAY_MODES.join(', ')}`);
+      return;
+    }
+
+    this.displayMode = mode;
+
+    // Re-render the chart components
+    this.requestRender('y-axis', 'blocks', 'x-axis', 'info');
+  }
+
+  /**
+   * Sets the direction of the rows in the double-plotted and natural-cycle views and updates the chart
+   * @param orientation 'vertical' for one column per day, 'horizontal' for one row per day
+   */
+  public setPlotOrientation(orientation: PlotOrientation) {
+    // Validate input
+    if (!PLOT_ORIENTATIONS.includes(orientation)) {
+      console.error(`Plot orientation must be one of: ${PLOT_ORIENTATIONS.join(', ')}`);
+      return;
+    }
+
+    this.plotOrientation = orientation;
+
+    // The standard view doesn't depend on the orientation
+    if (this.displayMode !== 'standard') {
+      this.requestRender('y-axis', 'blocks', 'x-axis');
+    }
+  }
+
+  /**
+   * Sets the cycle length of the natural-cycle view and updates the chart
+   * The predictions keep using the estimated cycle, so a hand-entered value only changes the layout
+   * @param hours Cycle length in hours (20-30), or null to use the estimated cycle
+   */
+  public setCycleLength(hours: number | null) {
+    // Validate input
+    if (hours !== null && (!Number.isFinite(hours) || hours < 20 || hours > 30)) {
+      console.error('Cycle length must be between 20 and 30 hours');
+      return;
+    }
+
+    this.manualCycleLength = hours === null ? null : hours * 60 * 60 * 1000;
+
+    if (this.displayMode === 'natural-cycle') {
+      this.requestRender('y-axis', 'blocks', 'x-axis', 'info');
+    }
+  }
+
+  /**
+   * Sets whether every day in the range gets a column, or only the days with entries
+   * @param continuous Whether days (or cycles) without entries keep their column, marked as "no data"
+   */
+  public setContinuousDays(continuous: boolean) {
+    this.continuousDays = continuous;
+
+    // Re-render the chart components
+    this.requestRender('y-axis', 'blocks', 'x-axis');
+  }
+
+  /**
+   * Sets the desired sleep window, drawn as a band and compared with each day and with the forecast
+   * @param target The target window, or null to turn the target schedule off
+   */
+  public setTargetSchedule(target: TargetWindow | null) {
+    this.targetSchedule = target;
+    saveTargetSchedule(target);
+
+    // Re-render the chart components
+    this.requestRender('blocks', 'x-axis', 'info');
+  }
+
+  /**
+   * Sets the tag the entries are filtered by
+   * @param tag Tag to filter by, null to show every entry normally
+   */
+  public setTagFilter(tag: string | null) {
+    this.tagFilter = tag;
+
+    // Re-render the chart components
+    this.requestRender('blocks', 'x-axis');
+  }
+
+  /**
+   * Sets what the tag filter does with the entries that don't have the tag
+   * @param mode Dim them, or hide them
+   */
+  public setTagFilterMode(mode: TagFilterMode) {
+    this.tagFilterMode = mode;
+
+    // Re-render the chart components
+    this.requestRender('blocks');
+  }
+
+  /**
+   * Whether an entry passes the tag filter (predicted entries have no tags and are never filtered)
+   */
+  private matchesTagFilter(record: SleepRecord | PredictedSleepRecord): boolean {
+    if (this.tagFilter === null || ('isPredicted' in record && record.isPredicted)) return true;
+    return getRecordTags(record).includes(this.tagFilter);
+  }
+
+  /**
+   * Fills the tag filter with the tags used in the log
+   * The filter is cleared when its tag is no longer used
+   */
+  private updateTagFilterOptions() {
+    const select = this.querySelector('#tag-filter') as HTMLSelectElement | null;
+    const modeSelect = this.querySelector('#tag-filter-mode') as HTMLSelectElement | null;
+    const tags = collectTags(this.sleepData);
+    if (this.tagFilter !== null && !tags.includes(this.tagFilter)) this.tagFilter = null;
+    if (!select || !modeSelect) return;
+
+    select.innerHTML = '<option value="">All</option>';
+    tags.forEach(tag => {
+      const option = document.createElement('option');
+      option.value = tag;
+      option.textContent = tag;
+      option.selected = tag === this.tagFilter;
+      select.appendChild(option);
+    });
+    select.disabled = tags.length === 0;
+    modeSelect.disabled = this.tagFilter === null;
+  }
+
+  /**
+   * Creates the markers of the tags used by a day's (or cycle's) entries, the caller positions them
+   * Tags other than the filtered one are faded
+   * @param records Real entries of the day
+   * @returns The markers, or null when the entries have no tags
+   */
+  private createTagMarkers(records: SleepRecord[]): HTMLElement | null {
+    const tags = collectTags(records);
+    if (tags.length === 0) return null;
+
+    const markers = document.createElement('div');
+    markers.className = 'tag-markers absolute flex gap-px transform';
+    markers.title = tags.join(', ');
+
+    tags.forEach(tag => {
+      const dot = document.createElement('span');
+      dot.className = 'w-1 h-1 rounded-full';
+      dot.style.backgroundColor = getTagColor(tag);
+      if (this.tagFilter !== null && tag !== this.tagFilter) dot.classList.add('opacity-30');
+      markers.appendChild(dot);
+    });
+    return markers;
+  }
+
+  /**
+   * Creates the strip showing how far a day's main sleep is from the target, the caller positions it
+   * Green within the alignment tolerance, yellow within 3 hours, red beyond
+   */
+  private createTargetDeviationMarker(record: SleepRecord): HTMLElement {
+    const deviation = getTargetDeviation(new Date(record.sleep).getTime(), new Date(record.wake).getTime(), this.targetSchedule as TargetWindow);
+    const distance = Math.abs(deviation.sleep);
+    const color = distance <= ALIGNMENT_TOLERANCE ? '#22C55E' : distance <= 3 * 60 * 60 * 1000 ? '#EAB308' : '#DC2626';
+
+    const marker = document.createElement('div');
+    marker.className = 'target-deviation absolute top-0 h-0.5 px-px bg-clip-content';
+    marker.style.backgroundColor = color;
+    marker.title = `Target deviation: sleep ${formatDrift(deviation.sleep)}, wake ${formatDrift(deviation.wake)}`;
+    return marker;
   }
 
   /**
@@ -296,10 +618,7 @@ export class SleepChart extends HTMLElement {
     this.showPredictions = show;
 
     // Re-render the chart components
-    this.renderSleepBlocks();
-    this.renderXAxis();
-    this.renderTrendLines();
-    this.updateNon24Info();
+    this.requestRender('blocks', 'x-axis', 'info');
   }
 
   /**
@@ -310,7 +629,7 @@ export class SleepChart extends HTMLElement {
     this.showSleepTrendLines = show;
 
     // Re-render trend lines with the new setting
-    this.renderTrendLines();
+    this.requestRender('trend-lines');
   }
 
   /**
@@ -321,7 +640,7 @@ export class SleepChart extends HTMLElement {
     this.showWakeTrendLines = show;
 
     // Re-render trend lines with the new setting
-    this.renderTrendLines();
+    this.requestRender('trend-lines');
   }
 
   /**
@@ -331,17 +650,21 @@ export class SleepChart extends HTMLElement {
   public setShowSleepBlocks(show: boolean) {
     this.showSleepBlocks = show;
 
-    // Get the sleep blocks container
-    const sleepBlocksContainer = this.querySelector('.sleep-blocks');
-    if (!sleepBlocksContainer) return;
-
-    // Clear existing content
-    sleepBlocksContainer.innerHTML = '';
-
     // Render sleep blocks (which will also render trend lines)
-    this.renderSleepBlocks();
+    this.requestRender('blocks');
+  }
+  /**
+   * Sets whether to show the interventions
+   * @param show Whether to show the intervention markers
+   */
+  public setShowInterventions(show: boolean) {
+    this.showInterventions = show;
+
+    // Re-render the chart components
+    this.requestRender('blocks');
   }
 
+
   /**
    * Sets the number of days to predict
    * @param days Number of days to predict
@@ -357,10 +680,7 @@ export class SleepChart extends HTMLElement {
 
     // Re-render if predictions are shown
     if (this.showPredictions) {
-      this.renderSleepBlocks();
-      this.renderXAxis();
-      this.renderTrendLines();
-      this.updateNon24Info();
+      this.requestRender('blocks', 'x-axis', 'info');
     }
   }
 
@@ -379,279 +699,226 @@ export class SleepChart extends HTMLElement {
 
     // Re-render if predictions are shown
     if (this.showPredictions) {
-      this.renderSleepBlocks();
-      this.renderXAxis();
-      this.renderTrendLines();
-      this.updateNon24Info();
+      this.requestRender('blocks', 'x-axis', 'info');
     }
   }
 
   /**
-   * Generates predicted sleep entries based on past data
-   * @returns Array of predicted sleep entries
+   * Sets whether to show the sleep debt curve and the recovery periods
+   * @param show Whether to show the sleep debt
    */
-  private generatePredictions(): PredictedSleepRecord[] {
-    if (this.sleepData.length === 0 || !this.showPredictions || this.predictionDays === 0) {
-      return [];
-    }
+  public setShowSleepDebt(show: boolean) {
+    this.showSleepDebt = show;
+    this.requestRender('blocks');
+  }
 
-    // Get the main sleep entries (one per day) from the past
-    const mainSleepEntries = this.getMainSleepEntries(this.sleepData);
+  /**
+   * Sets whether to shade the episodes of the log
+   * @param show Whether to show the episodes
+   */
+  public setShowEpisodes(show: boolean) {
+    this.showEpisodes = show;
+    this.requestRender('blocks');
+  }
 
-    if (mainSleepEntries.length === 0) {
-      return [];
+  /**
+   * Sets the sleep needed per day
+   * @param hours Sleep need in hours, naps included
+   */
+  public setSleepNeed(hours: number) {
+    if (!Number.isFinite(hours) || hours <= 0 || hours > 24) {
+      console.error('Sleep need must be a number of hours between 0 and 24');
+      return;
     }
 
-    // Calculate the average daily drift in sleep and wake times
-    // Use the displayed entries for visible drift calculation
-    const displayedData = this.maxEntries > 0 && this.sleepData.length > this.maxEntries
-      ? this.sleepData.slice(-this.maxEntries)
-      : this.sleepData;
-    const displayedMainSleepEntries = this.getMainSleepEntries(displayedData);
+    this.sleepNeed = hours * 60 * 60 * 1000;
+    this.requestRender('blocks', 'info');
+  }
 
-    // Log the displayed entries for debugging
-    console.log('Displayed entries for drift calculation:', displayedMainSleepEntries.map(entry => {
-      return {
-        sleep: new Date(entry.sleep).toLocaleString(),
-        wake: new Date(entry.wake).toLocaleString()
-      };
-    }));
-
-    // Calculate drift between consecutive entries for debugging
-    for (let i = 1; i < displayedMainSleepEntries.length; i++) {
-      const prevEntry = displayedMainSleepEntries[i-1];
-      const currEntry = displayedMainSleepEntries[i];
-      const drift = this.calculateEntryDrift(prevEntry, currEntry);
-      console.log(`Drift between entries ${i-1} and ${i}:`, {
-        sleepDrift: this.formatDrift(drift.sleepDrift),
-        wakeDrift: this.formatDrift(drift.wakeDrift),
-        prevSleep: new Date(prevEntry.sleep).toLocaleString(),
-        currSleep: new Date(currEntry.sleep).toLocaleString(),
-        prevWake: new Date(prevEntry.wake).toLocaleString(),
-        currWake: new Date(currEntry.wake).toLocaleString()
-      });
+  /**
+   * Sets the number of days the sleep debt is added up over
+   * @param days Window length in days
+   */
+  public setDebtWindowDays(days: number) {
+    if (days < 1 || !Number.isInteger(days)) {
+      console.error('Sleep debt window must be a positive integer');
+      return;
     }
 
-    const visibleDriftData = this.calculateDrift(displayedMainSleepEntries);
-
-    // Calculate average sleep duration for visible main sleep entries
-    // This ensures predictions use the same data that's currently visible
-    let totalSleepDuration = 0;
-    displayedMainSleepEntries.forEach(entry => {
-      const sleepTime = new Date(entry.sleep).getTime();
-      const wakeTime = new Date(entry.wake).getTime();
-      totalSleepDuration += wakeTime - sleepTime;
-    });
-    const avgSleepDuration = totalSleepDuration / displayedMainSleepEntries.length;
-
-    console.log('Average sleep duration calculation:', {
-      totalSleepDuration,
-      entriesCount: displayedMainSleepEntries.length,
-      avgSleepDurationHours: avgSleepDuration / (1000 * 60 * 60)
-    });
-
-    // Get the last entry from the visible data, not from all data
-    // This ensures predictions are based on what's currently visible
-    const lastVisibleEntry = displayedMainSleepEntries[displayedMainSleepEntries.length - 1];
-    const lastWakeTime = new Date(lastVisibleEntry.wake);
-
-    // Log data for debugging
-    console.log('Prediction data:', {
-      visibleSleepDrift: this.formatDrift(visibleDriftData.sleepDrift),
-      visibleWakeDrift: this.formatDrift(visibleDriftData.wakeDrift),
-      avgSleepDuration: `${(avgSleepDuration / (1000 * 60 * 60)).toFixed(2)} hours`,
-      lastWakeTime: lastWakeTime.toLocaleString(),
-      avgRating: visibleDriftData.avgRating
-    });
-
-    // Generate predictions
-    const predictions: PredictedSleepRecord[] = [];
-
-    // Calculate the milliseconds in a day
-    const HOURS_IN_DAY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-
-    // Store the previous wake time to build predictions from
-    let prevWakeTime = lastWakeTime;
-
-    // Get the last few entries to analyze the pattern
-    const lastFewEntries = displayedMainSleepEntries.slice(-5);
-    console.log('Last few entries for pattern analysis:', lastFewEntries.map(entry => {
-      return {
-        sleep: new Date(entry.sleep).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
-        wake: new Date(entry.wake).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
-        date: new Date(entry.sleep).toLocaleDateString()
-      };
-    }));
-
-    // Get the last entry's sleep time hour and minute to use as a base pattern
-    const lastSleepTime = new Date(lastVisibleEntry.sleep);
-    const lastSleepHour = lastSleepTime.getHours();
-    const lastSleepMinute = lastSleepTime.getMinutes();
-    console.log('Last sleep time:', lastSleepTime);
-    console.log('Last sleep time pattern:', `${lastSleepHour.toString().padStart(2, '0')}:${lastSleepMinute.toString().padStart(2, '0')}`);
-    console.log('Last visible entry:', {
-      sleep: new Date(lastVisibleEntry.sleep).toLocaleString(),
-      wake: new Date(lastVisibleEntry.wake).toLocaleString(),
-      sleepUTC: new Date(lastVisibleEntry.sleep).toISOString(),
-      sleepHours: new Date(lastVisibleEntry.sleep).getHours(),
-      sleepMinutes: new Date(lastVisibleEntry.sleep).getMinutes()
-    });
-
-    // Log the visible drift data
-    console.log('Visible drift data:', {
-      sleepDrift: this.formatDrift(visibleDriftData.sleepDrift),
-      wakeDrift: this.formatDrift(visibleDriftData.wakeDrift),
-      sleepDriftMs: visibleDriftData.sleepDrift,
-      wakeDriftMs: visibleDriftData.wakeDrift
-    });
-
-    // Generate predictions for the specified number of days
-    for (let i = 0; i < this.predictionDays; i++) {
-      // Start with a date 24 hours after the previous wake time
-      const nextDate = new Date(prevWakeTime.getTime() + HOURS_IN_DAY);
-      console.log(`Prediction ${i+1} - Base date:`, nextDate.toLocaleString());
-
-      // Create the next wake time by setting the hour and minute to match the sleep time pattern
-      // This should make the wake time closer to the desired 00:10 pattern
-      const nextWakeTime = new Date(nextDate);
-      nextWakeTime.setHours(lastSleepHour);
-      nextWakeTime.setMinutes(lastSleepMinute);
-      console.log(`Prediction ${i+1} - Using hour:${lastSleepHour}, minute:${lastSleepMinute}`);
-
-      console.log(`Prediction ${i+1} - After setting to pattern time:`, nextWakeTime.toLocaleString());
-
-      // Apply the visible drift to the wake time
-      const driftAmount = visibleDriftData.sleepDrift * (i + 1);
-      nextWakeTime.setTime(nextWakeTime.getTime() + driftAmount);
-
-      console.log(`Prediction ${i+1} - After applying drift:`, {
-        wakeTime: nextWakeTime.toLocaleString(),
-        driftAmount: this.formatDrift(driftAmount)
-      });
-
-      // Calculate the next sleep time by subtracting the average sleep duration from the wake time
-      const nextSleepTime = new Date(nextWakeTime.getTime() - avgSleepDuration);
-
-      // Create a predicted entry
-      const predictedEntry: PredictedSleepRecord = {
-        sleep: nextSleepTime.toISOString(),
-        wake: nextWakeTime.toISOString(),
-        rating: Math.round(visibleDriftData.avgRating), // Use average rating from past entries
-        note: 'Predicted entry',
-        isPredicted: true
-      };
-
-      // Log prediction for debugging
-      console.log(`Prediction ${i+1}:`, {
-        sleep: nextSleepTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
-        wake: nextWakeTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
-        sleepDuration: `${(avgSleepDuration / (1000 * 60 * 60)).toFixed(2)} hours`,
-        driftFromLast: this.formatDrift(visibleDriftData.sleepDrift),
-        totalDriftFromOriginal: this.formatDrift(visibleDriftData.sleepDrift * (i + 1))
-      });
-
-      // Update the previous wake time for the next iteration
-      prevWakeTime = nextWakeTime;
+    this.debtWindowDays = days;
+    this.requestRender('blocks', 'info');
+  }
 
-      predictions.push(predictedEntry);
+  /**
+   * Sets the longest time awake between two entries that still makes them one sleep
+   * @param minutes Gap in minutes (0 = only overlapping entries are merged)
+   */
+  public setMergeGap(minutes: number) {
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      console.error('Merge gap must be a number of minutes of at least 0');
+      return;
     }
 
-    return predictions;
+    this.sleepClassification = { ...this.sleepClassification, mergeGap: minutes * 60 * 1000 };
+    this.requestRender('blocks', 'x-axis', 'info');
   }
 
   /**
-   * Gets the main sleep entry for each day (longest sleep period)
-   * @param data Array of sleep records
-   * @returns Array of main sleep entries
+   * Sets the shortest sleep that can be the main sleep of a day, shorter ones are naps
+   * @param hours Duration in hours
    */
-  private getMainSleepEntries(data: SleepRecord[]): SleepRecord[] {
-    // Group entries by date (day)
-    const entriesByDay = new Map<string, SleepRecord[]>();
+  public setMinMainSleep(hours: number) {
+    if (!Number.isFinite(hours) || hours < 0 || hours > 24) {
+      console.error('Shortest main sleep must be a number of hours between 0 and 24');
+      return;
+    }
 
-    data.forEach(record => {
-      const sleepTime = new Date(record.sleep);
-      const dateStr = sleepTime.toISOString().split('T')[0];
+    this.sleepClassification = { ...this.sleepClassification, minMainDuration: hours * 60 * 60 * 1000 };
+    this.requestRender('blocks', 'x-axis', 'info');
+  }
 
-      if (!entriesByDay.has(dateStr)) {
-        entriesByDay.set(dateStr, []);
-      }
-      entriesByDay.get(dateStr)?.push(record);
+  /**
+   * Computes the daily sleep debt over the whole log (so the first visible days have their full window)
+   * @returns Balance of every day with entries, and the periods where the debt was paid back
+   */
+  private getSleepDebt(): { days: SleepDebtDay[], recoveries: RecoveryPeriod[] } {
+    return this.cached('sleep-debt', () => {
+      const totals = getDailySleepTotals(this.sleepData, record => this.getRecordDay(record));
+      const days = computeSleepDebt(totals, this.sleepNeed, this.debtWindowDays);
+      return { days, recoveries: findRecoveryPeriods(days) };
     });
+  }
 
-    // For each day, find the longest sleep period (main sleep)
-    const mainSleepEntries: SleepRecord[] = [];
-
-    entriesByDay.forEach(entries => {
-      if (entries.length === 0) return;
+  /**
+   * Formats a sleep debt balance with its sign (e.g. "+5h20m", "-0h45m" for a surplus)
+   */
+  private formatDebt(balance: number): string {
+    return `${balance < 0 ? '-' : '+'}${this.formatDuration(Math.abs(balance))}`;
+  }
 
-      // If only one entry for the day, it's the main sleep
-      if (entries.length === 1) {
-        mainSleepEntries.push(entries[0]);
-        return;
-      }
+  /**
+   * Generates predicted sleep entries based on past data (see generatePredictions in the analytics)
+   * @returns Array of predicted sleep entries
+   */
+  private generatePredictions(): PredictedSleepRecord[] {
+    if (!this.showPredictions) {
+      return [];
+    }
+    return this.cached('predictions', () => generatePredictions(this.sleepData, this.predictionDays, this.getAnalysisOptions()));
+  }
 
-      // Find the longest sleep period for this day
-      let longestDuration = 0;
-      let longestEntry = entries[0];
+  /**
+   * Models the cycle of the visible main sleeps, shared by the predictions and the natural-cycle view
+   * so both place the future and past cycles at the same times
+   * @returns The model, or null when no main sleep is visible
+   */
+  private getCycleModel(): CycleModel | null {
+    return this.cached('cycle-model', () => getCycleModel(this.sleepData, this.getAnalysisOptions()));
+  }
+
+  /**
+   * Settings of the Non-24 analysis, from the chart controls
+   */
+  private getAnalysisOptions(): AnalysisOptions {
+    return {
+      dayStartHour: this.dayStartHour,
+      maxEntries: this.maxEntries,
+      averagingDays: this.averagingDays,
+      classification: this.sleepClassification
+    };
+  }
 
-      entries.forEach(entry => {
-        const sleepTime = new Date(entry.sleep);
-        const wakeTime = new Date(entry.wake);
+  /**
+   * Gets the main sleep entry for each day (longest sleep period), limited to the averaging days
+   * @param data Array of sleep records
+   * @returns Array of main sleep entries
+   */
+  private getMainSleepEntries(data: SleepRecord[]): SleepRecord[] {
+    return getMainSleepEntries(data, this.getAnalysisOptions());
+  }
 
-        let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
-        let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
-        if (wakeHour < sleepHour) wakeHour += 24; // Handle overnight sleep
-        const duration = wakeHour - sleepHour;
+  /**
+   * Sleep day of an entry: the day column its sleep start is drawn in (see getSleepDay)
+   * @returns Date string (YYYY-MM-DD)
+   */
+  private getRecordDay(record: SleepRecord): string {
+    return getSleepDay(new Date(record.sleep).getTime(), this.dayStartHour);
+  }
 
-        if (duration > longestDuration) {
-          longestDuration = duration;
-          longestEntry = entry;
-        }
+  /**
+   * Groups the visible entries and the predictions into the day columns of the standard view
+   * The blocks, the axes and the layers over the blocks share the same columns and entries (see getActogramLayout for
+   * the rows of the other views).
+   */
+  private getDayColumns(): DayColumns {
+    return this.cached('day-columns', () => {
+      // Filter data based on maxEntries setting
+      const filteredData = getVisibleRecords(this.sleepData, this.maxEntries);
+      const combinedData = [...filteredData, ...this.generatePredictions()];
+
+      // Group entries by date (day)
+      const entriesByDay = new Map<string, number[]>();
+      combinedData.forEach((record, index) => {
+        const dateStr = this.getRecordDay(record);
+        const indices = entriesByDay.get(dateStr);
+        if (indices) indices.push(index);
+        else entriesByDay.set(dateStr, [index]);
       });
 
-      mainSleepEntries.push(longestEntry);
-    });
+      // In continuous mode, days without entries keep their column
+      let dates = [...entriesByDay.keys()].sort();
+      if (this.continuousDays) dates = fillDateRange(dates);
 
-    // Sort by date
-    mainSleepEntries.sort((a, b) => {
-      return new Date(a.sleep).getTime() - new Date(b.sleep).getTime();
+      return {
+        visibleData: filteredData,
+        combinedData,
+        recordIndexOffset: this.sleepData.length - filteredData.length,
+        entriesByDay,
+        dates,
+        dayIndices: new Map(dates.map((dateStr, dayIndex) => [dateStr, dayIndex]))
+      };
     });
+  }
 
-    // Limit to the most recent entries for averaging
-    // If averagingDays equals the number of unique dates, use all entries
-    const uniqueDatesCount = new Set(mainSleepEntries.map(entry => {
-      const sleepTime = new Date(entry.sleep);
-      return sleepTime.toISOString().split('T')[0];
-    })).size;
-
-    // Only slice if averagingDays is less than the total number of unique dates
-    const entriesToUse = this.averagingDays < uniqueDatesCount && mainSleepEntries.length > this.averagingDays
-      ? mainSleepEntries.slice(-this.averagingDays)
-      : mainSleepEntries;
-
-    return entriesToUse;
+  /**
+   * Groups entries into sleep periods (interrupted sleeps merged) and picks the main sleep of each day
+   * @param data Array of sleep records
+   */
+  private getSleepPeriods(data: SleepRecord[]): SleepPeriod[] {
+    // The blocks, the X-axis and the layers group the same entries during a render
+    const periodsByData = this.cached('sleep-periods', () => new WeakMap<SleepRecord[], SleepPeriod[]>());
+    let periods = periodsByData.get(data);
+    if (!periods) {
+      periods = groupSleepPeriods(data, record => this.getRecordDay(record), this.sleepClassification);
+      periodsByData.set(data, periods);
+    }
+    return periods;
   }
 
   /**
-   * Formats a drift value in milliseconds to a human-readable string
-   * @param driftMs Drift in milliseconds
-   * @returns Formatted drift string with sign (e.g., "+30m" or "-1h 15m")
+   * Finds the entries that are part of a main sleep (see groupSleepPeriods)
+   * @param data Array of sleep records
+   * @returns Indices (into data) of the main sleep entries, every entry of a merged period included
    */
-  private formatDrift(driftMs: number): string {
-    const sign = driftMs >= 0 ? '+' : '-';
-    const absDrift = Math.abs(driftMs);
+  private getMainSleepIndices(data: SleepRecord[]): Set<number> {
+    return new Set(this.getSleepPeriods(data).filter(period => period.isMain).flatMap(period => period.indices));
+  }
 
-    // Get just the drift part (not the full 24h + drift)
-    const hours = Math.floor(absDrift / (60 * 60 * 1000)) % 24; // Modulo 24 to get just the drift
-    const minutes = Math.floor((absDrift % (60 * 60 * 1000)) / (60 * 1000));
+  /**
+   * Main sleeps as one record each, spanning the whole period when it was interrupted
+   * @param data Array of sleep records
+   * @returns Main sleeps in time order
+   */
+  private getMainSleeps(data: SleepRecord[]): SleepRecord[] {
+    return getMainSleepRecords(data, this.getSleepPeriods(data));
+  }
 
-    if (hours === 0) {
-      return `${sign}${minutes}m`;
-    } else if (minutes === 0) {
-      return `${sign}${hours}h`;
-    } else {
-      return `${sign}${hours}h ${minutes}m`;
-    }
+  /**
+   * Main sleeps by the day they belong to
+   * @param data Array of sleep records
+   */
+  private getMainSleepsByDate(data: SleepRecord[]): Map<string, SleepRecord> {
+    return new Map(this.getMainSleeps(data).map(record => [this.getRecordDay(record), record]));
   }
 
   /**
@@ -668,112 +935,100 @@ export class SleepChart extends HTMLElement {
     const durationStr = `${sleepHours}h${sleepMinutes.toString().padStart(2, '0')}m`;
 
     // Format times in 24-hour format
-    const sleepTimeStr = sleepTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
-    const wakeTimeStr = wakeTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
-
-    return `${isPredictedBool ? '⚠️ PREDICTED ' : ''}${isMainSleepBool ? 'Main Sleep' : 'Nap'}
+    const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+    const sleepTimeStr = formatTime(sleepTime);
+    const wakeTimeStr = formatTime(wakeTime);
+
+    // Show the likely ranges of predicted entries
+    const formatRange = (range?: PredictionRange) => range
+      ? ` (80%: ${formatTime(new Date(range.earliest))}–${formatTime(new Date(range.latest))})`
+      : '';
+    const sleepRangeStr = 'sleepRange' in record ? formatRange(record.sleepRange) : '';
+    const wakeRangeStr = 'wakeRange' in record ? formatRange(record.wakeRange) : '';
+
+    return `${isPredictedBool ? '⚠️ PREDICTED ' : ''}${isMainSleepBool ? 'Main Sleep' : 'Nap'}${record.sleepType ? ' (set by hand)' : ''}
 Time: ${durationStr}
-Sleep: ${sleepTimeStr}${sleepDriftStr}
-Wake: ${wakeTimeStr}${wakeDriftStr}
-Rating: ${record.rating}/5
+Sleep: ${sleepTimeStr}${sleepDriftStr}${sleepRangeStr}
+Wake: ${wakeTimeStr}${wakeDriftStr}${wakeRangeStr}${this.formatSleepDetails(record, sleepDuration)}
+Rating: ${record.rating}/5${getRecordTags(record).length > 0 ? `\nTags: ${getRecordTags(record).join(', ')}` : ''}${isMainSleepBool ? this.formatTargetDeviation(sleepTime, wakeTime) : ''}
 Note: ${record.note}`;
   }
 
   /**
-   * Calculates drift between two sleep entries
-   * @param prevEntry Previous sleep entry
-   * @param currEntry Current sleep entry
-   * @returns Object with sleep and wake drifts
+   * Formats the info box rows answering when the drifting schedule lines up with the target and for how long
+   * The forecast follows the same cycle as the predictions, from the last visible main sleep
+   * @returns Grid rows, or an empty string when the target schedule is off
    */
-  private calculateEntryDrift(prevEntry: SleepRecord, currEntry: SleepRecord): { sleepDrift: number, wakeDrift: number } {
-    const prevSleepTime = new Date(prevEntry.sleep).getTime();
-    const currSleepTime = new Date(currEntry.sleep).getTime();
-    const prevWakeTime = new Date(prevEntry.wake).getTime();
-    const currWakeTime = new Date(currEntry.wake).getTime();
+  private formatAlignmentForecast(): string {
+    const model = this.getCycleModel();
+    if (!this.targetSchedule || !model) return '';
 
-    // Calculate raw drift
-    let sleepDrift = currSleepTime - prevSleepTime;
-    let wakeDrift = currWakeTime - prevWakeTime;
-
-    // Adjust to show just the drift part (not the full 24h + drift)
     const HOURS_IN_DAY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+    const lastSleep = model.lastWakeTime - model.avgSleepDuration;
+    const forecast = forecastAlignment(lastSleep, model.cycleLength - HOURS_IN_DAY, this.targetSchedule);
+    const formatCount = (days: number) => `${days} day${days === 1 ? '' : 's'}`;
+
+    let alignedIn: string;
+    if (forecast.aligned) {
+      alignedIn = 'Aligned now';
+    } else if (forecast.daysUntilAligned === null) {
+      alignedIn = 'Not while the drift stays under 1m';
+    } else {
+      const date = new Date(lastSleep + forecast.daysUntilAligned * model.cycleLength);
+      alignedIn = `${formatCount(forecast.daysUntilAligned)} (${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })})`;
+    }
 
-    // Ensure we get a positive value first, then take modulo again to handle negative drifts
-    sleepDrift = ((sleepDrift % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
-    wakeDrift = ((wakeDrift % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
+    const alignedFor = forecast.alignedDays === null
+      ? 'As long as the drift stays under 1m'
+      : `${formatCount(forecast.alignedDays)}${forecast.aligned ? ' more' : ''}`;
 
-    // If the drift is more than 12 hours, it's likely going backwards (negative drift)
-    if (sleepDrift > 12 * 60 * 60 * 1000) {
-      sleepDrift = sleepDrift - HOURS_IN_DAY;
-    }
-    if (wakeDrift > 12 * 60 * 60 * 1000) {
-      wakeDrift = wakeDrift - HOURS_IN_DAY;
-    }
+    return `
+        <div class="flex items-center">
+          <span>Target: In line</span>
+          <span class="ml-1 text-xs text-gray-400 cursor-help" title="When the sleep onset next comes within ${Math.round(ALIGNMENT_TOLERANCE / (60 * 1000))}m of the target ${formatTimeOfDay(this.targetSchedule.sleepMinutes)}, at the visible drift">[?]</span>
+        </div>
+        <div>${alignedIn}</div>
 
-    return {
-      sleepDrift: sleepDrift,
-      wakeDrift: wakeDrift
-    };
+        <div>Target: Stays for</div>
+        <div>${alignedFor}</div>
+    `;
   }
 
   /**
-   * Calculates the average daily drift in sleep and wake times
-   * @param entries Array of main sleep entries
-   * @returns Object with sleep drift, wake drift, and average rating
+   * Formats the deviation of a main sleep from the target schedule for the tooltip
+   * @returns A line starting with a line break, or an empty string when the target schedule is off
    */
-  private calculateDrift(entries: SleepRecord[]): { sleepDrift: number, wakeDrift: number, avgRating: number } {
-    if (entries.length < 2) {
-      // Default to 30 minutes drift if not enough data
-      return {
-        sleepDrift: 30 * 60 * 1000, // 30m in milliseconds (drift beyond 24h)
-        wakeDrift: 30 * 60 * 1000, // 30m in milliseconds (drift beyond 24h)
-        avgRating: 3
-      };
-    }
+  private formatTargetDeviation(sleepTime: Date, wakeTime: Date): string {
+    if (!this.targetSchedule) return '';
 
-    let totalSleepDrift = 0;
-    let totalWakeDrift = 0;
-    let totalRating = 0;
-
-    // Calculate drift between consecutive entries
-    for (let i = 1; i < entries.length; i++) {
-      const prevSleepTime = new Date(entries[i-1].sleep).getTime();
-      const currSleepTime = new Date(entries[i].sleep).getTime();
-      const prevWakeTime = new Date(entries[i-1].wake).getTime();
-      const currWakeTime = new Date(entries[i].wake).getTime();
-
-      // Calculate raw time differences
-      let sleepDiff = currSleepTime - prevSleepTime;
-      let wakeDiff = currWakeTime - prevWakeTime;
-
-      // Adjust to get the drift part (modulo 24 hours)
-      const HOURS_IN_DAY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-      sleepDiff = ((sleepDiff % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
-      wakeDiff = ((wakeDiff % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
-
-      // If the drift is more than 12 hours, it's likely going backwards (negative drift)
-      if (sleepDiff > 12 * 60 * 60 * 1000) {
-        sleepDiff = sleepDiff - HOURS_IN_DAY;
-      }
-      if (wakeDiff > 12 * 60 * 60 * 1000) {
-        wakeDiff = wakeDiff - HOURS_IN_DAY;
-      }
+    const deviation = getTargetDeviation(sleepTime.getTime(), wakeTime.getTime(), this.targetSchedule);
+    return `\nTarget: sleep ${formatDrift(deviation.sleep)}, wake ${formatDrift(deviation.wake)}`;
+  }
+
+  /**
+   * Formats the optional details of a record (time in bed, latency, awakenings, WASO) for the tooltip
+   * @param sleepDuration Time between sleep and wake in milliseconds
+   * @returns Lines starting with a line break, or an empty string when the record has no details
+   */
+  private formatSleepDetails(record: SleepRecord, sleepDuration: number): string {
+    const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h${Math.round(minutes % 60).toString().padStart(2, '0')}m`;
+    const lines: string[] = [];
 
-      totalSleepDrift += sleepDiff;
-      totalWakeDrift += wakeDiff;
-      totalRating += entries[i].rating;
+    if (record.inBed && record.outOfBed) {
+      const inBedMinutes = (new Date(record.outOfBed).getTime() - new Date(record.inBed).getTime()) / (60 * 1000);
+      if (!isNaN(inBedMinutes)) lines.push(`In bed: ${formatMinutes(inBedMinutes)}`);
+    }
+    if (typeof record.waso === 'number') {
+      lines.push(`Asleep: ${formatMinutes(sleepDuration / (60 * 1000) - record.waso)} (${Math.round(record.waso)}m awake)`);
     }
 
-    // Calculate averages
-    const avgSleepDrift = totalSleepDrift / (entries.length - 1);
-    const avgWakeDrift = totalWakeDrift / (entries.length - 1);
-    const avgRating = totalRating / entries.length;
+    const counts = [
+      typeof record.latency === 'number' ? `Latency: ${Math.round(record.latency)}m` : '',
+      typeof record.awakenings === 'number' ? `Awakenings: ${record.awakenings}` : ''
+    ].filter(Boolean);
+    if (counts.length > 0) lines.push(counts.join(' · '));
 
-    return {
-      sleepDrift: avgSleepDrift,
-      wakeDrift: avgWakeDrift,
-      avgRating: avgRating
-    };
+    return lines.map(line => `\n${line}`).join('');
   }
 
   /**
@@ -782,7 +1037,7 @@ Note: ${record.note}`;
    */
   private addDayStartControl() {
     const container = document.createElement('div');
-    container.className = 'absolute top-2 left-20 bg-black bg-opacity-70 p-2 rounded z-20 flex items-center gap-4';
+    container.className = 'absolute top-2 left-[var(--y-axis-width)] bg-black bg-opacity-70 p-2 rounded z-20 flex items-center gap-4';
     container.innerHTML = `
       <div class="flex items-center">
         <label for="day-start-hour" class="text-white text-xs mr-2">Day starts at:</label>
@@ -805,6 +1060,53 @@ Note: ${record.note}`;
           placeholder="All"
         />
       </div>
+
+      <div class="flex items-center">
+        <label for="display-mode" class="text-white text-xs mr-2">View:</label>
+        <select id="display-mode" class="bg-gray-800 text-white text-xs p-1 rounded">
+          <option value="standard" ${this.displayMode === 'standard' ? 'selected' : ''}>24h</option>
+          <option value="double-plot" ${this.displayMode === 'double-plot' ? 'selected' : ''}>Double plot (48h)</option>
+          <option value="natural-cycle" ${this.displayMode === 'natural-cycle' ? 'selected' : ''}>Natural cycle (tau)</option>
+        </select>
+        <select id="plot-orientation" class="bg-gray-800 text-white text-xs p-1 rounded ml-1" title="Direction of the days or cycles" ${this.displayMode === 'standard' ? 'disabled' : ''}>
+          <option value="vertical" ${this.plotOrientation === 'vertical' ? 'selected' : ''}>Days as columns</option>
+          <option value="horizontal" ${this.plotOrientation === 'horizontal' ? 'selected' : ''}>Days as rows</option>
+        </select>
+        <input
+          type="number"
+          id="cycle-length"
+          class="bg-gray-800 text-white text-xs p-1 rounded w-16 ml-1"
+          min="20"
+          max="30"
+          step="0.05"
+          placeholder="Auto"
+          title="Cycle length in hours for the natural-cycle view (empty = estimated from the drift)"
+          value="${this.manualCycleLength === null ? '' : this.manualCycleLength / (60 * 60 * 1000)}"
+          ${this.displayMode !== 'natural-cycle' ? 'disabled' : ''}
+        />
+      </div>
+
+      <div class="flex items-center">
+        <input type="checkbox" id="continuous-days" class="mr-1" ${this.continuousDays ? 'checked' : ''} />
+        <label for="continuous-days" class="text-white text-xs" title="Give every day a column, and mark the days without entries">Show empty days</label>
+      </div>
+
+      <div class="flex items-center">
+        <label for="tag-filter" class="text-white text-xs mr-2">Tag:</label>
+        <select id="tag-filter" class="bg-gray-800 text-white text-xs p-1 rounded" disabled>
+          <option value="">All</option>
+        </select>
+        <select id="tag-filter-mode" class="bg-gray-800 text-white text-xs p-1 rounded ml-1" title="What to do with the entries without the tag" disabled>
+          <option value="dim" ${this.tagFilterMode === 'dim' ? 'selected' : ''}>Dim others</option>
+          <option value="hide" ${this.tagFilterMode === 'hide' ? 'selected' : ''}>Hide others</option>
+        </select>
+      </div>
+
+      <button id="add-record" class="bg-[#3B82F6] hover:bg-blue-400 text-white text-xs px-2 py-1 rounded">+ Add entry</button>
+      <button id="add-intervention" class="bg-gray-700 hover:bg-gray-600 text-white text-xs px-2 py-1 rounded" title="Log melatonin, light therapy or medication">+ Intervention</button>
+      <button id="import-csv" class="bg-gray-700 hover:bg-gray-600 text-white text-xs px-2 py-1 rounded">Import CSV</button>
+      <button id="export-data" class="bg-gray-700 hover:bg-gray-600 text-white text-xs px-2 py-1 rounded">Export</button>
+      <button id="show-periodogram" class="bg-gray-700 hover:bg-gray-600 text-white text-xs px-2 py-1 rounded" title="Estimate the circadian period from the sleep/wake signal">Periodogram</button>
     `;
 
     // Add event listeners
@@ -821,6 +1123,43 @@ Note: ${record.note}`;
       this.setMaxEntries(count);
     });
 
+    const displayModeSelect = container.querySelector('#display-mode') as HTMLSelectElement;
+    const orientationSelect = container.querySelector('#plot-orientation') as HTMLSelectElement;
+    const cycleLengthInput = container.querySelector('#cycle-length') as HTMLInputElement;
+    displayModeSelect.addEventListener('change', () => {
+      this.setDisplayMode(displayModeSelect.value as DisplayMode);
+
+      // The orientation only applies to the row-based views, the cycle length to the natural-cycle view
+      orientationSelect.disabled = this.displayMode === 'standard';
+      cycleLengthInput.disabled = this.displayMode !== 'natural-cycle';
+    });
+
+    orientationSelect.addEventListener('change', () => {
+      this.setPlotOrientation(orientationSelect.value as PlotOrientation);
+    });
+
+    cycleLengthInput.addEventListener('change', () => {
+      const value = cycleLengthInput.value.trim();
+      this.setCycleLength(value === '' ? null : parseFloat(value));
+    });
+
+    const continuousDaysCheckbox = container.querySelector('#continuous-days') as HTMLInputElement;
+    continuousDaysCheckbox.addEventListener('change', () => {
+      this.setContinuousDays(continuousDaysCheckbox.checked);
+    });
+
+    // The tag options are filled in once the data is loaded
+    const tagFilterSelect = container.querySelector('#tag-filter') as HTMLSelectElement;
+    const tagFilterModeSelect = container.querySelector('#tag-filter-mode') as HTMLSelectElement;
+    tagFilterSelect.addEventListener('change', () => {
+      this.setTagFilter(tagFilterSelect.value === '' ? null : tagFilterSelect.value);
+      tagFilterModeSelect.disabled = this.tagFilter === null;
+    });
+
+    tagFilterModeSelect.addEventListener('change', () => {
+      this.setTagFilterMode(tagFilterModeSelect.value as TagFilterMode);
+    });
+
     this.appendChild(container);
   }
 
@@ -861,6 +1200,62 @@ Note: ${record.note}`;
           ${!this.showPredictions ? 'disabled' : ''}
         />
       </div>
+
+      <div class="flex items-center">
+        <input type="checkbox" id="show-target" class="mr-1" ${this.targetSchedule ? 'checked' : ''} />
+        <label for="show-target" class="text-white text-xs mr-2" title="Draw a desired sleep window and compare each day with it">Target:</label>
+        <input type="time" id="target-sleep" class="bg-gray-800 text-white text-xs p-1 rounded" value="${formatTimeOfDay((this.targetSchedule ?? DEFAULT_TARGET_WINDOW).sleepMinutes)}" ${!this.targetSchedule ? 'disabled' : ''} />
+        <span class="text-white text-xs mx-1">-</span>
+        <input type="time" id="target-wake" class="bg-gray-800 text-white text-xs p-1 rounded" value="${formatTimeOfDay((this.targetSchedule ?? DEFAULT_TARGET_WINDOW).wakeMinutes)}" ${!this.targetSchedule ? 'disabled' : ''} />
+      </div>
+
+      <div class="flex items-center">
+        <label for="sleep-need" class="text-white text-xs mr-2" title="Sleep needed per day, naps included">Sleep need:</label>
+        <input
+          type="number"
+          id="sleep-need"
+          class="bg-gray-800 text-white text-xs p-1 rounded w-12"
+          min="1"
+          max="16"
+          step="0.25"
+          value="${this.sleepNeed / (60 * 60 * 1000)}"
+        />
+        <label for="debt-window" class="text-white text-xs mx-1" title="Number of days the sleep debt is added up over">h over</label>
+        <input
+          type="number"
+          id="debt-window"
+          class="bg-gray-800 text-white text-xs p-1 rounded w-12"
+          min="1"
+          step="1"
+          value="${this.debtWindowDays}"
+        />
+        <span class="text-white text-xs ml-1">days</span>
+      </div>
+
+      <div class="flex items-center">
+        <label for="merge-gap" class="text-white text-xs mr-2" title="Sleeps interrupted by at most this many minutes awake count as one sleep">Merge gaps:</label>
+        <input
+          type="number"
+          id="merge-gap"
+          class="bg-gray-800 text-white text-xs p-1 rounded w-12"
+          min="0"
+          step="5"
+          value="${this.sleepClassification.mergeGap / (60 * 1000)}"
+        />
+        <label for="min-main-sleep" class="text-white text-xs mx-1" title="Sleeps shorter than this are naps, even when they are the longest of the day">min, naps under</label>
+        <input
+          type="number"
+          id="min-main-sleep"
+          class="bg-gray-800 text-white text-xs p-1 rounded w-12"
+          min="0"
+          max="24"
+          step="0.5"
+          value="${this.sleepClassification.minMainDuration / (60 * 60 * 1000)}"
+        />
+        <span class="text-white text-xs ml-1">h</span>
+      </div>
+
+      <button id="plan-entrainment" class="bg-gray-700 hover:bg-gray-600 text-white text-xs px-2 py-1 rounded" title="Plan melatonin and light toward a target sleep window">Plan</button>
     `;
 
     // Add event listeners
@@ -888,239 +1283,747 @@ Note: ${record.note}`;
       this.setAveragingDays(days);
     });
 
-    this.appendChild(container);
-  }
+    const sleepNeedInput = container.querySelector('#sleep-need') as HTMLInputElement;
+    sleepNeedInput.addEventListener('change', () => {
+      this.setSleepNeed(parseFloat(sleepNeedInput.value));
+    });
 
-  private setupHighlightEvents() {
-    const sleepBlocksContainer = this.querySelector('.sleep-blocks');
-    const verticalHighlight = this.querySelector('.vertical-highlight');
-    const horizontalHighlight = this.querySelector('.horizontal-highlight');
+    const debtWindowInput = container.querySelector('#debt-window') as HTMLInputElement;
+    debtWindowInput.addEventListener('change', () => {
+      this.setDebtWindowDays(parseInt(debtWindowInput.value, 10));
+    });
 
-    if (!sleepBlocksContainer || !verticalHighlight || !horizontalHighlight) return;
+    const mergeGapInput = container.querySelector('#merge-gap') as HTMLInputElement;
+    mergeGapInput.addEventListener('change', () => {
+      this.setMergeGap(parseFloat(mergeGapInput.value));
+    });
 
-    // Add event delegation for sleep blocks
-    sleepBlocksContainer.addEventListener('mouseover', (event) => {
-      const target = event.target as HTMLElement;
-      if (!target.classList.contains('sleep-block')) return;
+    const minMainSleepInput = container.querySelector('#min-main-sleep') as HTMLInputElement;
+    minMainSleepInput.addEventListener('change', () => {
+      this.setMinMainSleep(parseFloat(minMainSleepInput.value));
+    });
 
-      // Get the left position and width from the target block
-      const left = target.style.left;
-      const width = target.style.width;
+    // The target inputs keep their values while the target is off
+    const showTargetCheckbox = container.querySelector('#show-target') as HTMLInputElement;
+    const targetSleepInput = container.querySelector('#target-sleep') as HTMLInputElement;
+    const targetWakeInput = container.querySelector('#target-wake') as HTMLInputElement;
+    const updateTarget = () => {
+      targetSleepInput.disabled = !showTargetCheckbox.checked;
+      targetWakeInput.disabled = !showTargetCheckbox.checked;
 
-      // Get the sleep and wake times for the horizontal highlights
-      const sleepTime = new Date(target.dataset.sleep || '');
-      const wakeTime = new Date(target.dataset.wake || '');
-      let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
-      let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
+      const sleepMinutes = parseTimeOfDay(targetSleepInput.value);
+      const wakeMinutes = parseTimeOfDay(targetWakeInput.value);
+      if (showTargetCheckbox.checked && (sleepMinutes === null || wakeMinutes === null)) return;
 
-      // Adjust hours based on day start hour
-      sleepHour = (sleepHour - this.dayStartHour + 24) % 24;
-      wakeHour = (wakeHour - this.dayStartHour + 24) % 24;
+      this.setTargetSchedule(showTargetCheckbox.checked ? { sleepMinutes: sleepMinutes as number, wakeMinutes: wakeMinutes as number } : null);
+    };
+    showTargetCheckbox.addEventListener('change', updateTarget);
+    targetSleepInput.addEventListener('change', updateTarget);
+    targetWakeInput.addEventListener('change', updateTarget);
 
-      // Calculate positions for sleep and wake time highlights
-      let sleepTop = (sleepHour / 24) * 100;
-      let wakeTop = (wakeHour / 24) * 100;
+    this.appendChild(container);
+  }
 
-      // Handle wrapped blocks
-      if (wakeHour < sleepHour) {
-        wakeTop = (wakeHour / 24) * 100;
-      }
+  /**
+   * Adds the sleep record form and wires it to the chart
+   * New entries are created with the "Add entry" button, existing ones are edited by clicking their sleep block
+   */
+  private addRecordForm() {
+    const form = document.createElement('sleep-record-form') as SleepRecordForm;
 
-      // Format times for display in 24-hour format
-      const sleepTimeStr = sleepTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
-      const wakeTimeStr = wakeTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
-      const dateStr = sleepTime.toLocaleDateString([], { month: 'short', day: 'numeric' });
+    form.addEventListener('record-save', (event) => {
+      const { record, index } = (event as CustomEvent<RecordSaveDetail>).detail;
+      this.saveRecord(record, index);
+    });
 
-      // We don't need to find the index anymore since trend lines are permanent
+    form.addEventListener('record-delete', (event) => {
+      const { index } = (event as CustomEvent<RecordDeleteDetail>).detail;
+      this.deleteRecord(index);
+    });
 
-      // Show and position the vertical highlight
-      verticalHighlight.classList.remove('hidden');
-      verticalHighlight.innerHTML = `
-        <div class="bg-white bg-opacity-10 absolute h-full" style="left: ${left}; width: ${width};"></div>
-        <div class="absolute text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded" style="left: calc(${left} + ${width}/2); bottom: 5px; transform: translateX(-50%)">${dateStr}</div>
-      `;
+    this.querySelector('#add-record')?.addEventListener('click', () => {
+      form.open(this.sleepData);
+    });
 
-      // We don't need to calculate anything here anymore since trend lines are permanent
+    // Open the edit form when clicking a real (non-predicted) sleep block
+    this.querySelector('.sleep-blocks')?.addEventListener('click', (event) => {
+      const block = this.getBlockAt(event as MouseEvent);
+      if (!block || block.recordIndex === null) return;
 
-      // Show and position the horizontal highlights for both sleep and wake times
-      horizontalHighlight.classList.remove('hidden');
-      horizontalHighlight.innerHTML = `
-        <div class="absolute w-full h-0.5 bg-white" style="top: ${sleepTop}%;">
-          <span class="absolute left-0 -mt-5 text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded">Sleep: ${sleepTimeStr}</span>
-        </div>
-        <div class="absolute w-full h-0.5 bg-white" style="top: ${wakeTop}%;">
-          <span class="absolute left-0 mt-1 text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded">Wake: ${wakeTimeStr}</span>
-        </div>
-      `;
+      form.open(this.sleepData, block.recordIndex);
     });
 
-    sleepBlocksContainer.addEventListener('mouseout', () => {
-      // Hide the highlights when not hovering over any sleep block
-      verticalHighlight.classList.add('hidden');
-      horizontalHighlight.classList.add('hidden');
-    });
+    this.appendChild(form);
   }
 
+  /**
+   * Adds a new sleep record or replaces an existing one, then updates the chart
+   * @param record The record to save
+   * @param index Index of the record to replace (null = add a new record)
+   */
+  public async saveRecord(record: SleepRecord, index: number | null = null) {
+    const previous = index !== null ? this.sleepData[index] : null;
+    // An edited record keeps its id, so the store replaces it even when its times moved
+    record = { ...record, id: record.id ?? previous?.id ?? createRecordId() };
 
+    // Write through to the store first, so the chart never shows unsaved data
+    try {
+      await this.store?.put(record);
+    } catch (error) {
+      console.error('Error saving sleep record:', error);
+      return;
+    }
 
+    if (index === null) {
+      this.sleepData.push(record);
+    } else {
+      this.sleepData[index] = record;
+    }
 
+    // Re-validate, this also keeps the data sorted (the entry limit relies on the most recent entries being last)
+    this.applyValidation();
 
-
-
-  private createTemplate(): string {
-    return `
-      <div class="sleep-chart-container w-full h-full bg-[#1a1a1a] relative overflow-hidden">
-        <div class="chart-area w-full h-full relative">
-          <div class="y-axis absolute left-0 top-0 bottom-0 w-20 border-r border-[#333333]">
-            ${this.generateYAxisLabels()}
-          </div>
-          <div class="x-axis absolute left-20 right-0 bottom-0 h-10 border-t border-[#333333]"></div>
-          <div class="sleep-blocks absolute left-20 top-0 right-0 bottom-10"></div>
-          <div class="vertical-highlight absolute hidden left-20 top-0 right-0 bottom-10 pointer-events-none"></div>
-          <div class="horizontal-highlight absolute hidden left-20 top-0 right-0 bottom-10 pointer-events-none"></div>
-          <div class="non24-info absolute bottom-12 right-2 bg-black bg-opacity-70 p-2 rounded z-20 text-white text-xs"></div>
-        </div>
-      </div>
-    `;
+    this.requestRender('blocks', 'x-axis', 'info');
   }
 
   /**
-   * Renders the Y-axis with hour labels adjusted for the day start hour
+   * Adds the intervention form and wires it to the chart
+   * New interventions are logged with the "+ Intervention" button, existing ones are edited by clicking their marker
    */
-  private renderYAxis() {
-    const yAxis = this.querySelector('.y-axis');
-    if (!yAxis) return;
-
-    // Clear existing labels
-    yAxis.innerHTML = '';
+  private addInterventionForm() {
+    const form = document.createElement('intervention-form') as InterventionForm;
 
-    // We'll add timezone headers at the bottom instead
+    form.addEventListener('intervention-save', (event) => {
+      const { intervention, index } = (event as CustomEvent<InterventionSaveDetail>).detail;
+      this.saveIntervention({ ...intervention, id: intervention.id ?? createRecordId() }, index);
+    });
 
-    // Add new labels with a bit of top padding to account for the header
-    for (let i = 0; i < 24; i++) {
-      // Calculate the actual hour based on day start hour
-      const hour = (this.dayStartHour + i) % 24;
+    form.addEventListener('intervention-delete', (event) => {
+      const { index } = (event as CustomEvent<InterventionDeleteDetail>).detail;
+      this.deleteIntervention(index);
+    });
 
-      // Calculate position (0% is top, 100% is bottom)
-      // Add a small offset to account for the header
-      const position = (i / 24) * 100;
+    this.querySelector('#add-intervention')?.addEventListener('click', () => {
+      form.open(this.interventions);
+    });
 
-      // Create a date object for this hour to get timezone-specific times
-      const date = new Date();
-      date.setHours(hour, 0, 0, 0);
+    // The markers are re-created with the blocks, so listen on the container
+    this.querySelector('.sleep-blocks')?.addEventListener('click', (event) => {
+      const marker = (event.target as HTMLElement).closest<HTMLElement>('.intervention-marker');
+      if (!marker || marker.dataset.interventionIndex === undefined) return;
 
-      // Format times for different timezones (hour only)
-      // EU timezone (CET/CEST)
-      const euTime = hour.toString().padStart(2, '0');
+      form.open(this.interventions, parseInt(marker.dataset.interventionIndex, 10));
+    });
 
-      // NY timezone (EST/EDT)
-      const nyHour = new Date(date.toLocaleString('en-US', { timeZone: 'America/New_York' })).getHours();
-      const nyTime = nyHour.toString().padStart(2, '0');
+    this.appendChild(form);
+  }
 
-      // LA timezone (PST/PDT)
-      const laHour = new Date(date.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' })).getHours();
-      const laTime = laHour.toString().padStart(2, '0');
+  /**
+   * Logs a new intervention or replaces an existing one, then updates the chart
+   * @param intervention The intervention to save
+   * @param index Index of the intervention to replace (null = add a new intervention)
+   */
+  public async saveIntervention(intervention: Intervention, index: number | null = null) {
+    try {
+      await this.store?.putIntervention(intervention);
+    } catch (error) {
+      console.error('Error saving intervention:', error);
+      return;
+    }
 
-      // Create the label container
-      const labelContainer = document.createElement('div');
-      labelContainer.className = 'absolute left-0 text-[#cccccc] text-xs w-full';
+    if (index === null) {
+      this.interventions.push(intervention);
+    } else {
+      this.interventions[index] = intervention;
+    }
+    sortInterventions(this.interventions);
 
-      // Add a small top margin to the first hour to avoid overlap with the header
-      if (i === 0) {
-        labelContainer.style.top = `calc(${position}% + 4px)`;
-      } else {
-        labelContainer.style.top = `${position}%`;
-      }
+    this.requestRender('blocks', 'info');
+  }
 
-      // Show all three timezones with more visible separators
-      labelContainer.innerHTML = `
-        <div class="grid grid-cols-3 gap-0">
-          <div class="text-center border-r border-[#555555]">${euTime}</div>
-          <div class="text-center border-r border-[#555555]">${nyTime}</div>
-          <div class="text-center">${laTime}</div>
-        </div>
-      `;
+  /**
+   * Deletes an intervention and updates the chart
+   * @param index Index of the intervention to delete
+   */
+  public async deleteIntervention(index: number) {
+    if (index < 0 || index >= this.interventions.length) {
+      console.error('Intervention index out of range:', index);
+      return;
+    }
 
-      yAxis.appendChild(labelContainer);
+    try {
+      await this.store?.deleteIntervention(this.interventions[index].id);
+    } catch (error) {
+      console.error('Error deleting intervention:', error);
+      return;
     }
 
-    // Add timezone headers at the bottom of the Y-axis
-    const timezoneHeader = document.createElement('div');
-    timezoneHeader.className = 'absolute bottom-0 left-0 w-full text-[#cccccc] text-xs border-t border-[#333333]';
-    timezoneHeader.innerHTML = `
-      <div class="grid grid-cols-3 gap-0 h-6 items-center">
-        <div class="text-center border-r border-[#555555]">EU</div>
-        <div class="text-center border-r border-[#555555]">NY</div>
-        <div class="text-center">LA</div>
-      </div>
-    `;
-    yAxis.appendChild(timezoneHeader);
+    this.interventions.splice(index, 1);
 
-    // Add grid lines if needed
-    // ...
+    this.requestRender('blocks', 'info');
   }
 
   /**
-   * Generates Y-axis labels for initial render
-   * This will be replaced by renderYAxis after the component is connected
+   * Adds the entrainment planner and wires it to the chart
+   * The plan is recomputed from the current predictions whenever the chart is rendered
    */
-  private generateYAxisLabels(): string {
-    // Start with an empty string for labels
-    let labels = '';
+  private addEntrainmentPlanner() {
+    const planner = document.createElement('entrainment-planner') as EntrainmentPlanner;
 
-    // Add hour labels
-    for (let i = 0; i < 24; i += 1) {
-      // Calculate the actual hour based on day start hour
-      const hour = (this.dayStartHour + i) % 24;
+    planner.addEventListener('plan-request', (event) => {
+      this.setEntrainmentTarget((event as CustomEvent<PlanRequestDetail>).detail);
 
-      // Create a date object for this hour to get timezone-specific times
-      const date = new Date();
-      date.setHours(hour, 0, 0, 0);
+      const plan = this.getEntrainmentPlan();
+      planner.showPlan(plan);
+      if (!plan) planner.showError('The planner starts from the predictions: turn them on and log a few days of sleep');
+    });
 
-      // Format times for different timezones (hour only)
-      // EU timezone (CET/CEST)
-      const euTime = hour.toString().padStart(2, '0');
+    planner.addEventListener('plan-clear', () => {
+      this.setEntrainmentTarget(null);
+    });
 
-      // NY timezone (EST/EDT)
-      const nyHour = new Date(date.toLocaleString('en-US', { timeZone: 'America/New_York' })).getHours();
-      const nyTime = nyHour.toString().padStart(2, '0');
+    this.querySelector('#plan-entrainment')?.addEventListener('click', () => {
+      planner.open(this.getEntrainmentPlan(), this.entrainmentRequest?.target ?? this.targetSchedule ?? DEFAULT_TARGET_WINDOW);
+    });
 
-      // LA timezone (PST/PDT)
-      const laHour = new Date(date.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' })).getHours();
-      const laTime = laHour.toString().padStart(2, '0');
+    this.appendChild(planner);
+  }
 
-      const position = (i / 24) * 100;
+  /**
+   * Sets the target of the entrainment plan shown over the predictions
+   * @param request Target sleep window and interventions to use, or null to remove the plan
+   */
+  public setEntrainmentTarget(request: PlanRequestDetail | null) {
+    this.entrainmentRequest = request;
+    this.requestRender('blocks');
+  }
 
-      // Add a small top margin to the first hour to avoid overlap with the header
-      const topPosition = i === 0 ? `calc(${position}% + 4px)` : `${position}%`;
+  /**
+   * Plans melatonin and light toward the target, starting from the first predicted sleep
+   * @returns The plan over the prediction days, or null without a target or predictions
+   */
+  private getEntrainmentPlan(): EntrainmentPlan | null {
+    if (!this.entrainmentRequest || !this.showPredictions || this.predictionDays === 0) return null;
 
-      labels += `
-        <div class="absolute left-0 text-[#cccccc] text-xs w-full" style="top: ${topPosition}">
-          <div class="grid grid-cols-3 gap-0">
-            <div class="text-center border-r border-[#555555]">${euTime}</div>
-            <div class="text-center border-r border-[#555555]">${nyTime}</div>
-            <div class="text-center">${laTime}</div>
-          </div>
-        </div>
-      `;
-    }
-    return labels;
+    const model = this.getCycleModel();
+    if (!model) return null;
+
+    // Same first sleep as generatePredictions, so the plan and the predictions start together
+    const start = {
+      sleep: model.lastWakeTime + model.cycleLength - model.avgSleepDuration,
+      sleepDuration: model.avgSleepDuration,
+      cycleLength: model.cycleLength
+    };
+    return planEntrainment(start, this.entrainmentRequest.target, this.entrainmentRequest.options, this.predictionDays);
   }
 
-  private async loadData(): Promise<void> {
-    try {
-      const response = await fetch('/data.json');
-      if (!response.ok) {
-        throw new Error('Failed to load data');
-      }
+  /**
+   * Adds the periodogram dialog, computed from the visible entries when it is opened
+   */
+  private addPeriodogramDialog() {
+    const dialog = document.createElement('periodogram-dialog') as PeriodogramDialog;
 
-      this.sleepData = await response.json();
+    this.querySelector('#show-periodogram')?.addEventListener('click', () => {
+      const visibleData = getVisibleRecords(this.sleepData, this.maxEntries);
+      dialog.open(computePeriodogram(visibleData), computeSlidingPeriodogram(visibleData));
+    });
+
+    this.appendChild(dialog);
+  }
+
+  /**
+   * Adds the CSV import dialog and wires it to the chart
+   */
+  private addImportDialog() {
+    const dialog = document.createElement('csv-import-dialog') as CsvImportDialog;
+
+    dialog.addEventListener('records-import', (event) => {
+      const { records } = (event as CustomEvent<RecordsImportDetail>).detail;
+      this.importRecords(records);
+    });
+
+    this.querySelector('#import-csv')?.addEventListener('click', () => {
+      dialog.open(this.sleepData);
+    });
+
+    this.appendChild(dialog);
+  }
+
+  /**
+   * Merges imported sleep records into the data and updates the chart
+   * @param records Records to add (records with the same sleep start replace the existing ones)
+   */
+  public async importRecords(records: SleepRecord[]) {
+    // Reuse the id of the record being replaced, so the store overwrites it instead of keeping both
+    const existingIds = new Map([...this.sleepData, ...this.invalidRecords].map(record => [record.sleep, record.id]));
+    records = records.map(record => ({ ...record, id: record.id ?? existingIds.get(record.sleep) ?? createRecordId() }));
+
+    try {
+      await this.store?.bulkImport(records);
+    } catch (error) {
+      console.error('Error importing sleep records:', error);
+      return;
+    }
+
+    // Replace records with the same key, then add the rest
+    const importedKeys = new Set(records.map(getRecordKey));
+    this.applyValidation([
+      ...[...this.sleepData, ...this.invalidRecords].filter(record => !importedKeys.has(getRecordKey(record))),
+      ...records
+    ]);
+
+    this.requestRender('blocks', 'x-axis', 'info');
+  }
+
+  /**
+   * Adds the export dialog and wires it to the chart
+   */
+  private addExportDialog() {
+    const dialog = document.createElement('export-dialog') as ExportDialog;
+
+    dialog.addEventListener('export-request', (event) => {
+      this.exportData((event as CustomEvent<ExportOptions>).detail);
+    });
+
+    this.querySelector('#export-data')?.addEventListener('click', () => {
+      if (this.sleepData.length === 0) return;
+      // The custom range is in sleep days, like the chart's columns
+      dialog.open(this.getRecordDay(this.sleepData[0]), this.getRecordDay(this.sleepData[this.sleepData.length - 1]));
+    });
+
+    this.appendChild(dialog);
+  }
+
+  /**
+   * Exports the sleep log as a CSV or JSON file
+   * @param options Format, range and fields to export
+   */
+  public exportData(options: ExportOptions) {
+    // Predictions are only available when they are shown in the chart
+    const predictedEntries = options.includePredictions ? this.generatePredictions() : [];
+    const rows = buildExportRows(this.sleepData, predictedEntries, options, this.getAnalysisOptions());
+    const filename = `sleep-log-${new Date().toISOString().split('T')[0]}.${options.format}`;
+
+    if (options.format === 'csv') {
+      downloadFile(filename, toCsv(rows, options), 'text/csv');
+    } else {
+      downloadFile(filename, toJson(rows, options, getExportInterventions(this.interventions, options, rows, this.dayStartHour)), 'application/json');
+    }
+  }
+
+  /**
+   * Deletes a sleep record and updates the chart
+   * @param index Index of the record to delete
+   */
+  public async deleteRecord(index: number) {
+    if (index < 0 || index >= this.sleepData.length) {
+      console.error('Record index out of range:', index);
+      return;
+    }
+
+    try {
+      await this.store?.delete(getRecordKey(this.sleepData[index]));
+    } catch (error) {
+      console.error('Error deleting sleep record:', error);
+      return;
+    }
+
+    this.sleepData.splice(index, 1);
+    this.applyValidation();
+
+    this.requestRender('blocks', 'x-axis', 'info');
+  }
+
+  /**
+   * Validates the whole log, keeps the plottable records in sleepData and lists the problems
+   * Records with errors are kept aside (they stay in the store), records with warnings are plotted
+   * @param records All records of the log (defaults to the current ones, including the ones left out)
+   */
+  private applyValidation(records: SleepRecord[] = [...this.sleepData, ...this.invalidRecords]) {
+    const issues = validateSleepLog(records, this.dayStartHour);
+    const rejected = new Set(issues.filter(issue => issue.severity === 'error').map(issue => issue.record));
+
+    this.sleepData = sortRecords(records.filter(record => !rejected.has(record)));
+    this.invalidRecords = records.filter(record => rejected.has(record));
+    this.problemsPanel?.setIssues(issues);
+    this.updateTagFilterOptions();
+  }
+
+  /**
+   * Adds the panel listing the problems found in the log, clicking a problem shows its day
+   */
+  private addProblemsPanel() {
+    const panel = document.createElement('problems-panel') as ProblemsPanel;
+    panel.className = 'absolute top-14 right-2 z-20';
+
+    panel.addEventListener('issue-select', (event) => {
+      this.focusIssue((event as CustomEvent<ValidationIssue>).detail);
+    });
+
+    this.problemsPanel = panel;
+    this.appendChild(panel);
+  }
+
+  /**
+   * Adds the panel with the weekly and monthly statistics, filled in by updateStatistics
+   */
+  private addStatisticsPanel() {
+    const panel = document.createElement('sleep-statistics') as SleepStatistics;
+    panel.className = 'absolute top-14 left-[var(--y-axis-width)] z-20';
+
+    this.statisticsPanel = panel;
+    this.appendChild(panel);
+  }
+
+  /**
+   * Fills the statistics panel with the visible entries aggregated per week and per month (see summarizePeriods)
+   */
+  private updateStatistics() {
+    if (!this.statisticsPanel) return;
+
+    const options = this.getAnalysisOptions();
+    this.statisticsPanel.setStatistics({
+      week: summarizePeriods(this.sleepData, 'week', options),
+      month: summarizePeriods(this.sleepData, 'month', options)
+    });
+  }
+
+  /**
+   * Highlights the block of a problem's record, or a block of the same day when the record isn't plotted
+   * Shows all entries first when the day is hidden by the entry limit
+   * @param issue The selected problem
+   */
+  private focusIssue(issue: ValidationIssue) {
+    if (!issue.date) return;
+
+    const findBlock = () => {
+      // The blocks must be up to date, including after showing all entries
+      this.flushRender();
+      const blocks = this.blockCanvas?.isConnected ? this.blockCanvas.getBlocks() : [];
+      return blocks.find(block => block.record.sleep === issue.record.sleep)
+        ?? blocks.find(block => this.getRecordDay(block.record) === issue.date);
+    };
+
+    let block = findBlock();
+    if (!block && this.maxEntries > 0) {
+      this.setMaxEntries(0);
+      const maxEntriesInput = this.querySelector('#max-entries') as HTMLInputElement | null;
+      if (maxEntriesInput) maxEntriesInput.value = '';
+      block = findBlock();
+    }
+    if (!block) return;
+
+    // Show the hover highlights of the day and flash the block
+    this.setHoveredBlock(block);
+    this.blockCanvas?.flash(block);
+  }
+
+  private setupHighlightEvents() {
+    const sleepBlocksContainer = this.querySelector('.sleep-blocks');
+    if (!sleepBlocksContainer) return;
+
+    // The blocks are drawn on a canvas, so look up the block under the pointer
+    sleepBlocksContainer.addEventListener('mousemove', (event) => {
+      this.setHoveredBlock(this.getBlockAt(event as MouseEvent));
+    });
+
+    sleepBlocksContainer.addEventListener('mouseleave', () => {
+      // Hide the highlights when not hovering over any sleep block
+      this.setHoveredBlock(null);
+    });
+  }
+
+  /**
+   * Shows the hover style, the tooltip and the highlights of the day and times of a sleep block
+   * While a block is hovered the canvas takes the pointer, so the tooltip and the clicks are the block's rather
+   * than those of the layers below it.
+   * @param block The hovered block, null to clear
+   */
+  private setHoveredBlock(block: ChartBlock | null) {
+    if (block === this.hoveredBlock) return;
+    this.hoveredBlock = block;
+
+    if (this.blockCanvas) {
+      this.blockCanvas.setHovered(block);
+      this.blockCanvas.classList.toggle('pointer-events-none', !block);
+      this.blockCanvas.classList.toggle('cursor-pointer', block !== null && block.recordIndex !== null);
+      this.blockCanvas.title = block ? this.formatBlockTooltip(block) : '';
+    }
+
+    const verticalHighlight = this.querySelector('.vertical-highlight');
+    const horizontalHighlight = this.querySelector('.horizontal-highlight');
+    if (!verticalHighlight || !horizontalHighlight) return;
+
+    if (!block) {
+      verticalHighlight.classList.add('hidden');
+      horizontalHighlight.classList.add('hidden');
+      return;
+    }
+
+    // Blocks of the double plot are positioned within their row
+    if (block.rowStart !== null) {
+      this.showActogramHighlight(block, verticalHighlight, horizontalHighlight);
+      return;
+    }
+
+    // Get the left position and width from the block
+    const left = `${block.left}%`;
+    const width = `${block.width}%`;
+
+    // Get the sleep and wake times for the horizontal highlights
+    const sleepTime = new Date(block.record.sleep);
+    const wakeTime = new Date(block.record.wake);
+    let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
+    let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
+
+    // Adjust hours based on day start hour
+    sleepHour = (sleepHour - this.dayStartHour + 24) % 24;
+    wakeHour = (wakeHour - this.dayStartHour + 24) % 24;
+
+    // Calculate positions for sleep and wake time highlights
+    const sleepTop = (sleepHour / 24) * 100;
+    const wakeTop = (wakeHour / 24) * 100;
+
+    // Format times for display in 24-hour format, in every configured timezone
+    const sleepTimeStr = this.formatTimeInZones(sleepTime);
+    const wakeTimeStr = this.formatTimeInZones(wakeTime);
+    const dateStr = sleepTime.toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+    // Show and position the vertical highlight
+    verticalHighlight.classList.remove('hidden');
+    verticalHighlight.innerHTML = `
+      <div class="bg-white bg-opacity-10 absolute h-full" style="left: ${left}; width: ${width};"></div>
+      <div class="absolute text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded" style="left: calc(${left} + ${width}/2); bottom: 5px; transform: translateX(-50%)">${dateStr}</div>
+    `;
+
+    // Show and position the horizontal highlights for both sleep and wake times
+    horizontalHighlight.classList.remove('hidden');
+    horizontalHighlight.innerHTML = `
+      <div class="absolute w-full h-0.5 bg-white" style="top: ${sleepTop}%;">
+        <span class="absolute left-0 -mt-5 text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded">Sleep: ${sleepTimeStr}</span>
+      </div>
+      <div class="absolute w-full h-0.5 bg-white" style="top: ${wakeTop}%;">
+        <span class="absolute left-0 mt-1 text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded">Wake: ${wakeTimeStr}</span>
+      </div>
+    `;
+  }
+
+  /**
+   * Formats a time in 24-hour format in every configured timezone (e.g. "07:30 EU | 01:30 NY")
+   * @returns HTML, with the labels escaped
+   */
+  private formatTimeInZones(date: Date): string {
+    return this.timezones
+      .map(column => `${formatTimeInZone(date, column.timeZone)} ${escapeHtml(column.label)}`)
+      .join(' | ');
+  }
+
+  /**
+   * Shows the hover highlights of a block in the row-based views: its row, and its sleep and wake times within the row
+   * @param block The hovered block
+   * @param dayHighlight Overlay for the day
+   * @param timeHighlight Overlay for the sleep and wake times
+   */
+  private showActogramHighlight(block: ChartBlock, dayHighlight: Element, timeHighlight: Element) {
+    const rowStart = block.rowStart ?? 0;
+    const rowSpan = block.rowSpan ?? DOUBLE_PLOT_SPAN;
+    const dateStr = new Date(rowStart).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+    // Only mark the times that fall within the hovered row
+    const markers = [
+      { label: 'Sleep', time: new Date(block.record.sleep) },
+      { label: 'Wake', time: new Date(block.record.wake) }
+    ]
+      .map(marker => ({ ...marker, offset: ((marker.time.getTime() - rowStart) / rowSpan) * 100 }))
+      .filter(marker => marker.offset >= 0 && marker.offset <= 100);
+
+    // The natural-cycle view also shows the circadian time
+    const formatMarker = (marker: typeof markers[number]) => {
+      const timeStr = `${marker.label}: ${this.formatTimeInZones(marker.time)}`;
+      return this.displayMode === 'natural-cycle' ? `${timeStr} (CT${this.getCircadianTime(marker.offset).toFixed(1)})` : timeStr;
+    };
+
+    dayHighlight.classList.remove('hidden');
+    timeHighlight.classList.remove('hidden');
+
+    if (this.plotOrientation === 'vertical') {
+      const left = `${block.left}%`;
+      const width = `${block.width}%`;
+
+      dayHighlight.innerHTML = `
+        <div class="bg-white bg-opacity-10 absolute h-full" style="left: ${left}; width: ${width};"></div>
+        <div class="absolute text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded" style="left: calc(${left} + ${width}/2); bottom: 5px; transform: translateX(-50%)">${dateStr}</div>
+      `;
+      timeHighlight.innerHTML = markers.map(marker => `
+        <div class="absolute w-full h-0.5 bg-white" style="top: ${marker.offset}%;">
+          <span class="absolute left-0 ${marker.label === 'Sleep' ? '-mt-5' : 'mt-1'} text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded">${formatMarker(marker)}</span>
+        </div>
+      `).join('');
+    } else {
+      const top = `${block.top}%`;
+      const height = `${block.height}%`;
+
+      dayHighlight.innerHTML = `
+        <div class="bg-white bg-opacity-10 absolute w-full" style="top: ${top}; height: ${height};"></div>
+        <div class="absolute text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded" style="top: calc(${top} + ${height}/2); left: 5px; transform: translateY(-50%)">${dateStr}</div>
+      `;
+      timeHighlight.innerHTML = markers.map(marker => `
+        <div class="absolute h-full w-0.5 bg-white" style="left: ${marker.offset}%;">
+          <span class="absolute top-1 ${marker.label === 'Sleep' ? 'right-1' : 'left-1'} whitespace-nowrap text-xs text-white bg-black bg-opacity-70 px-1 py-0.5 rounded">${formatMarker(marker)}</span>
+        </div>
+      `).join('');
+    }
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="sleep-chart-container w-full h-full bg-[#1a1a1a] relative overflow-hidden">
+        <div class="chart-area w-full h-full relative">
+          <div class="y-axis absolute left-0 top-0 bottom-0 w-[var(--y-axis-width)] border-r border-[#333333]">
+            ${this.generateYAxisLabels()}
+          </div>
+          <div class="x-axis absolute left-[var(--y-axis-width)] right-0 bottom-0 h-10 border-t border-[#333333]"></div>
+          <div class="sleep-blocks absolute left-[var(--y-axis-width)] top-0 right-0 bottom-10"></div>
+          <div class="vertical-highlight absolute hidden left-[var(--y-axis-width)] top-0 right-0 bottom-10 pointer-events-none"></div>
+          <div class="horizontal-highlight absolute hidden left-[var(--y-axis-width)] top-0 right-0 bottom-10 pointer-events-none"></div>
+          <div class="non24-info absolute bottom-12 right-2 bg-black bg-opacity-70 p-2 rounded z-20 text-white text-xs"></div>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Renders the Y-axis with hour labels adjusted for the day start hour
+   */
+  private renderYAxis() {
+    const yAxis = this.querySelector('.y-axis');
+    if (!yAxis) return;
+
+    // Resize the axis for the number of timezone columns
+    this.updateYAxisWidth();
+
+    // With one row per day the Y-axis shows the days, and the natural-cycle view shows circadian time instead of
+    // clock time, so both are labelled with the X-axis
+    if (this.displayMode === 'natural-cycle' || (this.displayMode === 'double-plot' && this.plotOrientation === 'horizontal')) {
+      this.renderActogramAxes();
+      return;
+    }
+
+    // Replace the labels and the timezone header
+    const spanHours = this.displayMode === 'double-plot' ? 48 : 24;
+    yAxis.innerHTML = this.generateYAxisLabels(spanHours) + `
+      <div class="timezone-header absolute bottom-0 left-0 w-full text-[#cccccc] text-xs border-t border-[#333333] cursor-pointer hover:bg-[#333333]" title="Click to configure the timezone columns">
+        <div class="grid gap-0 h-6 items-center" style="${this.getTimezoneGridStyle()}">
+          ${this.timezones.map((column, i) =>
+            `<div class="text-center ${i < this.timezones.length - 1 ? 'border-r border-[#555555]' : ''}" title="${escapeHtml(column.timeZone)}">${escapeHtml(column.label)}</div>`
+          ).join('')}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Generates the hour labels of the Y-axis, one column per configured timezone
+   * Also used for the initial render, before the component is connected
+   * @param spanHours Hours covered by the axis (48 in the double plot, labelled every other hour)
+   */
+  private generateYAxisLabels(spanHours: number = 24): string {
+    // Start with an empty string for labels
+    let labels = '';
+    const step = spanHours > 24 ? 2 : 1;
+
+    // Add hour labels
+    for (let i = 0; i < spanHours; i += step) {
+      // Calculate the actual (local) hour based on day start hour
+      const hour = (this.dayStartHour + i) % 24;
+
+      // Create a date object for this hour to get timezone-specific times
+      const date = new Date();
+      date.setHours(hour, 0, 0, 0);
+
+      const position = (i / spanHours) * 100;
+
+      // Add a small top margin to the first hour to avoid overlap with the header
+      const topPosition = i === 0 ? `calc(${position}% + 4px)` : `${position}%`;
+
+      labels += `
+        <div class="absolute left-0 text-[#cccccc] text-xs w-full" style="top: ${topPosition}">
+          <div class="grid gap-0" style="${this.getTimezoneGridStyle()}">
+            ${this.timezones.map((column, i) =>
+              `<div class="text-center ${i < this.timezones.length - 1 ? 'border-r border-[#555555]' : ''}">${formatTimeInZone(date, column.timeZone, false)}</div>`
+            ).join('')}
+          </div>
+        </div>
+      `;
+    }
+    return labels;
+  }
+
+  /**
+   * Returns the inline style for a grid with one column per timezone
+   */
+  private getTimezoneGridStyle(): string {
+    return `grid-template-columns: repeat(${this.timezones.length}, minmax(0, 1fr));`;
+  }
+
+  /**
+   * Sets the width of the Y-axis (and the offset of everything to its right) from the number of timezone columns
+   */
+  private updateYAxisWidth() {
+    const width = Math.max(2, this.timezones.length) * 1.75;
+    this.style.setProperty('--y-axis-width', `${width}rem`);
+  }
+
+  /**
+   * Sets the timezone columns shown on the Y-axis and in the hover labels
+   * @param timezones List of columns (label and IANA timezone name), at least one
+   */
+  public setTimezones(timezones: TimezoneColumn[]) {
+    // Validate input
+    if (timezones.length === 0 || !timezones.every(column => isValidTimeZone(column.timeZone))) {
+      console.error('Timezones must be a non-empty list of valid IANA timezone names');
+      return;
+    }
+
+    this.timezones = timezones;
+    saveTimezones(timezones);
+
+    this.requestRender('y-axis');
+  }
+
+  /**
+   * Adds the timezone configuration dialog, opened by clicking the timezone header of the Y-axis
+   */
+  private addTimezoneDialog() {
+    const dialog = document.createElement('timezone-dialog') as TimezoneDialog;
+
+    dialog.addEventListener('timezones-change', (event) => {
+      this.setTimezones((event as CustomEvent<TimezoneColumn[]>).detail);
+    });
+
+    // The header is re-created with the axis, so listen on the axis itself
+    this.querySelector('.y-axis')?.addEventListener('click', (event) => {
+      if (!(event.target as HTMLElement).closest('.timezone-header')) return;
+      dialog.open(this.timezones);
+    });
+
+    this.appendChild(dialog);
+  }
+
+  private async loadData(): Promise<void> {
+    try {
+      // Read from the persistent store (seeded from /data.json on first run)
+      this.store = await openSleepStore('/data.json');
+
+      // Records with errors are listed in the problems panel instead of the chart
+      this.applyValidation(await this.store.list());
+      this.interventions = await this.store.listInterventions();
 
       // Calculate the number of unique days in the data for averaging
       const uniqueDates = new Set<string>();
       this.sleepData.forEach(record => {
         const sleepTime = new Date(record.sleep);
-        const dateStr = sleepTime.toISOString().split('T')[0];
+        const dateStr = getSleepDay(sleepTime.getTime(), this.dayStartHour);
         uniqueDates.add(dateStr);
       });
 
@@ -1133,16 +2036,17 @@ Note: ${record.note}`;
         averagingDaysInput.value = this.averagingDays.toString();
       }
 
-      this.renderSleepBlocks();
-      this.renderXAxis();
-      this.renderTrendLines(); // Add trend lines after loading data
-      this.updateNon24Info(); // Update non-24 info box
+      this.requestRender('blocks', 'x-axis', 'info');
     } catch (error) {
       console.error('Error loading sleep data:', error);
       this.showError('Failed to load sleep data');
     }
   }
 
+  /**
+   * Draws the sleep and wake trend lines over the sleep blocks, with a dot at the sleep and wake time of each entry
+   * The lines are SVG, the dots go in a MarkerLayer so only the ones in view are created.
+   */
   private renderTrendLines() {
     const sleepBlocksContainer = this.querySelector('.sleep-blocks');
     if (!sleepBlocksContainer || this.sleepData.length <= 1) return;
@@ -1151,309 +2055,150 @@ Note: ${record.note}`;
     const trendLinesContainer = document.createElement('div');
     trendLinesContainer.className = 'absolute inset-0 z-10 pointer-events-none';
 
-    // Create SVG paths for the trend lines with wrapping
-    let sleepSegments: {start: {x: number, y: number}, end: {x: number, y: number}}[] = [];
-    let wakeSegments: {start: {x: number, y: number}, end: {x: number, y: number}}[] = [];
-
-    // Filter data based on maxEntries setting
-    const filteredData = this.maxEntries > 0
-      ? [...this.sleepData].slice(-this.maxEntries)
-      : this.sleepData;
-
-    // Generate predictions if enabled
-    const predictedEntries = this.showPredictions ? this.generatePredictions() : [];
-
-    // For trend lines, we only use real data (not predictions)
-    // For dots, we'll use both real and predicted data
-    const realData = filteredData;
+    // The row-based views have their own layout
+    const { svg, dots } = this.displayMode === 'standard' ? this.generateTrendLines() : this.generateActogramTrendLines();
+    trendLinesContainer.innerHTML = svg;
 
-    // Group entries by date (day) for real data (for trend lines)
-    const entriesByDay = new Map<string, number[]>();
-    const uniqueDates: string[] = [];
-
-    // First, collect all unique dates from real data (for trend lines)
-    realData.forEach((record, index) => {
-      const sleepTime = new Date(record.sleep);
-      const wakeTime = new Date(record.wake);
-
-      // Get hours for time calculations
-      let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
-      let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
-      if (wakeHour < sleepHour) wakeHour += 24; // Handle overnight sleep
-
-      // Get date string (without time) for grouping
-      const dateStr = sleepTime.toISOString().split('T')[0];
-
-      if (!entriesByDay.has(dateStr)) {
-        entriesByDay.set(dateStr, []);
-        uniqueDates.push(dateStr);
-      }
-      entriesByDay.get(dateStr)?.push(index);
-    });
-
-    // Now, collect unique dates from predicted entries (for dots only)
-    if (this.showPredictions) {
-      predictedEntries.forEach(record => {
-        const sleepTime = new Date(record.sleep);
-        const dateStr = sleepTime.toISOString().split('T')[0];
+    const dotLayer = document.createElement('marker-layer') as MarkerLayer;
+    trendLinesContainer.appendChild(dotLayer);
+    dotLayer.setMarkers(dots);
 
-        if (!uniqueDates.includes(dateStr)) {
-          uniqueDates.push(dateStr);
-        }
-      });
-    }
-
-    // Sort dates chronologically
-    uniqueDates.sort();
-
-    // Calculate block width based on number of unique days
-    const blockWidth = 100 / uniqueDates.length;
-
-    // For each day, find the longest sleep period (main sleep)
-    const mainSleepIndices: number[] = [];
-    const mainSleepDayIndices: number[] = [];
-
-    uniqueDates.forEach((dateStr, dayIndex) => {
-      const indices = entriesByDay.get(dateStr) || [];
-
-      if (indices.length === 0) return;
+    this.mountTrendLines(sleepBlocksContainer, trendLinesContainer);
+  }
 
-      // If only one entry for the day, it's the main sleep
-      if (indices.length === 1) {
-        mainSleepIndices.push(indices[0]);
-        mainSleepDayIndices.push(dayIndex);
+  /**
+   * Generates the trend lines of the standard view, and the dots of the entries in their day columns
+   * The lines join the main sleeps of the real entries. A line is split where it would cross the top or bottom of the
+   * chart, and dashed across days without data.
+   */
+  private generateTrendLines(): TrendLines {
+    // Same day columns and entries as the sleep blocks
+    const { visibleData, combinedData, dates, dayIndices } = this.getDayColumns();
+    const blockWidth = 100 / dates.length;
+    const mainSleepIndices = this.getMainSleepIndices(visibleData);
+    const mainSleepByDate = this.getMainSleepsByDate(visibleData);
+
+    // Position of a time down its day column, and of the middle of a column (percent)
+    const toY = (time: string) => {
+      const date = new Date(time);
+      return (((date.getHours() + date.getMinutes() / 60 - this.dayStartHour + 24) % 24) / 24) * 100;
+    };
+    const toX = (dayIndex: number) => dayIndex * blockWidth + blockWidth / 2;
+
+    // A line changing by more than 12 hours crosses the day boundary, so it leaves through one edge of the chart and
+    // comes back through the other
+    const sleepSegments: TrendSegment[] = [];
+    const wakeSegments: TrendSegment[] = [];
+    const addSegments = (segments: TrendSegment[], start: { x: number, y: number }, end: { x: number, y: number }, dashed: boolean) => {
+      if (Math.abs(end.y - start.y) <= 50) {
+        segments.push({ start, end, dashed });
         return;
       }
 
-      // Find the longest sleep period for this day
-      let longestDuration = 0;
-      let longestIndex = indices[0];
+      const middleX = start.x + (end.x - start.x) / 2;
+      const [exitY, entryY] = end.y < start.y ? [100, 0] : [0, 100];
+      segments.push({ start, end: { x: middleX, y: exitY }, dashed });
+      segments.push({ start: { x: middleX, y: entryY }, end, dashed });
+    };
 
-      indices.forEach(index => {
-        const record = filteredData[index];
-        const sleepTime = new Date(record.sleep);
-        const wakeTime = new Date(record.wake);
+    // Main sleep of each day (interrupted sleeps merged), the trend lines join them
+    const mainSleepDays = dates.flatMap((dateStr, dayIndex) => {
+      const mainSleep = mainSleepByDate.get(dateStr);
+      return mainSleep ? [{ mainSleep, dayIndex }] : [];
+    });
 
-        let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
-        let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
-        if (wakeHour < sleepHour) wakeHour += 24; // Handle overnight sleep
-        const duration = wakeHour - sleepHour;
+    mainSleepDays.slice(1).forEach((next, i) => {
+      const current = mainSleepDays[i];
+      // Dash the lines across days without data rather than drawing them like a one-day change
+      const isGap = daysBetween(dates[current.dayIndex], dates[next.dayIndex]) > 1;
 
-        if (duration > longestDuration) {
-          longestDuration = duration;
-          longestIndex = index;
-        }
-      });
+      addSegments(sleepSegments, { x: toX(current.dayIndex), y: toY(current.mainSleep.sleep) }, { x: toX(next.dayIndex), y: toY(next.mainSleep.sleep) }, isGap);
+      addSegments(wakeSegments, { x: toX(current.dayIndex), y: toY(current.mainSleep.wake) }, { x: toX(next.dayIndex), y: toY(next.mainSleep.wake) }, isGap);
+    });
 
-      mainSleepIndices.push(longestIndex);
-      mainSleepDayIndices.push(dayIndex);
-    });
-
-    // Now create trend lines only for main sleep periods
-    for (let i = 0; i < mainSleepDayIndices.length - 1; i++) {
-      const currentDayIndex = mainSleepDayIndices[i];
-      const nextDayIndex = mainSleepDayIndices[i + 1];
-
-      const currentIndex = mainSleepIndices[i];
-      const nextIndex = mainSleepIndices[i + 1];
-
-      const currentRecord = filteredData[currentIndex];
-      const nextRecord = filteredData[nextIndex];
-
-      // Current entry
-      const currentSleepTime = new Date(currentRecord.sleep);
-      const currentWakeTime = new Date(currentRecord.wake);
-      let currentSleepHour = currentSleepTime.getHours() + currentSleepTime.getMinutes() / 60;
-      let currentWakeHour = currentWakeTime.getHours() + currentWakeTime.getMinutes() / 60;
-
-      // Adjust hours based on day start hour
-      currentSleepHour = (currentSleepHour - this.dayStartHour + 24) % 24;
-      currentWakeHour = (currentWakeHour - this.dayStartHour + 24) % 24;
-
-      // Next entry
-      const nextSleepTime = new Date(nextRecord.sleep);
-      const nextWakeTime = new Date(nextRecord.wake);
-      let nextSleepHour = nextSleepTime.getHours() + nextSleepTime.getMinutes() / 60;
-      let nextWakeHour = nextWakeTime.getHours() + nextWakeTime.getMinutes() / 60;
-
-      // Adjust hours based on day start hour
-      nextSleepHour = (nextSleepHour - this.dayStartHour + 24) % 24;
-      nextWakeHour = (nextWakeHour - this.dayStartHour + 24) % 24;
-
-      // Calculate positions using day indices instead of record indices
-      const currentX = currentDayIndex * blockWidth + blockWidth / 2;
-      const nextX = nextDayIndex * blockWidth + blockWidth / 2;
-
-      const currentSleepY = (currentSleepHour / 24) * 100;
-      const currentWakeY = (currentWakeHour / 24) * 100;
-      const nextSleepY = (nextSleepHour / 24) * 100;
-      const nextWakeY = (nextWakeHour / 24) * 100;
-
-      // Check if we need to wrap the sleep line
-      if (Math.abs(nextSleepY - currentSleepY) > 50) {
-        // The line would cross the midnight boundary, so split it
-        if (nextSleepY < currentSleepY) {
-          // Next sleep time is earlier (e.g., 23:00 -> 1:00)
-          // Add a segment from current to bottom
-          sleepSegments.push({
-            start: {x: currentX, y: currentSleepY},
-            end: {x: currentX + (nextX - currentX) / 2, y: 100}
-          });
-          // Add a segment from top to next
-          sleepSegments.push({
-            start: {x: currentX + (nextX - currentX) / 2, y: 0},
-            end: {x: nextX, y: nextSleepY}
-          });
-        } else {
-          // Next sleep time is later (e.g., 1:00 -> 23:00)
-          // Add a segment from current to top
-          sleepSegments.push({
-            start: {x: currentX, y: currentSleepY},
-            end: {x: currentX + (nextX - currentX) / 2, y: 0}
-          });
-          // Add a segment from bottom to next
-          sleepSegments.push({
-            start: {x: currentX + (nextX - currentX) / 2, y: 100},
-            end: {x: nextX, y: nextSleepY}
-          });
+    // Dots of every entry in its day's column, only when their trend lines are shown
+    const dots: PlacedMarker[] = [];
+    let rangeBars = '';
+    combinedData.forEach((record, index) => {
+      const dayIndex = dayIndices.get(this.getRecordDay(record));
+      if (dayIndex === undefined) return;
+
+      const x = toX(dayIndex);
+      const isPredicted = 'isPredicted' in record && record.isPredicted;
+      if (isPredicted) {
+        // Shade the likely ranges behind the hollow dots of the predicted entries
+        const bandWidth = blockWidth * 0.4;
+        const bars = (range: PredictionRange | undefined, color: string) => range
+          ? this.getVerticalSpans(new Date(range.earliest), new Date(range.latest)).map(span =>
+            `<rect x="${x - bandWidth / 2}%" y="${span.top}%" width="${bandWidth}%" height="${span.height}%" fill="${color}" fill-opacity="0.2" />`
+          ).join('')
+          : '';
+        const { sleepRange, wakeRange } = record as PredictedSleepRecord;
+
+        if (this.showSleepTrendLines) {
+          rangeBars += bars(sleepRange, '#FF00FF');
+          dots.push(this.createTrendDot(x, toY(record.sleep), 3, 'border: 1px dashed #FFFFFF'));
         }
-      } else {
-        // No wrapping needed for sleep line
-        sleepSegments.push({
-          start: {x: currentX, y: currentSleepY},
-          end: {x: nextX, y: nextSleepY}
-        });
-      }
-
-      // Check if we need to wrap the wake line
-      if (Math.abs(nextWakeY - currentWakeY) > 50) {
-        // The line would cross the midnight boundary, so split it
-        if (nextWakeY < currentWakeY) {
-          // Next wake time is earlier (e.g., 23:00 -> 1:00)
-          // Add a segment from current to bottom
-          wakeSegments.push({
-            start: {x: currentX, y: currentWakeY},
-            end: {x: currentX + (nextX - currentX) / 2, y: 100}
-          });
-          // Add a segment from top to next
-          wakeSegments.push({
-            start: {x: currentX + (nextX - currentX) / 2, y: 0},
-            end: {x: nextX, y: nextWakeY}
-          });
-        } else {
-          // Next wake time is later (e.g., 1:00 -> 23:00)
-          // Add a segment from current to top
-          wakeSegments.push({
-            start: {x: currentX, y: currentWakeY},
-            end: {x: currentX + (nextX - currentX) / 2, y: 0}
-          });
-          // Add a segment from bottom to next
-          wakeSegments.push({
-            start: {x: currentX + (nextX - currentX) / 2, y: 100},
-            end: {x: nextX, y: nextWakeY}
-          });
+        if (this.showWakeTrendLines) {
+          rangeBars += bars(wakeRange, '#00FFFF');
+          dots.push(this.createTrendDot(x, toY(record.wake), 3, 'border: 1px dashed #AAAAAA'));
         }
-      } else {
-        // No wrapping needed for wake line
-        wakeSegments.push({
-          start: {x: currentX, y: currentWakeY},
-          end: {x: nextX, y: nextWakeY}
-        });
+        return;
       }
-    }
-
-    // Create the SVG content
-    trendLinesContainer.innerHTML = `
-      <svg width="100%" height="100%" preserveAspectRatio="xMidYMid meet">
-        <!-- Sleep time connection lines -->
-        ${this.showSleepTrendLines ? sleepSegments.map(segment =>
-          `<line x1="${segment.start.x}%" y1="${segment.start.y}%" x2="${segment.end.x}%" y2="${segment.end.y}%" stroke="#FF00FF" stroke-width="1" stroke-opacity="0.6" />`
-        ).join('') : ''}
-
-        <!-- Wake time connection lines -->
-        ${this.showWakeTrendLines ? wakeSegments.map(segment =>
-          `<line x1="${segment.start.x}%" y1="${segment.start.y}%" x2="${segment.end.x}%" y2="${segment.end.y}%" stroke="#00FFFF" stroke-width="1" stroke-opacity="0.6" />`
-        ).join('') : ''}
-
-        <!-- Dots for each data point -->
-        <!-- First, add dots for real data -->
-        ${uniqueDates.map((dateStr, dayIndex) => {
-          const indices = entriesByDay.get(dateStr) || [];
-          const x = (dayIndex * (100 / uniqueDates.length)) + ((100 / uniqueDates.length) / 2);
-
-          return indices.map(i => {
-            const record = realData[i];
-            const sleepTime = new Date(record.sleep);
-            const wakeTime = new Date(record.wake);
-            let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
-            let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
-
-            // Adjust hours based on day start hour
-            sleepHour = (sleepHour - this.dayStartHour + 24) % 24;
-            wakeHour = (wakeHour - this.dayStartHour + 24) % 24;
-
-            const sleepY = (sleepHour / 24) * 100;
-            const wakeY = (wakeHour / 24) * 100;
-
-            // Check if this is a main sleep period or a nap
-            const isMainSleep = mainSleepIndices.includes(i);
-
-            // Use different colors/sizes for main sleep vs naps
-            const sleepFill = isMainSleep ? "#FF00FF" : "#FF99FF";
-            const wakeFill = isMainSleep ? "#00FFFF" : "#99FFFF";
-            const dotSize = isMainSleep ? 3 : 2;
-
-            // Only show dots if their corresponding trend lines are visible
-            return `
-              ${this.showSleepTrendLines ? `<circle cx="${x}%" cy="${sleepY}%" r="${dotSize}" fill="${sleepFill}" />` : ''}
-              ${this.showWakeTrendLines ? `<circle cx="${x}%" cy="${wakeY}%" r="${dotSize}" fill="${wakeFill}" />` : ''}
-            `;
-          }).join('');
-        }).join('')}
-
-        <!-- Then, add dots for predicted data with different styling -->
-        ${this.showPredictions ? predictedEntries.map(record => {
-          const sleepTime = new Date(record.sleep);
-          const wakeTime = new Date(record.wake);
-
-          // Get date string for positioning on X-axis
-          const dateStr = sleepTime.toISOString().split('T')[0];
-
-          // Find the day index for this date
-          let dayIndex = uniqueDates.indexOf(dateStr);
-
-          // If date doesn't exist in uniqueDates, add it at the end
-          if (dayIndex === -1) {
-            uniqueDates.push(dateStr);
-            dayIndex = uniqueDates.length - 1;
-          }
-
-          const x = (dayIndex * (100 / uniqueDates.length)) + ((100 / uniqueDates.length) / 2);
 
-          // Calculate Y positions
-          let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
-          let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
-
-          // Adjust hours based on day start hour
-          sleepHour = (sleepHour - this.dayStartHour + 24) % 24;
-          wakeHour = (wakeHour - this.dayStartHour + 24) % 24;
+      // Main sleeps have larger and brighter dots than naps
+      const isMainSleep = mainSleepIndices.has(index);
+      const dotSize = isMainSleep ? 3 : 2;
+      if (this.showSleepTrendLines) dots.push(this.createTrendDot(x, toY(record.sleep), dotSize, `background-color: ${isMainSleep ? '#FF00FF' : '#FF99FF'}`));
+      if (this.showWakeTrendLines) dots.push(this.createTrendDot(x, toY(record.wake), dotSize, `background-color: ${isMainSleep ? '#00FFFF' : '#99FFFF'}`));
+    });
 
-          const sleepY = (sleepHour / 24) * 100;
-          const wakeY = (wakeHour / 24) * 100;
+    const line = (segment: TrendSegment, color: string) =>
+      `<line x1="${segment.start.x}%" y1="${segment.start.y}%" x2="${segment.end.x}%" y2="${segment.end.y}%" stroke="${color}" stroke-width="1" stroke-opacity="0.6" ${segment.dashed ? 'stroke-dasharray="4,3"' : ''} />`;
 
-          // Use different styling for predicted entries - monochrome
-          // Hollow circles with dashed borders
-          // Only show dots if their corresponding trend lines are visible
-          return `
-            ${this.showSleepTrendLines ? `<circle cx="${x}%" cy="${sleepY}%" r="3" fill="none" stroke="white" stroke-width="1" stroke-dasharray="2,1" />` : ''}
-            ${this.showWakeTrendLines ? `<circle cx="${x}%" cy="${wakeY}%" r="3" fill="none" stroke="#AAAAAA" stroke-width="1" stroke-dasharray="2,1" />` : ''}
-          `;
-        }).join('') : ''}
+    return {
+      svg: `
+        <svg width="100%" height="100%" preserveAspectRatio="xMidYMid meet">
+          <!-- Sleep and wake time connection lines -->
+          ${this.showSleepTrendLines ? sleepSegments.map(segment => line(segment, '#FF00FF')).join('') : ''}
+          ${this.showWakeTrendLines ? wakeSegments.map(segment => line(segment, '#00FFFF')).join('') : ''}
+
+          <!-- Likely ranges of the predicted entries -->
+          ${rangeBars}
+        </svg>
+      `,
+      dots
+    };
+  }
 
-        <!-- Legend will be added separately -->
-      </svg>
-    `;
+  /**
+   * A dot of the trend lines, centered on a point
+   * @param x Horizontal position (percent of the chart)
+   * @param y Vertical position (percent of the chart)
+   * @param radius Radius in pixels
+   * @param style Inline style of the dot's fill or border
+   */
+  private createTrendDot(x: number, y: number, radius: number, style: string): PlacedMarker {
+    return {
+      left: x,
+      top: y,
+      width: 0,
+      height: 0,
+      create: () => {
+        const dot = document.createElement('div');
+        dot.className = 'trend-dot absolute rounded-full';
+        dot.style.cssText = `left: calc(${x}% - ${radius}px); top: calc(${y}% - ${radius}px); width: ${radius * 2}px; height: ${radius * 2}px; ${style}`;
+        return dot;
+      }
+    };
+  }
 
+  /**
+   * Replaces the trend lines in the chart and re-creates the legend
+   * @param sleepBlocksContainer The sleep blocks container
+   * @param trendLinesContainer The new trend lines
+   */
+  private mountTrendLines(sleepBlocksContainer: Element, trendLinesContainer: HTMLElement) {
     // Remove existing trend lines container if it exists
     const existingTrendLines = this.querySelector('.trend-lines-container');
     if (existingTrendLines) {
@@ -1474,7 +2219,7 @@ Note: ${record.note}`;
 
     // Add legend as a separate HTML element at the bottom left
     const legendContainer = document.createElement('div');
-    legendContainer.className = 'legend-container absolute bottom-12 left-20 bg-black bg-opacity-50 p-2 rounded z-20';
+    legendContainer.className = 'legend-container absolute bottom-12 left-[var(--y-axis-width)] bg-black bg-opacity-50 p-2 rounded z-20';
     legendContainer.innerHTML = `
       <div class="text-white text-xs grid grid-cols-[auto_auto_1fr] gap-x-2 gap-y-1 items-center">
         <input type="checkbox" id="show-sleep-trend" class="w-3 h-3" ${this.showSleepTrendLines ? 'checked' : ''}>
@@ -1497,6 +2242,35 @@ Note: ${record.note}`;
         </div>
         <div>Sleep Blocks</div>
 
+        <input type="checkbox" id="show-sleep-debt" class="w-3 h-3" ${this.showSleepDebt ? 'checked' : ''} ${this.displayMode !== 'standard' ? 'disabled' : ''}>
+        <div class="flex items-center">
+          <div class="w-3 h-0.5 bg-[#F97316] mr-0.5"></div>
+          <div class="w-2 h-3 bg-[#38BDF8]/20"></div>
+        </div>
+        <div title="Running sleep debt, with the periods where it was paid back shaded (24h view)">Sleep Debt</div>
+
+        <input type="checkbox" id="show-episodes" class="w-3 h-3" ${this.showEpisodes ? 'checked' : ''}>
+        <div class="flex items-center gap-0.5">
+          ${(['free-running', 'entrained', 'irregular'] as EpisodeKind[]).map(kind => `<div class="w-1.5 h-3" style="background-color: ${this.getEpisodeStyle(kind).color}" title="${this.getEpisodeStyle(kind).label}"></div>`).join('')}
+        </div>
+        <div title="Stretches of the log that are free-running, entrained to 24h or irregular">Episodes</div>
+
+        ${this.interventions.length > 0 ? `
+        <input type="checkbox" id="show-interventions" class="w-3 h-3" ${this.showInterventions ? 'checked' : ''}>
+        <div class="flex items-center gap-0.5">
+          ${INTERVENTION_TYPES.map(info => `<div class="w-1.5 h-1.5 rounded-full" style="background-color: ${info.color}" title="${info.label}"></div>`).join('')}
+        </div>
+        <div title="${INTERVENTION_TYPES.map(info => info.label).join(', ')}">Interventions</div>
+        ` : ''}
+
+        ${this.continuousDays ? `
+        <div></div>
+        <div class="flex items-center">
+          <div class="w-3 h-3 border border-[#444444] bg-[repeating-linear-gradient(135deg,#555555_0,#555555_2px,transparent_2px,transparent_4px)]"></div>
+        </div>
+        <div title="Trend lines are dashed across days without data">No data</div>
+        ` : ''}
+
         ${this.showPredictions ? `
         <div></div>
         <div class="flex items-center mt-2">
@@ -1505,10 +2279,35 @@ Note: ${record.note}`;
         <div>Predicted Sleep</div>
 
         <div></div>
-        <div class="flex items-center">
-          <div class="w-1.5 h-1.5 rounded-full border border-gray-400 mr-1"></div>
+        <div class="flex items-center">
+          <div class="w-1.5 h-1.5 rounded-full border border-gray-400 mr-1"></div>
+        </div>
+        <div>Predicted Wake</div>
+
+        <div></div>
+        <div class="flex items-center">
+          <div class="w-3 h-3 bg-[#FF00FF]/20 mr-0.5"></div>
+          <div class="w-3 h-3 bg-[#00FFFF]/20"></div>
+        </div>
+        <div>Likely range (80%)</div>
+        ` : ''}
+
+        ${this.targetSchedule ? `
+        <div></div>
+        <div class="flex items-center">
+          <div class="w-3 h-3 bg-[#22C55E]/10 border-y border-[#22C55E]/40"></div>
+        </div>
+        <div title="Target sleep window, the strip above each date shows that day's deviation">Target</div>
+        ` : ''}
+
+        ${this.getEntrainmentPlan() ? `
+        <div></div>
+        <div class="flex items-center gap-0.5">
+          <div class="w-3 h-3 border border-dashed border-[#22C55E] bg-[#22C55E]/20 rounded-sm"></div>
+          <div class="w-1.5 h-1.5 rounded-full border border-[#A855F7]"></div>
+          <div class="w-1.5 h-1.5 rounded-full border border-[#FACC15]"></div>
         </div>
-        <div>Predicted Wake</div>
+        <div title="Expected sleep when following the plan, with the suggested melatonin and light times">Planned</div>
         ` : ''}
       </div>
     `;
@@ -1530,6 +2329,21 @@ Note: ${record.note}`;
     sleepBlocksCheckbox?.addEventListener('change', () => {
       this.setShowSleepBlocks(sleepBlocksCheckbox.checked);
     });
+
+    const sleepDebtCheckbox = legendContainer.querySelector('#show-sleep-debt') as HTMLInputElement;
+    sleepDebtCheckbox.addEventListener('change', () => {
+      this.setShowSleepDebt(sleepDebtCheckbox.checked);
+    });
+
+    const episodesCheckbox = legendContainer.querySelector('#show-episodes') as HTMLInputElement;
+    episodesCheckbox.addEventListener('change', () => {
+      this.setShowEpisodes(episodesCheckbox.checked);
+    });
+
+    const interventionsCheckbox = legendContainer.querySelector('#show-interventions') as HTMLInputElement | null;
+    interventionsCheckbox?.addEventListener('change', () => {
+      this.setShowInterventions(interventionsCheckbox.checked);
+    });
   }
 
   private showError(message: string) {
@@ -1550,51 +2364,50 @@ Note: ${record.note}`;
     const xAxis = this.querySelector('.x-axis');
     if (!xAxis || this.sleepData.length === 0) return;
 
+    // The row-based views label both axes from their rows
+    if (this.displayMode !== 'standard') {
+      this.renderActogramAxes();
+      return;
+    }
+
     // Clear existing labels
     xAxis.innerHTML = '';
 
-    // Filter data based on maxEntries setting
-    const filteredData = this.maxEntries > 0
-      ? [...this.sleepData].slice(-this.maxEntries)
-      : this.sleepData;
-
-    // Generate predictions if enabled
-    const predictedEntries = this.showPredictions ? this.generatePredictions() : [];
-
-    // Combine real and predicted data
-    const combinedData = [...filteredData, ...predictedEntries];
-
-    // Group entries by date (day)
-    const entriesByDay = new Map<string, number[]>();
-    const uniqueDates: string[] = [];
+    // Same day columns as the sleep blocks
+    const { combinedData, entriesByDay, dates: uniqueDates } = this.getDayColumns();
 
-    combinedData.forEach((record, index) => {
-      const sleepTime = new Date(record.sleep);
-
-      // Get date string (without time) for grouping
-      const dateStr = sleepTime.toISOString().split('T')[0];
-
-      if (!entriesByDay.has(dateStr)) {
-        entriesByDay.set(dateStr, []);
-        uniqueDates.push(dateStr);
-      }
-      entriesByDay.get(dateStr)?.push(index);
-    });
-
-    // Sort dates chronologically
-    uniqueDates.sort();
+    const mainSleepByDate = this.getMainSleepsByDate(combinedData);
 
     // For large datasets, only show labels for every 5th day
     const labelInterval = uniqueDates.length > 30 ? 5 : 1;
 
-    // Create labels for selected days
+    // Create labels for selected days, and the tag markers of every day
     uniqueDates.forEach((dateStr, dayIndex) => {
+      const dayRecords = (entriesByDay.get(dateStr) ?? [])
+        .map(index => combinedData[index])
+        .filter(record => !('isPredicted' in record && record.isPredicted));
+      const tagMarkers = this.createTagMarkers(dayRecords);
+      if (tagMarkers) {
+        tagMarkers.classList.add('top-1', 'flex-col', '-translate-x-1/2');
+        tagMarkers.style.left = `${((dayIndex + 0.5) / uniqueDates.length) * 100}%`;
+        xAxis.appendChild(tagMarkers);
+      }
+
+      // Deviation of the day's main sleep (real or predicted) from the target
+      const mainSleep = mainSleepByDate.get(dateStr);
+      if (this.targetSchedule && mainSleep) {
+        const deviationMarker = this.createTargetDeviationMarker(mainSleep);
+        deviationMarker.style.left = `${(dayIndex / uniqueDates.length) * 100}%`;
+        deviationMarker.style.width = `${100 / uniqueDates.length}%`;
+        xAxis.appendChild(deviationMarker);
+      }
+
       if (dayIndex % labelInterval !== 0 && dayIndex !== uniqueDates.length - 1) return;
 
       const date = new Date(dateStr);
       const dayLabel = document.createElement('div');
       dayLabel.className = 'x-axis-label absolute bottom-2 text-[#cccccc] text-xs transform -translate-x-1/2';
-      dayLabel.textContent = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+      dayLabel.textContent = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
 
       // Position label
       const position = ((dayIndex + 0.5) / uniqueDates.length) * 100;
@@ -1604,256 +2417,955 @@ Note: ${record.note}`;
     });
   }
 
-  private renderSleepBlocks() {
-    const sleepBlocksContainer = this.querySelector('.sleep-blocks');
-    if (!sleepBlocksContainer || this.sleepData.length === 0) return;
+  /**
+   * Converts a time range into vertical spans (percent of the chart height) within a day column
+   * Ranges crossing the day boundary are split in two, ranges of a day or longer fill the whole column
+   * @param start Start of the range
+   * @param end End of the range
+   */
+  private getVerticalSpans(start: Date, end: Date): { top: number, height: number }[] {
+    const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+    if (durationHours >= 24) return [{ top: 0, height: 100 }];
+    if (durationHours <= 0) return [];
+
+    // Adjust hours based on day start hour
+    const startHour = (start.getHours() + start.getMinutes() / 60 - this.dayStartHour + 24) % 24;
+    const top = (startHour / 24) * 100;
+    const height = (durationHours / 24) * 100;
+
+    if (top + height <= 100) return [{ top, height }];
+    return [
+      { top, height: 100 - top },
+      { top: 0, height: top + height - 100 }
+    ];
+  }
 
-    // Clear existing blocks
-    sleepBlocksContainer.innerHTML = '';
+  /**
+   * Adds the shaded likely ranges of a predicted entry's sleep and wake times to its day column
+   * @param container Element to add the bands to
+   * @param record The predicted entry
+   * @param left Left position of the day column (percent)
+   * @param width Width of the day column (percent)
+   */
+  private appendPredictionBands(container: Element, record: PredictedSleepRecord, left: number, width: number) {
+    const bands = [
+      { range: record.sleepRange, color: 'bg-[#FF00FF]/20' },
+      { range: record.wakeRange, color: 'bg-[#00FFFF]/20' }
+    ];
+
+    bands.forEach(({ range, color }) => {
+      if (!range) return;
+
+      this.getVerticalSpans(new Date(range.earliest), new Date(range.latest)).forEach(span => {
+        const band = document.createElement('div');
+        band.className = `prediction-band absolute pointer-events-none ${color}`;
+        band.style.top = `${span.top}%`;
+        band.style.height = `${span.height}%`;
+        band.style.left = `${left}%`;
+        band.style.width = `${width}%`;
+        container.appendChild(band);
+      });
+    });
+  }
 
-    // Always render trend lines, even if sleep blocks are hidden
-    // This ensures trend lines are still visible when sleep blocks are toggled off
-    this.renderTrendLines();
+  /**
+   * Rows of the double-plotted and natural-cycle views, for the entries of getDayColumns
+   * Natural cycles are counted from the wake time the predictions start from, which is CT0
+   */
+  private getActogramLayout(): ActogramLayout {
+    return this.cached('actogram-layout', () => {
+      const { combinedData } = this.getDayColumns();
+      if (this.displayMode === 'natural-cycle') {
+        const period = this.getNaturalCycleLength();
+        const wakeTime = this.getCycleModel()?.lastWakeTime ?? Date.now();
+        const reference = wakeTime + (CYCLE_START_CT / 24) * period;
+        return { rowStarts: getCycleRowStarts(combinedData, reference, period, this.continuousDays), span: period, period };
+      }
 
-    // If sleep blocks are hidden, don't render them
-    if (!this.showSleepBlocks) return;
+      return {
+        rowStarts: getActogramRowStarts(combinedData, this.dayStartHour, this.continuousDays),
+        span: DOUBLE_PLOT_SPAN,
+        period: 24 * 60 * 60 * 1000
+      };
+    });
+  }
+
+  /**
+   * Cycle length of the natural-cycle view: entered by hand, or the cycle used by the predictions
+   */
+  private getNaturalCycleLength(): number {
+    return this.manualCycleLength ?? this.getCycleModel()?.cycleLength ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Circadian time (0-24) of a position along a row of the natural-cycle view
+   * @param offset Position along the row (percent)
+   */
+  private getCircadianTime(offset: number): number {
+    return (CYCLE_START_CT + (offset / 100) * 24) % 24;
+  }
+
+  /**
+   * Renders the axes of the row-based views
+   * With one column per day or cycle the X-axis shows the dates (the clock hours of the double plot's Y-axis are
+   * rendered by renderYAxis), with one row per day or cycle the X-axis shows the time and the Y-axis the dates
+   */
+  private renderActogramAxes() {
+    const xAxis = this.querySelector('.x-axis');
+    const yAxis = this.querySelector('.y-axis');
+    if (!xAxis || !yAxis) return;
+
+    // Same rows and entries as the sleep blocks
+    const { visibleData } = this.getDayColumns();
+    const { rowStarts, period } = this.getActogramLayout();
 
-    // Filter data based on maxEntries setting
-    const filteredData = this.maxEntries > 0
-      ? [...this.sleepData].slice(-this.maxEntries)
-      : this.sleepData;
+    // For large datasets, only show labels for every 5th day
+    const labelInterval = rowStarts.length > 30 ? 5 : 1;
+    const dateLabels = rowStarts
+      .map((rowStart, rowIndex) => ({
+        text: new Date(rowStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+        position: ((rowIndex + 0.5) / rowStarts.length) * 100
+      }))
+      .filter((_, rowIndex) => rowIndex % labelInterval === 0 || rowIndex === rowStarts.length - 1);
+
+    // Circadian time every 2 circadian hours, or clock time every 3 hours over the 48h of the double plot
+    const timeLabels = this.displayMode === 'natural-cycle'
+      ? Array.from({ length: 12 }, (_, i) => i * 2).map(offsetHours => ({
+        text: `CT${(CYCLE_START_CT + offsetHours) % 24}`,
+        position: (offsetHours / 24) * 100
+      }))
+      : Array.from({ length: 16 }, (_, i) => i * 3).map(offsetHours => ({
+        text: `${((this.dayStartHour + offsetHours) % 24).toString().padStart(2, '0')}:00`,
+        position: (offsetHours / 48) * 100
+      }));
+
+    const xLabel = (label: { text: string, position: number }) =>
+      `<div class="x-axis-label absolute bottom-2 text-[#cccccc] text-xs transform -translate-x-1/2" style="left: ${label.position}%">${label.text}</div>`;
+    const yLabel = (label: { text: string, position: number }) =>
+      `<div class="absolute left-0 w-full text-center text-[#cccccc] text-xs" style="top: ${label.position === 0 ? 'calc(0% + 4px)' : `${label.position}%`}">${label.text}</div>`;
+
+    // Real entries of each row, for the tag markers
+    const recordsByRow = new Map<number, SleepRecord[]>();
+    visibleData.forEach(record => {
+      const rowIndex = findRowIndex(rowStarts, period, new Date(record.sleep).getTime());
+      if (rowIndex === -1) return;
+      const rowRecords = recordsByRow.get(rowIndex);
+      if (rowRecords) rowRecords.push(record);
+      else recordsByRow.set(rowIndex, [record]);
+    });
+
+    // Tag markers of every row, next to the date labels
+    const addTagMarkers = (dateAxis: Element) => recordsByRow.forEach((rowRecords, rowIndex) => {
+      const tagMarkers = this.createTagMarkers(rowRecords);
+      if (!tagMarkers) return;
+
+      const position = `${((rowIndex + 0.5) / rowStarts.length) * 100}%`;
+      if (this.plotOrientation === 'vertical') {
+        tagMarkers.classList.add('top-1', 'flex-col', '-translate-x-1/2');
+        tagMarkers.style.left = position;
+      } else {
+        tagMarkers.classList.add('right-1', '-translate-y-1/2');
+        tagMarkers.style.top = position;
+      }
+      dateAxis.appendChild(tagMarkers);
+    });
+
+    if (this.plotOrientation === 'vertical') {
+      xAxis.innerHTML = dateLabels.map(xLabel).join('');
+      addTagMarkers(xAxis);
+      if (this.displayMode === 'natural-cycle') {
+        yAxis.innerHTML = timeLabels.map(yLabel).join('');
+      }
+      return;
+    }
+
+    // Time along the X-axis, dates down the Y-axis
+    xAxis.innerHTML = timeLabels.map(xLabel).join('');
+    yAxis.innerHTML = dateLabels.map(label =>
+      `<div class="absolute left-0 w-full text-center text-[#cccccc] text-xs transform -translate-y-1/2" style="top: ${label.position}%">${label.text}</div>`
+    ).join('');
+    addTagMarkers(yAxis);
+  }
+
+  /**
+   * Positions an element of the row-based views
+   * @param element The element to position
+   * @param rowIndex Index of the day's or cycle's row
+   * @param rowSize Size of a row (percent of the chart)
+   * @param segment Position along the row's time axis
+   */
+  private positionActogramElement(element: HTMLElement, rowIndex: number, rowSize: number, segment: ActogramSegment) {
+    const box = this.getActogramBox(rowIndex, rowSize, segment);
+    element.style.left = `${box.left}%`;
+    element.style.width = `${box.width}%`;
+    element.style.top = `${box.top}%`;
+    element.style.height = `${box.height}%`;
+  }
 
-    // Generate predictions if enabled
-    const predictedEntries = this.showPredictions ? this.generatePredictions() : [];
+  /**
+   * Position of a part of a row in the row-based views (percent of the chart)
+   * @param rowIndex Index of the day's or cycle's row
+   * @param rowSize Size of a row (percent of the chart)
+   * @param segment Position along the row's time axis
+   */
+  private getActogramBox(rowIndex: number, rowSize: number, segment: ActogramSegment): { left: number, top: number, width: number, height: number } {
+    return this.plotOrientation === 'vertical'
+      ? { left: rowIndex * rowSize, width: rowSize, top: segment.offset, height: segment.length }
+      : { left: segment.offset, width: segment.length, top: rowIndex * rowSize, height: rowSize };
+  }
 
-    // Combine real and predicted data
-    const combinedData = [...filteredData, ...predictedEntries];
+  /**
+   * Lays out the sleep blocks of the row-based views
+   * In the double plot each row covers 48 hours from the start of its day, so an entry shows up in its own row and
+   * in the second half of the previous row. In the natural-cycle view each row covers one cycle.
+   * Blocks are clipped at the row edges instead of wrapping. The rows an entry shows up in are found by binary search.
+   * @param container Element to add the no-data markers and the prediction bands to
+   * @param combinedData Visible real entries followed by the predicted ones
+   * @param recordIndexOffset Offset between combinedData indices and sleepData indices
+   * @returns The blocks, for the canvas
+   */
+  private renderActogramBlocks(container: Element, combinedData: SleepRecord[], recordIndexOffset: number): ChartBlock[] {
+    const { rowStarts, span, period } = this.getActogramLayout();
+    const rowSize = 100 / rowStarts.length;
+    const mainSleepIndices = this.getMainSleepIndices(combinedData);
+
+    // Mark the rows (continuous mode) that don't start any entry
+    const rowsWithEntries = new Set(combinedData.map(record => findRowIndex(rowStarts, period, new Date(record.sleep).getTime())));
+    rowStarts.forEach((rowStart, rowIndex) => {
+      if (rowsWithEntries.has(rowIndex)) return;
+
+      const marker = this.createNoDataMarker(new Date(rowStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }));
+      this.positionActogramElement(marker, rowIndex, rowSize, { offset: 0, length: 100 });
+      container.appendChild(marker);
+    });
 
-    // Group entries by date (day)
-    const entriesByDay = new Map<string, number[]>();
-    const uniqueDates: string[] = [];
+    // Main sleeps of the real entries and their days, for the drift shown in the tooltips
+    const realMainSleeps = this.getMainSleeps(combinedData).filter(record => !('isPredicted' in record && record.isPredicted));
+    const mainSleepDays = realMainSleeps.map(record => this.getRecordDay(record));
+    let previousDays = 0; // Main sleeps on days before the current entry's, the real entries are in time order
 
+    const blocks: ChartBlock[] = [];
     combinedData.forEach((record, index) => {
-      const sleepTime = new Date(record.sleep);
+      const sleepTime = new Date(record.sleep).getTime();
+      const wakeTime = new Date(record.wake).getTime();
+      const isPredicted = Boolean('isPredicted' in record && record.isPredicted);
+      const isMainSleep = mainSleepIndices.has(index);
+
+      // Entries without the filtered tag are hidden, or dimmed so the matching ones stand out
+      const matchesFilter = this.matchesTagFilter(record);
+      if (!matchesFilter && this.tagFilterMode === 'hide') return;
+
+      // Previous day's main sleep, for the drift
+      let previousMainSleep: SleepRecord | null = null;
+      if (!isPredicted) {
+        const day = this.getRecordDay(record);
+        while (previousDays < mainSleepDays.length && mainSleepDays[previousDays] < day) previousDays++;
+        previousMainSleep = previousDays > 0 ? realMainSleeps[previousDays - 1] : null;
+      }
 
-      // Get date string (without time) for grouping
-      const dateStr = sleepTime.toISOString().split('T')[0];
+      // Shade the likely ranges of the predicted sleep and wake times
+      if (isPredicted) {
+        const { sleepRange, wakeRange } = record as PredictedSleepRecord;
+        const bands = [
+          { range: sleepRange, color: 'bg-[#FF00FF]/20' },
+          { range: wakeRange, color: 'bg-[#00FFFF]/20' }
+        ];
+
+        bands.forEach(({ range, color }) => {
+          if (!range) return;
+          const earliest = new Date(range.earliest).getTime();
+          const latest = new Date(range.latest).getTime();
+          const { first, last } = findOverlappingRows(rowStarts, span, earliest, latest);
+
+          for (let rowIndex = first; rowIndex < last; rowIndex++) {
+            const bandSegment = getActogramSegment(rowStarts[rowIndex], span, earliest, latest);
+            if (!bandSegment) continue;
+
+            const band = document.createElement('div');
+            band.className = `prediction-band absolute pointer-events-none ${color}`;
+            this.positionActogramElement(band, rowIndex, rowSize, bandSegment);
+            container.appendChild(band);
+          }
+        });
+      }
 
-      if (!entriesByDay.has(dateStr)) {
-        entriesByDay.set(dateStr, []);
-        uniqueDates.push(dateStr);
+      const { first, last } = findOverlappingRows(rowStarts, span, sleepTime, wakeTime);
+      for (let rowIndex = first; rowIndex < last; rowIndex++) {
+        const segment = getActogramSegment(rowStarts[rowIndex], span, sleepTime, wakeTime);
+        if (!segment) continue;
+
+        // Same styling as the standard view
+        blocks.push({
+          ...this.getActogramBox(rowIndex, rowSize, segment),
+          kind: this.getBlockKind(isMainSleep, isPredicted),
+          dimmed: !matchesFilter,
+          record,
+          recordIndex: isPredicted ? null : index + recordIndexOffset,
+          isMainSleep,
+          previousMainSleep,
+          rowStart: rowStarts[rowIndex],
+          rowSpan: span
+        });
       }
-      entriesByDay.get(dateStr)?.push(index);
     });
 
-    // Sort dates chronologically
-    uniqueDates.sort();
+    return blocks;
+  }
 
-    // Calculate block width based on number of unique days
-    const blockWidth = (100 / uniqueDates.length);
+  /**
+   * Generates the trend lines and dots of the row-based views
+   * The lines join the main sleeps of consecutive rows when they are less than 12 hours apart along the row, so
+   * they break instead of wrapping. In the double plot this draws one line per half.
+   */
+  private generateActogramTrendLines(): TrendLines {
+    // Same rows and entries as the sleep blocks
+    const { visibleData, combinedData } = this.getDayColumns();
+    const { rowStarts, span, period } = this.getActogramLayout();
+    const rowSize = 100 / rowStarts.length;
+    const mainSleepIndices = this.getMainSleepIndices(visibleData);
+    const isVertical = this.plotOrientation === 'vertical';
+
+    // SVG coordinates (percent) of a position along the time axis of a row
+    const toPoint = (rowIndex: number, offset: number) => isVertical
+      ? { x: (rowIndex + 0.5) * rowSize, y: offset }
+      : { x: offset, y: (rowIndex + 0.5) * rowSize };
+
+    // Every occurrence of a time in the rows
+    const findPoints = (time: string) => {
+      const timeMs = new Date(time).getTime();
+      const { first, last } = findOverlappingRows(rowStarts, span, timeMs, timeMs + 1);
+      return Array.from({ length: last - first }, (_, i) => {
+        const rowIndex = first + i;
+        const offset = ((timeMs - rowStarts[rowIndex]) / span) * 100;
+        return { rowIndex, offset, ...toPoint(rowIndex, offset) };
+      });
+    };
+
+    const maxJump = ((12 * 60 * 60 * 1000) / span) * 100; // 12 hours in percent of a row
+    const trendLines = (times: string[], color: string) => {
+      const points = times.flatMap(findPoints);
+      return points.flatMap(start => {
+        // Join the closest point in the next row that continues the line
+        // The line is dashed when days (or cycles) without data lie in between
+        const candidates = points.filter(end => end.rowIndex > start.rowIndex && Math.abs(end.offset - start.offset) < maxJump);
+        if (candidates.length === 0) return [];
+
+        const nextRowIndex = Math.min(...candidates.map(end => end.rowIndex));
+        const isGap = rowStarts[nextRowIndex] - rowStarts[start.rowIndex] > period * 1.5;
+        return candidates
+          .filter(end => end.rowIndex === nextRowIndex)
+          .map(end => `<line x1="${start.x}%" y1="${start.y}%" x2="${end.x}%" y2="${end.y}%" stroke="${color}" stroke-width="1" stroke-opacity="0.6" ${isGap ? 'stroke-dasharray="4,3"' : ''} />`);
+      }).join('');
+    };
+
+    const mainSleeps = this.getMainSleeps(visibleData);
+
+    // Shaded likely range of a predicted time, across the row like the standard view
+    const bandWidth = rowSize * 0.4;
+    const rangeBars = (range: PredictionRange | undefined, color: string) => {
+      if (!range) return '';
+      const earliest = new Date(range.earliest).getTime();
+      const latest = new Date(range.latest).getTime();
+      const { first, last } = findOverlappingRows(rowStarts, span, earliest, latest);
+      return Array.from({ length: last - first }, (_, i) => {
+        const rowIndex = first + i;
+        const segment = getActogramSegment(rowStarts[rowIndex], span, earliest, latest);
+        if (!segment) return '';
+
+        const center = (rowIndex + 0.5) * rowSize;
+        return isVertical
+          ? `<rect x="${center - bandWidth / 2}%" y="${segment.offset}%" width="${bandWidth}%" height="${segment.length}%" fill="${color}" fill-opacity="0.2" />`
+          : `<rect x="${segment.offset}%" y="${center - bandWidth / 2}%" width="${segment.length}%" height="${bandWidth}%" fill="${color}" fill-opacity="0.2" />`;
+      }).join('');
+    };
 
-    // For each day, find the longest sleep period (main sleep)
-    const mainSleepIndices: number[] = [];
+    // Boundary between day N and day N+1 of the double plot
+    const divider = this.displayMode !== 'double-plot' ? '' : isVertical
+      ? '<line x1="0%" y1="50%" x2="100%" y2="50%" stroke="#555555" stroke-width="1" stroke-dasharray="4,4" />'
+      : '<line x1="50%" y1="0%" x2="50%" y2="100%" stroke="#555555" stroke-width="1" stroke-dasharray="4,4" />';
 
-    entriesByDay.forEach((indices) => {
-      if (indices.length === 0) return;
+    // Dots of every entry in each row it shows up in: filled for the real entries, hollow and dashed for the predicted ones
+    const dots: PlacedMarker[] = [];
+    let predictionRanges = '';
+    combinedData.forEach((record, index) => {
+      const isPredicted = 'isPredicted' in record && record.isPredicted;
+      const isMainSleep = mainSleepIndices.has(index);
+      const dotSize = isPredicted || isMainSleep ? 3 : 2;
+
+      if (isPredicted) {
+        const { sleepRange, wakeRange } = record as PredictedSleepRecord;
+        if (this.showSleepTrendLines) predictionRanges += rangeBars(sleepRange, '#FF00FF');
+        if (this.showWakeTrendLines) predictionRanges += rangeBars(wakeRange, '#00FFFF');
+      }
+
+      const sleepStyle = isPredicted ? 'border: 1px dashed #FFFFFF' : `background-color: ${isMainSleep ? '#FF00FF' : '#FF99FF'}`;
+      const wakeStyle = isPredicted ? 'border: 1px dashed #AAAAAA' : `background-color: ${isMainSleep ? '#00FFFF' : '#99FFFF'}`;
+      if (this.showSleepTrendLines) findPoints(record.sleep).forEach(point => dots.push(this.createTrendDot(point.x, point.y, dotSize, sleepStyle)));
+      if (this.showWakeTrendLines) findPoints(record.wake).forEach(point => dots.push(this.createTrendDot(point.x, point.y, dotSize, wakeStyle)));
+    });
+
+    return {
+      svg: `
+        <svg width="100%" height="100%" preserveAspectRatio="xMidYMid meet">
+          ${divider}
+
+          <!-- Sleep and wake time connection lines -->
+          ${this.showSleepTrendLines ? trendLines(mainSleeps.map(record => record.sleep), '#FF00FF') : ''}
+          ${this.showWakeTrendLines ? trendLines(mainSleeps.map(record => record.wake), '#00FFFF') : ''}
+
+          <!-- Likely ranges of the predicted entries -->
+          ${predictionRanges}
+        </svg>
+      `,
+      dots
+    };
+  }
 
-      // If only one entry for the day, it's the main sleep
-      if (indices.length === 1) {
-        mainSleepIndices.push(indices[0]);
+  /**
+   * Maps time ranges to the day columns (or rows) of the sleep blocks, for the layers drawn over them
+   * @returns Function calling `place` with the position of each column (or row) part of a range
+   */
+  private createGridPlacer(): (start: number, end: number, place: (cross: { start: number, size: number }, along: ActogramSegment, timeAlongY: boolean) => void) => void {
+    // Same days (or cycles) as the sleep blocks: day columns of the standard view, rows of the other views
+    const { dates, dayIndices } = this.getDayColumns();
+    const blockWidth = 100 / dates.length;
+    const { rowStarts, span } = this.getActogramLayout();
+    const rowSize = 100 / rowStarts.length;
+
+    return (start, end, place) => {
+      if (this.displayMode === 'standard') {
+        const dayIndex = dayIndices.get(getSleepDay(start, this.dayStartHour));
+        if (dayIndex === undefined) return;
+
+        this.getVerticalSpans(new Date(start), new Date(end)).forEach(span => {
+          place({ start: dayIndex * blockWidth, size: blockWidth }, { offset: span.top, length: span.height }, true);
+        });
         return;
       }
 
-      // Find the longest sleep period for this day
-      let longestDuration = 0;
-      let longestIndex = indices[0];
+      const { first, last } = findOverlappingRows(rowStarts, span, start, end);
+      for (let rowIndex = first; rowIndex < last; rowIndex++) {
+        const segment = getActogramSegment(rowStarts[rowIndex], span, start, end);
+        if (segment) place({ start: rowIndex * rowSize, size: rowSize }, segment, this.plotOrientation === 'vertical');
+      }
+    };
+  }
 
-      indices.forEach(index => {
-        const record = combinedData[index];
-        const sleepTime = new Date(record.sleep);
-        const wakeTime = new Date(record.wake);
+  /**
+   * Renders the target sleep window as a band behind the sleep blocks
+   * The standard view has the same band in every column, the row-based views repeat it every 24 hours along the rows
+   * (so it drifts across the rows of the natural-cycle view)
+   * @param container Element to add the band to
+   */
+  private renderTargetBand(container: Element) {
+    if (!this.targetSchedule) return;
+
+    const windowLength = getTargetWindowLength(this.targetSchedule);
+    const createBand = () => {
+      const band = document.createElement('div');
+      band.className = 'target-band absolute pointer-events-none bg-[#22C55E]/10 border-[#22C55E]/40';
+      band.classList.add(this.displayMode === 'standard' || this.plotOrientation === 'vertical' ? 'border-y' : 'border-x');
+      return band;
+    };
 
-        let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
-        let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
-        if (wakeHour < sleepHour) wakeHour += 24; // Handle overnight sleep
-        const duration = wakeHour - sleepHour;
+    if (this.displayMode === 'standard') {
+      const start = new Date();
+      start.setHours(0, this.targetSchedule.sleepMinutes, 0, 0);
+      this.getVerticalSpans(start, new Date(start.getTime() + windowLength)).forEach(span => {
+        const band = createBand();
+        band.style.left = '0';
+        band.style.width = '100%';
+        band.style.top = `${span.top}%`;
+        band.style.height = `${span.height}%`;
+        container.appendChild(band);
+      });
+      return;
+    }
 
-        if (duration > longestDuration) {
-          longestDuration = duration;
-          longestIndex = index;
-        }
+    // Same rows as the sleep blocks
+    const { rowStarts, span } = this.getActogramLayout();
+    const rowSize = 100 / rowStarts.length;
+
+    rowStarts.forEach((rowStart, rowIndex) => {
+      // Every target window overlapping the row, starting from the day before the row
+      const day = new Date(rowStart);
+      day.setHours(0, 0, 0, 0);
+      day.setDate(day.getDate() - 1);
+
+      for (; day.getTime() < rowStart + span; day.setDate(day.getDate() + 1)) {
+        const start = new Date(day);
+        start.setHours(0, (this.targetSchedule as TargetWindow).sleepMinutes, 0, 0);
+        const segment = getActogramSegment(rowStart, span, start.getTime(), start.getTime() + windowLength);
+        if (!segment) continue;
+
+        const band = createBand();
+        this.positionActogramElement(band, rowIndex, rowSize, segment);
+        container.appendChild(band);
+      }
+    });
+  }
+
+  /**
+   * Label and colour of each kind of episode
+   */
+  private getEpisodeStyle(kind: EpisodeKind): { label: string, color: string } {
+    switch (kind) {
+      case 'free-running': return { label: 'Free-running', color: '#C084FC' };
+      case 'entrained': return { label: 'Entrained', color: '#60A5FA' };
+      case 'irregular': return { label: 'Irregular', color: '#9CA3AF' };
+    }
+  }
+
+  /**
+   * Splits the whole log into free-running, entrained and irregular episodes
+   */
+  private getEpisodes(): SleepEpisode[] {
+    return this.cached('episodes', () => detectEpisodes(this.getMainSleepEntries(this.sleepData)));
+  }
+
+  /**
+   * Formats the kind of an episode with its period (e.g. "Free-running, tau 24h 48m")
+   */
+  private formatEpisode(episode: SleepEpisode): string {
+    const { label } = this.getEpisodeStyle(episode.kind);
+    if (!episode.estimate || episode.kind === 'irregular') return label;
+
+    const totalMinutes = Math.round(episode.estimate.tau / (60 * 1000));
+    return `${label}, tau ${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`;
+  }
+
+  /**
+   * Shades the episodes of the log behind the sleep blocks, with a label where each one starts
+   * The standard view shades the day columns from the first to the last main sleep of the episode, the row-based views
+   * the rows the episode overlaps.
+   * @param container Element to add the shading to
+   */
+  private renderEpisodes(container: Element) {
+    if (!this.showEpisodes) return;
+
+    const episodes = this.getEpisodes();
+    if (episodes.length === 0) return;
+
+    const createShade = (episode: SleepEpisode, labelled: boolean) => {
+      const { color } = this.getEpisodeStyle(episode.kind);
+      const shade = document.createElement('div');
+      shade.className = 'episode-shade absolute pointer-events-none';
+      shade.style.backgroundColor = `${color}14`;
+      if (labelled) {
+        shade.innerHTML = `<div class="absolute top-0 left-0.5 text-[10px] whitespace-nowrap" style="color: ${color}">${this.formatEpisode(episode)}</div>`;
+      }
+      return shade;
+    };
+
+    // Same days (or rows) as the sleep blocks
+    if (this.displayMode === 'standard') {
+      const { dates } = this.getDayColumns();
+      const blockWidth = 100 / dates.length;
+
+      episodes.forEach(episode => {
+        const first = getSleepDay(episode.start, this.dayStartHour);
+        const last = getSleepDay(episode.lastOnset, this.dayStartHour);
+        const startIndex = dates.findIndex(date => date >= first);
+        const endIndex = dates.filter(date => date <= last).length - 1;
+        if (startIndex === -1 || endIndex < startIndex) return;
+
+        // The label only goes on the episode's own first day, not on an episode that started before the visible range
+        const shade = createShade(episode, dates[startIndex] === first);
+        shade.style.left = `${startIndex * blockWidth}%`;
+        shade.style.width = `${(endIndex - startIndex + 1) * blockWidth}%`;
+        shade.style.top = '0';
+        shade.style.height = '100%';
+        container.appendChild(shade);
+      });
+      return;
+    }
+
+    const { rowStarts, span } = this.getActogramLayout();
+    const rowSize = 100 / rowStarts.length;
+
+    episodes.forEach(episode => {
+      let labelled = false;
+      rowStarts.forEach((rowStart, rowIndex) => {
+        if (rowStart + span <= episode.start || rowStart > episode.lastOnset) return;
+
+        const shade = createShade(episode, !labelled && rowStart <= episode.start);
+        labelled = true;
+        this.positionActogramElement(shade, rowIndex, rowSize, { offset: 0, length: 100 });
+        container.appendChild(shade);
+      });
+    });
+  }
+
+  /**
+   * Renders the sleep debt curve over the day columns of the standard view, with the recovery periods shaded
+   * The curve is scaled to the largest visible debt and drawn in the lower part of the chart, surpluses sit on the
+   * bottom edge. The row-based views have no day columns to draw it on.
+   * @param container Element to add the overlay to
+   */
+  private renderSleepDebt(container: Element) {
+    if (!this.showSleepDebt || this.displayMode !== 'standard') return;
+
+    // Same day columns as the sleep blocks
+    const { dates, dayIndices } = this.getDayColumns();
+    const blockWidth = 100 / dates.length;
+
+    const { days, recoveries } = this.getSleepDebt();
+    const visibleDays = days
+      .map(day => ({ ...day, dayIndex: dayIndices.get(day.date) ?? -1 }))
+      .filter(day => day.dayIndex !== -1);
+    if (visibleDays.length === 0) return;
+
+    const overlay = document.createElement('div');
+    overlay.className = 'sleep-debt-overlay absolute inset-0 z-[6] pointer-events-none';
+
+    // Recovery periods, as bands over their days
+    const recoveryBands = recoveries.map(recovery => {
+      const startIndex = dayIndices.get(recovery.start);
+      const endIndex = dayIndices.get(recovery.end);
+      if (startIndex === undefined || endIndex === undefined) return '';
+
+      // No tooltip, the bands must not catch the clicks meant for the sleep blocks below
+      return `<rect x="${startIndex * blockWidth}%" y="0" width="${(endIndex - startIndex + 1) * blockWidth}%" height="100%" fill="#38BDF8" fill-opacity="0.08" />`;
+    }).join('');
+
+    // Curve in the lower 80% of the chart, the largest visible debt at the top of that range
+    const maxDebt = Math.max(...visibleDays.map(day => day.balance), 60 * 60 * 1000);
+    const point = (day: typeof visibleDays[number]) => ({
+      x: (day.dayIndex + 0.5) * blockWidth,
+      y: 100 - (Math.max(day.balance, 0) / maxDebt) * 80
+    });
+
+    const segments = visibleDays.slice(1).map((day, index) => {
+      const start = point(visibleDays[index]);
+      const end = point(day);
+      // Days without entries in between are bridged with a dashed segment
+      const dashed = day.dayIndex - visibleDays[index].dayIndex > 1 ? 'stroke-dasharray="4,3"' : '';
+      return `<line x1="${start.x}%" y1="${start.y}%" x2="${end.x}%" y2="${end.y}%" stroke="#F97316" stroke-width="1.5" ${dashed} />`;
+    }).join('');
+
+    const dots = visibleDays.map(day => {
+      const { x, y } = point(day);
+      return `<circle cx="${x}%" cy="${y}%" r="2.5" fill="#F97316" style="pointer-events: auto">
+        <title>${day.date}
+Slept: ${this.formatDuration(day.total)}
+Sleep debt (${this.debtWindowDays} days): ${this.formatDebt(day.balance)}${recoveries.some(recovery => recovery.start <= day.date && day.date <= recovery.end) ? ' (recovering)' : ''}</title>
+      </circle>`;
+    }).join('');
+
+    overlay.innerHTML = `<svg width="100%" height="100%">${recoveryBands}${segments}${dots}</svg>`;
+    container.appendChild(overlay);
+  }
+
+  /**
+   * Renders the interventions in the same day/hour grid as the sleep blocks
+   * Sessions with a duration are drawn as bars and single doses as dots, on the right side of their day's column
+   * (or row), so they don't hide the sleep blocks. The markers are only created once they are in view (see MarkerLayer).
+   * @param container Element to add the marker layer to
+   */
+  private renderInterventions(container: Element) {
+    if (!this.showInterventions || this.interventions.length === 0) return;
+
+    const placeOnGrid = this.createGridPlacer();
+    const timesToSleep = getTimesToNextSleep(this.interventions, this.sleepData);
+    const markers: PlacedMarker[] = [];
+
+    this.interventions.forEach((intervention, index) => {
+      const start = new Date(intervention.time).getTime();
+      if (isNaN(start)) return;
+
+      // Single doses are placed at their time, sessions cover their duration
+      const isSession = intervention.duration !== null && intervention.duration > 0;
+      const end = isSession ? start + (intervention.duration as number) * 60 * 1000 : start + 1;
+
+      placeOnGrid(start, end, (cross, along, timeAlongY) => {
+        const [left, width, top, height] = timeAlongY
+          ? [cross.start, cross.size, along.offset, along.length]
+          : [along.offset, along.length, cross.start, cross.size];
+        markers.push({
+          left, top, width, height,
+          create: () => {
+            const marker = this.createInterventionMarker(intervention, index, isSession, timesToSleep[index]);
+            this.positionInterventionMarker(marker, cross, along, timeAlongY, isSession);
+            return marker;
+          }
+        });
+      });
+    });
+
+    const layer = document.createElement('marker-layer') as MarkerLayer;
+    container.appendChild(layer);
+    layer.setMarkers(markers);
+  }
+
+  /**
+   * Renders the entrainment plan over the predictions: the expected sleep when following the plan as a dashed
+   * outline on the left side of the day's column (or row), and the suggested melatonin and light times as hollow dots
+   * @param container Element to add the markers to
+   */
+  private renderEntrainmentPlan(container: Element) {
+    const plan = this.getEntrainmentPlan();
+    if (!plan) return;
+
+    const placeOnGrid = this.createGridPlacer();
+    const formatTime = (time: number) => new Date(time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+    const formatDay = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+    plan.days.forEach((day, index) => {
+      const status = plan.daysToTarget !== null && index >= plan.daysToTarget ? 'at the target' : `${formatDrift(day.error)} from the target`;
+
+      placeOnGrid(day.sleep, day.wake, (cross, along, timeAlongY) => {
+        const block = document.createElement('div');
+        block.className = 'planned-sleep absolute z-[4] border border-dashed border-[#22C55E] bg-[#22C55E]/20 rounded-sm';
+        const [crossPosition, crossSize, alongPosition, alongSize] = timeAlongY
+          ? ['left', 'width', 'top', 'height'] as const
+          : ['top', 'height', 'left', 'width'] as const;
+        block.style[crossPosition] = `${cross.start + cross.size * 0.1}%`;
+        block.style[crossSize] = `${cross.size * 0.35}%`;
+        block.style[alongPosition] = `${along.offset}%`;
+        block.style[alongSize] = `${along.length}%`;
+        block.title = `PLANNED SLEEP
+${formatDay(day.sleep)} ${formatTime(day.sleep)} - ${formatTime(day.wake)}
+Expected advance: ${formatDrift(day.shift)}, ${status}`;
+        container.appendChild(block);
       });
 
-      mainSleepIndices.push(longestIndex);
+      const suggestions = [
+        { time: day.melatonin, type: 'melatonin' as const, label: 'Take 0.5 mg melatonin' },
+        { time: day.light, type: 'light' as const, label: 'Start 30-60 min of bright light' }
+      ];
+      suggestions.forEach(({ time, type, label }) => {
+        if (time === null) return;
+        placeOnGrid(time, time + 1, (cross, along, timeAlongY) => {
+          const marker = document.createElement('div');
+          marker.className = 'planned-intervention absolute z-[5] w-1.5 h-1.5 rounded-full border-2 bg-transparent';
+          marker.style.borderColor = getInterventionTypeInfo(type).color;
+          marker.title = `PLANNED: ${label}
+${formatDay(time)} ${formatTime(time)}`;
+          this.positionInterventionMarker(marker, cross, along, timeAlongY, false);
+          container.appendChild(marker);
+        });
+      });
     });
+  }
+
+  /**
+   * Creates the marker of an intervention, with its timing relative to the next sleep onset in the tooltip
+   * @param index Index of the intervention, used to open it for editing
+   * @param isSession Whether the intervention is drawn as a bar (with a duration) rather than a dot
+   * @param timeToSleep Time until the next sleep onset (see getTimesToNextSleep)
+   */
+  private createInterventionMarker(intervention: Intervention, index: number, isSession: boolean, timeToSleep: number | null): HTMLElement {
+    const marker = document.createElement('div');
+    marker.className = `intervention-marker absolute z-[5] pointer-events-auto cursor-pointer border border-black/60 hover:border-white ${isSession ? 'rounded-sm' : 'w-1.5 h-1.5 rounded-full'}`;
+    marker.style.backgroundColor = getInterventionTypeInfo(intervention.type).color;
+    marker.dataset.interventionIndex = index.toString();
+
+    const time = new Date(intervention.time);
+    const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+    const timing = timeToSleep === null
+      ? 'No sleep logged in the following 24h'
+      : `${this.formatDuration(timeToSleep)} before the next sleep onset`;
+
+    marker.title = `${describeIntervention(intervention)}
+Time: ${time.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} ${formatTime(time)}
+${timing}${intervention.note ? `\nNote: ${intervention.note}` : ''}`;
+    return marker;
+  }
+
+  /**
+   * Positions an intervention marker in a day column (or row)
+   * @param cross Position of the column across the time axis (percent)
+   * @param along Position along the time axis (percent)
+   * @param timeAlongY Whether time runs down the chart (columns) rather than to the right (rows)
+   * @param isSession Whether the marker is a bar covering the duration, or a dot at the time
+   */
+  private positionInterventionMarker(marker: HTMLElement, cross: { start: number, size: number }, along: ActogramSegment, timeAlongY: boolean, isSession: boolean) {
+    const [crossPosition, crossSize, alongPosition, alongSize] = timeAlongY
+      ? ['left', 'width', 'top', 'height'] as const
+      : ['top', 'height', 'left', 'width'] as const;
+
+    if (isSession) {
+      marker.style[crossPosition] = `${cross.start + cross.size * 0.6}%`;
+      marker.style[crossSize] = `${cross.size * 0.35}%`;
+      marker.style[alongPosition] = `${along.offset}%`;
+      marker.style[alongSize] = `max(${along.length}%, 2px)`;
+    } else {
+      // Dots are centered on their time, 6px wide
+      marker.style[crossPosition] = `calc(${cross.start + cross.size * 0.775}% - 3px)`;
+      marker.style[alongPosition] = `calc(${along.offset}% - 3px)`;
+    }
+  }
+
+  /**
+   * Formats a duration as hours and minutes (e.g. "4h05m")
+   */
+  private formatDuration(ms: number): string {
+    const totalMinutes = Math.round(ms / (60 * 1000));
+    return `${Math.floor(totalMinutes / 60)}h${(totalMinutes % 60).toString().padStart(2, '0')}m`;
+  }
+
+  /**
+   * Creates the hatched marker of a day (or cycle) without entries, the caller positions it
+   * @param label Date shown in the tooltip
+   */
+  private createNoDataMarker(label: string): HTMLElement {
+    const marker = document.createElement('div');
+    marker.className = 'no-data-marker absolute bg-[repeating-linear-gradient(135deg,#2a2a2a_0,#2a2a2a_4px,transparent_4px,transparent_8px)]';
+    marker.title = `${label}: no data`;
+    return marker;
+  }
+
+  private renderSleepBlocks() {
+    const sleepBlocksContainer = this.querySelector('.sleep-blocks');
+    if (!sleepBlocksContainer || this.sleepData.length === 0) return;
+
+    // Clear existing layers, the block canvas is put back below when the blocks are shown
+    sleepBlocksContainer.innerHTML = '';
+    this.setHoveredBlock(null);
+
+    // Always render trend lines, even if sleep blocks are hidden
+    // This ensures trend lines are still visible when sleep blocks are toggled off
+    this.renderTrendLines();
+
+    // The episodes and the target band go below everything else
+    this.renderEpisodes(sleepBlocksContainer);
+    this.renderTargetBand(sleepBlocksContainer);
+
+    // Interventions have their own layer, shown even when the sleep blocks are hidden
+    this.renderSleepDebt(sleepBlocksContainer);
+    this.renderInterventions(sleepBlocksContainer);
+    this.renderEntrainmentPlan(sleepBlocksContainer);
+
+    // If sleep blocks are hidden, don't render them
+    if (!this.showSleepBlocks) return;
+
+    const { combinedData, recordIndexOffset, entriesByDay, dates: uniqueDates } = this.getDayColumns();
+
+    // The row-based views have their own layout
+    if (this.displayMode !== 'standard') {
+      this.mountBlockCanvas(sleepBlocksContainer, this.renderActogramBlocks(sleepBlocksContainer, combinedData, recordIndexOffset));
+      return;
+    }
+
+    // Calculate block width based on number of unique days
+    const blockWidth = (100 / uniqueDates.length);
+
+    // Entries of each day's main sleep (interrupted sleeps merged), and the main sleeps themselves for the drift
+    const mainSleepIndices = this.getMainSleepIndices(combinedData);
+    const mainSleepByDate = this.getMainSleepsByDate(combinedData);
 
-    // Create blocks for each sleep record, grouped by day
+    // Lay out the blocks for each sleep record, grouped by day
+    const blocks: ChartBlock[] = [];
     uniqueDates.forEach((dateStr, dayIndex) => {
       const indices = entriesByDay.get(dateStr) || [];
 
       // Calculate the left position for this day's column
       const left = dayIndex * blockWidth;
 
+      // Mark the days without entries (continuous mode) instead of leaving them blank
+      if (indices.length === 0) {
+        const marker = this.createNoDataMarker(new Date(dateStr).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' }));
+        marker.style.top = '0';
+        marker.style.height = '100%';
+        marker.style.left = `${left}%`;
+        marker.style.width = `${blockWidth}%`;
+        sleepBlocksContainer.appendChild(marker);
+        return;
+      }
+
+      // Previous day's main sleep, for the drift of the real entries
+      const previousMainSleep = dayIndex > 0 ? mainSleepByDate.get(uniqueDates[dayIndex - 1]) ?? null : null;
+
       // Process each sleep record for this day
       indices.forEach(index => {
         const record = combinedData[index];
-        const sleepTime = new Date(record.sleep);
-        const wakeTime = new Date(record.wake);
-
-        // Calculate position and size
-        let sleepHour = sleepTime.getHours() + sleepTime.getMinutes() / 60;
-        let wakeHour = wakeTime.getHours() + wakeTime.getMinutes() / 60;
-
-        // Adjust hours based on day start hour
-        sleepHour = (sleepHour - this.dayStartHour + 24) % 24;
-        wakeHour = (wakeHour - this.dayStartHour + 24) % 24;
-
-        // Handle sleep periods that cross the day boundary
-        let durationHours = wakeHour - sleepHour;
-        if (durationHours < 0) {
-          durationHours += 24;
-        }
-
-        const top = (sleepHour / 24) * 100;
-        const height = (durationHours / 24) * 100;
 
         // Check if this is a predicted entry
-        const isPredicted = 'isPredicted' in record && record.isPredicted;
+        const isPredicted = Boolean('isPredicted' in record && record.isPredicted);
 
         // Check if this is a main sleep period or a nap
-        const isMainSleep = mainSleepIndices.includes(index);
+        const isMainSleep = mainSleepIndices.has(index);
 
-        // Set styling based on whether it's predicted and main/nap
-        let bgColor, borderColor;
+        // Entries without the filtered tag are hidden, or dimmed so the matching ones stand out
+        const matchesFilter = this.matchesTagFilter(record);
+        if (!matchesFilter && this.tagFilterMode === 'hide') return;
 
+        // Shade the likely ranges of the predicted sleep and wake times
         if (isPredicted) {
-          // Predicted entries have transparent background with dashed border in monochrome
-          bgColor = 'bg-transparent';
-          borderColor = isMainSleep ? 'border-white border-dashed' : 'border-gray-400 border-dashed';
-        } else {
-          // Real entries have white background
-          bgColor = isMainSleep ? 'bg-white' : 'bg-white bg-opacity-70';
-          borderColor = isMainSleep ? 'border-[#444444]' : 'border-[#777777]';
+          this.appendPredictionBands(sleepBlocksContainer, record as PredictedSleepRecord, left, blockWidth);
         }
 
-        // Check if the block extends beyond the bottom of the chart
-        const exceedsBottom = top + height > 100;
-
-        if (exceedsBottom) {
-          // Create two blocks: one at the bottom and one wrapping to the top
-          const bottomHeight = 100 - top;
-          const topHeight = height - bottomHeight;
-
-          // Bottom part of the sleep block
-          const bottomBlock = document.createElement('div');
-          bottomBlock.className = `sleep-block absolute ${bgColor} border ${borderColor} rounded-sm`;
-          bottomBlock.style.top = `${top}%`;
-          bottomBlock.style.height = `${bottomHeight}%`;
-          bottomBlock.style.left = `${left}%`;
-          bottomBlock.style.width = `${blockWidth}%`;
-          bottomBlock.classList.add('hover:border-white', 'hover:shadow-lg', 'hover:z-10');
-          // Make tooltip show up faster
-          bottomBlock.dataset.bsToggle = 'tooltip';
-
-          // Top part of the sleep block (wrapped)
-          const topBlock = document.createElement('div');
-          topBlock.className = `sleep-block absolute ${bgColor} border ${borderColor} rounded-sm`;
-          topBlock.style.top = '0';
-          topBlock.style.height = `${topHeight}%`;
-          topBlock.style.left = `${left}%`;
-          topBlock.style.width = `${blockWidth}%`;
-          topBlock.classList.add('hover:border-white', 'hover:shadow-lg', 'hover:z-10');
-          topBlock.dataset.isWrapped = 'true';
-          // Make tooltip show up faster
-          topBlock.dataset.bsToggle = 'tooltip';
-
-          // Calculate drift from previous entry if possible
-          let sleepDriftStr = '';
-          let wakeDriftStr = '';
-          if (!isPredicted && dayIndex > 0) {
-            // Find the previous day's main sleep entry
-            const prevDayIndex = dayIndex - 1;
-            const prevDateStr = uniqueDates[prevDayIndex];
-            const prevIndices = entriesByDay.get(prevDateStr) || [];
-
-            // Find the main sleep entry from the previous day
-            const prevMainIndex = prevIndices.find(idx => mainSleepIndices.includes(idx));
-            if (prevMainIndex !== undefined) {
-              const prevRecord = combinedData[prevMainIndex];
-              const driftData = this.calculateEntryDrift(prevRecord, record);
-
-              sleepDriftStr = ` (${this.formatDrift(driftData.sleepDrift)} drift)`;
-              wakeDriftStr = ` (${this.formatDrift(driftData.wakeDrift)} drift)`;
-            }
-          }
+        // The height comes from the duration, so a sleep of 24h or more fills the column rather than wrapping to a
+        // short block. A block extending beyond the bottom of the chart is split in two, the rest wrapping to the top.
+        this.getVerticalSpans(new Date(record.sleep), new Date(record.wake)).forEach(span => blocks.push({
+          left,
+          top: span.top,
+          width: blockWidth,
+          height: span.height,
+          kind: this.getBlockKind(isMainSleep, isPredicted),
+          dimmed: !matchesFilter,
+          record,
+          recordIndex: isPredicted ? null : index + recordIndexOffset,
+          isMainSleep,
+          previousMainSleep: isPredicted ? null : previousMainSleep,
+          rowStart: null,
+          rowSpan: null
+        }));
+      });
+    });
 
-          // Add data attributes and tooltip to both blocks
-          const tooltip = this.formatTooltip(record, sleepTime, wakeTime, isMainSleep, isPredicted, sleepDriftStr, wakeDriftStr);
-
-          for (const block of [bottomBlock, topBlock]) {
-            block.dataset.sleep = record.sleep;
-            block.dataset.wake = record.wake;
-            block.dataset.rating = record.rating.toString();
-            block.dataset.note = record.note;
-            block.dataset.isMainSleep = isMainSleep.toString();
-            block.dataset.dayIndex = dayIndex.toString();
-            block.title = tooltip;
-          }
+    this.mountBlockCanvas(sleepBlocksContainer, blocks);
+  }
 
-          // Add to container
-          sleepBlocksContainer.appendChild(bottomBlock);
-          sleepBlocksContainer.appendChild(topBlock);
-        } else {
-          // Create a single block for sleep periods that don't wrap
-          const block = document.createElement('div');
-          block.className = `sleep-block absolute ${bgColor} border ${borderColor} rounded-sm`;
-          block.style.top = `${top}%`;
-          block.style.height = `${height}%`;
-          block.style.left = `${left}%`;
-          block.style.width = `${blockWidth}%`;
-
-          // Add hover effect with Tailwind classes
-          block.classList.add('hover:border-white', 'hover:shadow-lg', 'hover:z-10');
-
-          // Make tooltip show up faster
-          block.dataset.bsToggle = 'tooltip';
-
-          // Add data attributes for details
-          block.dataset.sleep = record.sleep;
-          block.dataset.wake = record.wake;
-          block.dataset.rating = record.rating.toString();
-          block.dataset.note = record.note;
-          block.dataset.isMainSleep = isMainSleep.toString();
-          block.dataset.dayIndex = dayIndex.toString();
-
-          // Calculate drift from previous entry if possible
-          let sleepDriftStr = '';
-          let wakeDriftStr = '';
-          if (!isPredicted && dayIndex > 0) {
-            // Find the previous day's main sleep entry
-            const prevDayIndex = dayIndex - 1;
-            const prevDateStr = uniqueDates[prevDayIndex];
-            const prevIndices = entriesByDay.get(prevDateStr) || [];
-
-            // Find the main sleep entry from the previous day
-            const prevMainIndex = prevIndices.find(idx => mainSleepIndices.includes(idx));
-            if (prevMainIndex !== undefined) {
-              const prevRecord = combinedData[prevMainIndex];
-              const driftData = this.calculateEntryDrift(prevRecord, record);
-
-              sleepDriftStr = ` (${this.formatDrift(driftData.sleepDrift)} drift)`;
-              wakeDriftStr = ` (${this.formatDrift(driftData.wakeDrift)} drift)`;
-            }
-          }
+  /**
+   * Kind of block of an entry: predicted entries are dashed and unfilled, naps have a lighter border
+   */
+  private getBlockKind(isMainSleep: boolean, isPredicted: boolean): SleepBlockKind {
+    if (isPredicted) return isMainSleep ? 'predicted-main' : 'predicted-nap';
+    return isMainSleep ? 'main' : 'nap';
+  }
 
-          // Add tooltip with sleep details
-          block.title = this.formatTooltip(record, sleepTime, wakeTime, isMainSleep, isPredicted, sleepDriftStr, wakeDriftStr);
+  /**
+   * Draws the sleep blocks over the other layers
+   * The canvas is created once and only gets the new blocks, so it keeps its size and listeners across renders.
+   * @param container The sleep blocks container
+   * @param blocks Blocks in drawing order
+   */
+  private mountBlockCanvas(container: Element, blocks: ChartBlock[]) {
+    if (!this.blockCanvas) {
+      this.blockCanvas = document.createElement('sleep-block-canvas') as SleepBlockCanvas<ChartBlock>;
+    }
+    this.blockCanvas.setBlocks(blocks);
+    container.appendChild(this.blockCanvas);
+  }
 
-          // Add to container
-          sleepBlocksContainer.appendChild(block);
-        }
-      });
-    });
+  /**
+   * Finds the sleep block under the pointer
+   * @returns The block, or null when there is none, the blocks are hidden or the pointer is on a marker drawn over them
+   */
+  private getBlockAt(event: MouseEvent): ChartBlock | null {
+    if (!this.blockCanvas?.isConnected) return null;
+    // The markers are over the blocks, so their clicks and tooltips come first
+    if ((event.target as HTMLElement).closest(BLOCK_OVERLAY_SELECTOR)) return null;
+    return this.blockCanvas.blockAt(event.clientX, event.clientY);
+  }
+
+  /**
+   * Formats the tooltip of a sleep block, with the drift from the previous day's main sleep
+   */
+  private formatBlockTooltip(block: ChartBlock): string {
+    const { record, previousMainSleep } = block;
+    const isPredicted = 'isPredicted' in record && record.isPredicted;
+
+    let sleepDriftStr = '';
+    let wakeDriftStr = '';
+    if (previousMainSleep) {
+      const driftData = calculateEntryDrift(previousMainSleep, record);
+      sleepDriftStr = ` (${formatDrift(driftData.sleepDrift)} drift)`;
+      wakeDriftStr = ` (${formatDrift(driftData.wakeDrift)} drift)`;
+    }
+
+    return this.formatTooltip(record, new Date(record.sleep), new Date(record.wake), block.isMainSleep, isPredicted, sleepDriftStr, wakeDriftStr);
   }
 }
 
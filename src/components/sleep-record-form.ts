@@ -0,0 +1,325 @@
+import type { SleepRecord, SleepType } from '../types/sleep-record';
+import { validateSleepRecord } from '../utils/validation';
+import { KNOWN_TAGS, parseTags, suggestTags } from '../utils/tags';
+import { toLocalInputValue } from '../utils/dates';
+
+/**
+ * Detail of the `record-save` event
+ * `index` is null when a new record is created
+ */
+export interface RecordSaveDetail {
+  record: SleepRecord;
+  index: number | null;
+}
+
+/**
+ * Detail of the `record-delete` event
+ */
+export interface RecordDeleteDetail {
+  index: number;
+}
+
+/**
+ * Reads an optional number input (empty = not recorded)
+ */
+function readOptionalNumber(input: HTMLInputElement): number | null {
+  return input.value.trim() === '' ? null : Number(input.value);
+}
+
+/**
+ * Reads an optional datetime-local input (empty = not recorded)
+ */
+function readOptionalTime(input: HTMLInputElement): string | null {
+  if (input.value === '') return null;
+  const time = new Date(input.value);
+  return isNaN(time.getTime()) ? input.value : time.toISOString();
+}
+
+/**
+ * Modal form for creating, editing and deleting sleep records
+ * Dispatches `record-save` and `record-delete` events, the owner is responsible for applying them
+ */
+export class SleepRecordForm extends HTMLElement {
+  private records: SleepRecord[] = []; // Existing records, used for overlap validation
+  private editIndex: number | null = null; // Index of the record being edited (null = new record)
+  private confirmingDelete: boolean = false; // Whether the delete button is waiting for confirmation
+
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    const form = this.querySelector('form') as HTMLFormElement;
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.submit();
+    });
+
+    this.querySelector('.cancel-button')?.addEventListener('click', () => this.close());
+    this.querySelector('.delete-button')?.addEventListener('click', () => this.requestDelete());
+
+    // The tag buttons toggle their tag in the tags field
+    this.querySelector('.tag-buttons')?.addEventListener('click', (event) => {
+      const tag = (event.target as HTMLElement).closest<HTMLElement>('.tag-button')?.dataset.tag;
+      if (!tag) return;
+
+      const input = this.querySelector('#record-tags') as HTMLInputElement;
+      const tags = parseTags(input.value);
+      input.value = (tags.includes(tag) ? tags.filter(other => other !== tag) : [...tags, tag]).join(', ');
+      this.updateTagButtons();
+    });
+    this.querySelector('#record-tags')?.addEventListener('input', () => this.updateTagButtons());
+    this.querySelector('#record-note')?.addEventListener('input', () => this.updateTagButtons());
+
+    // Close when clicking the backdrop, but not when clicking inside the dialog
+    this.querySelector('.form-backdrop')?.addEventListener('click', (event) => {
+      if (event.target === event.currentTarget) this.close();
+    });
+
+    this.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+    });
+  }
+
+  /**
+   * Opens the form
+   * @param records All existing records (used to check for overlaps)
+   * @param index Index of the record to edit, or null to create a new one
+   */
+  public open(records: SleepRecord[], index: number | null = null) {
+    this.records = records;
+    this.editIndex = index;
+    this.confirmingDelete = false;
+
+    const record = index !== null ? records[index] : this.createDefaultRecord();
+
+    (this.querySelector('#record-sleep') as HTMLInputElement).value = toLocalInputValue(record.sleep);
+    (this.querySelector('#record-wake') as HTMLInputElement).value = toLocalInputValue(record.wake);
+    (this.querySelector('#record-rating') as HTMLSelectElement).value = record.rating.toString();
+    (this.querySelector('#record-type') as HTMLSelectElement).value = record.sleepType ?? '';
+    (this.querySelector('#record-note') as HTMLInputElement).value = record.note;
+    (this.querySelector('#record-tags') as HTMLInputElement).value = (record.tags ?? []).join(', ');
+    this.updateTagButtons();
+    (this.querySelector('#record-in-bed') as HTMLInputElement).value = record.inBed ? toLocalInputValue(record.inBed) : '';
+    (this.querySelector('#record-out-of-bed') as HTMLInputElement).value = record.outOfBed ? toLocalInputValue(record.outOfBed) : '';
+    (this.querySelector('#record-latency') as HTMLInputElement).value = record.latency?.toString() ?? '';
+    (this.querySelector('#record-awakenings') as HTMLInputElement).value = record.awakenings?.toString() ?? '';
+    (this.querySelector('#record-waso') as HTMLInputElement).value = record.waso?.toString() ?? '';
+
+    // Keep the details open when the record has some, so they aren't overlooked
+    const details = this.querySelector('.record-details') as HTMLDetailsElement;
+    details.open = [record.inBed, record.outOfBed, record.latency, record.awakenings, record.waso]
+      .some(value => value !== undefined && value !== null);
+
+    const title = this.querySelector('.form-title');
+    if (title) title.textContent = index !== null ? 'Edit sleep entry' : 'New sleep entry';
+
+    const deleteButton = this.querySelector('.delete-button') as HTMLButtonElement;
+    deleteButton.classList.toggle('hidden', index === null);
+    deleteButton.textContent = 'Delete';
+
+    this.showErrors([]);
+    this.querySelector('.form-backdrop')?.classList.remove('hidden');
+    (this.querySelector('#record-sleep') as HTMLInputElement).focus();
+  }
+
+  /**
+   * Closes the form without saving
+   */
+  public close() {
+    this.querySelector('.form-backdrop')?.classList.add('hidden');
+    this.editIndex = null;
+    this.confirmingDelete = false;
+  }
+
+  /**
+   * Highlights the tag buttons of the selected tags, and outlines the ones suggested by the note
+   */
+  private updateTagButtons() {
+    const selected = parseTags((this.querySelector('#record-tags') as HTMLInputElement).value);
+    const suggested = suggestTags((this.querySelector('#record-note') as HTMLInputElement).value);
+
+    this.querySelectorAll<HTMLElement>('.tag-button').forEach(button => {
+      const tag = button.dataset.tag as string;
+      const isSelected = selected.includes(tag);
+      const isSuggested = !isSelected && suggested.includes(tag);
+
+      button.classList.toggle('bg-[#3B82F6]', isSelected);
+      button.classList.toggle('bg-gray-700', !isSelected);
+      button.classList.toggle('border-dashed', isSuggested);
+      button.classList.toggle('border-blue-400', isSuggested);
+      button.classList.toggle('border-transparent', !isSuggested);
+      button.title = isSuggested ? 'Suggested by the note' : '';
+    });
+  }
+
+  /**
+   * Creates the values shown when adding a new record
+   * Defaults to an 8h sleep ending at the current time
+   */
+  private createDefaultRecord(): SleepRecord {
+    const wake = new Date();
+    wake.setSeconds(0, 0);
+    const sleep = new Date(wake.getTime() - 8 * 60 * 60 * 1000);
+
+    return {
+      sleep: sleep.toISOString(),
+      wake: wake.toISOString(),
+      rating: 3,
+      note: ''
+    };
+  }
+
+  /**
+   * Reads the form values into a record
+   */
+  private readRecord(): SleepRecord {
+    const existing = this.editIndex !== null ? this.records[this.editIndex] : null;
+    const input = (id: string) => this.querySelector(`#${id}`) as HTMLInputElement;
+    const sleepValue = (this.querySelector('#record-sleep') as HTMLInputElement).value;
+    const wakeValue = (this.querySelector('#record-wake') as HTMLInputElement).value;
+    const sleepTime = new Date(sleepValue);
+    const wakeTime = new Date(wakeValue);
+
+    return {
+      sleep: isNaN(sleepTime.getTime()) ? '' : sleepTime.toISOString(),
+      wake: isNaN(wakeTime.getTime()) ? '' : wakeTime.toISOString(),
+      rating: parseInt((this.querySelector('#record-rating') as HTMLSelectElement).value, 10),
+      note: (this.querySelector('#record-note') as HTMLInputElement).value.trim(),
+      inBed: readOptionalTime(input('record-in-bed')),
+      outOfBed: readOptionalTime(input('record-out-of-bed')),
+      latency: readOptionalNumber(input('record-latency')),
+      awakenings: readOptionalNumber(input('record-awakenings')),
+      waso: readOptionalNumber(input('record-waso')),
+      tags: parseTags(input('record-tags').value),
+      sleepType: ((this.querySelector('#record-type') as HTMLSelectElement).value || null) as SleepType | null,
+      // An edited record keeps its identity and origin
+      id: existing?.id,
+      source: existing ? existing.source ?? null : 'manual'
+    };
+  }
+
+  /**
+   * Validates the form and dispatches `record-save` when the record is valid
+   */
+  private submit() {
+    const record = this.readRecord();
+    const errors = validateSleepRecord(record, this.records, this.editIndex);
+
+    if (errors.length > 0) {
+      this.showErrors(errors);
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent<RecordSaveDetail>('record-save', {
+      detail: { record, index: this.editIndex },
+      bubbles: true
+    }));
+    this.close();
+  }
+
+  /**
+   * Deletes the record being edited
+   * The first click asks for confirmation, the second one dispatches `record-delete`
+   */
+  private requestDelete() {
+    if (this.editIndex === null) return;
+
+    const deleteButton = this.querySelector('.delete-button') as HTMLButtonElement;
+    if (!this.confirmingDelete) {
+      this.confirmingDelete = true;
+      deleteButton.textContent = 'Confirm delete';
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent<RecordDeleteDetail>('record-delete', {
+      detail: { index: this.editIndex },
+      bubbles: true
+    }));
+    this.close();
+  }
+
+  /**
+   * Shows validation errors below the fields
+   */
+  private showErrors(errors: string[]) {
+    const errorList = this.querySelector('.form-errors');
+    if (!errorList) return;
+
+    errorList.innerHTML = errors.map(error => `<li>${error}</li>`).join('');
+    errorList.classList.toggle('hidden', errors.length === 0);
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="form-backdrop hidden fixed inset-0 bg-black bg-opacity-60 z-30 flex items-center justify-center">
+        <form class="bg-[#222222] border border-[#444444] rounded p-4 w-80 text-white text-xs flex flex-col gap-2" novalidate>
+          <div class="form-title font-bold mb-1 border-b border-gray-600 pb-1">New sleep entry</div>
+
+          <label for="record-sleep">Sleep:</label>
+          <input type="datetime-local" id="record-sleep" class="bg-gray-800 text-white text-xs p-1 rounded" required />
+
+          <label for="record-wake">Wake:</label>
+          <input type="datetime-local" id="record-wake" class="bg-gray-800 text-white text-xs p-1 rounded" required />
+
+          <label for="record-rating">Rating:</label>
+          <select id="record-rating" class="bg-gray-800 text-white text-xs p-1 rounded">
+            ${[1, 2, 3, 4, 5].map(rating => `<option value="${rating}">${rating}/5</option>`).join('')}
+          </select>
+
+          <label for="record-type">Type:</label>
+          <select id="record-type" class="bg-gray-800 text-white text-xs p-1 rounded" title="Main sleeps set the drift and the predictions">
+            <option value="">Automatic (by duration)</option>
+            <option value="main">Main sleep</option>
+            <option value="nap">Nap</option>
+          </select>
+
+          <label for="record-note">Note:</label>
+          <input type="text" id="record-note" class="bg-gray-800 text-white text-xs p-1 rounded" placeholder="Optional" />
+
+          <label for="record-tags">Tags:</label>
+          <input type="text" id="record-tags" class="bg-gray-800 text-white text-xs p-1 rounded" placeholder="Comma separated" />
+          <div class="tag-buttons flex flex-wrap gap-1">
+            ${KNOWN_TAGS.map(({ tag }) =>
+              `<button type="button" class="tag-button bg-gray-700 border border-transparent px-1.5 py-0.5 rounded" data-tag="${tag}">${tag}</button>`
+            ).join('')}
+          </div>
+
+          <details class="record-details">
+            <summary class="cursor-pointer text-gray-300">Details (optional)</summary>
+            <div class="grid grid-cols-2 gap-2 mt-2">
+              <label for="record-in-bed" class="col-span-2">In bed:</label>
+              <input type="datetime-local" id="record-in-bed" class="col-span-2 bg-gray-800 text-white text-xs p-1 rounded" />
+
+              <label for="record-out-of-bed" class="col-span-2">Out of bed:</label>
+              <input type="datetime-local" id="record-out-of-bed" class="col-span-2 bg-gray-800 text-white text-xs p-1 rounded" />
+
+              <label for="record-latency">Latency (min):</label>
+              <input type="number" id="record-latency" min="0" class="bg-gray-800 text-white text-xs p-1 rounded" />
+
+              <label for="record-awakenings">Awakenings:</label>
+              <input type="number" id="record-awakenings" min="0" step="1" class="bg-gray-800 text-white text-xs p-1 rounded" />
+
+              <label for="record-waso">Awake after onset (min):</label>
+              <input type="number" id="record-waso" min="0" class="bg-gray-800 text-white text-xs p-1 rounded" />
+            </div>
+          </details>
+
+          <ul class="form-errors hidden text-red-400 list-disc pl-4"></ul>
+
+          <div class="flex justify-between mt-2">
+            <button type="button" class="delete-button hidden bg-red-800 hover:bg-red-700 px-2 py-1 rounded">Delete</button>
+            <div class="flex gap-2 ml-auto">
+              <button type="button" class="cancel-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">Cancel</button>
+              <button type="submit" class="bg-[#3B82F6] hover:bg-blue-400 px-2 py-1 rounded">Save</button>
+            </div>
+          </div>
+        </form>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('sleep-record-form', SleepRecordForm);
@@ -0,0 +1,111 @@
+import type { PeriodStatistics, StatisticsPeriod } from '../types/statistics';
+
+/**
+ * Collapsible panel with weekly or monthly aggregates of the visible entries
+ * The owner computes the aggregates for both period lengths and passes them with `setStatistics`
+ */
+export class SleepStatistics extends HTMLElement {
+  private statistics: Record<StatisticsPeriod, PeriodStatistics[]> = { week: [], month: [] };
+  private period: StatisticsPeriod = 'week'; // Period length shown in the table
+  private expanded: boolean = false;
+
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    this.querySelector('.statistics-toggle')?.addEventListener('click', () => {
+      this.expanded = !this.expanded;
+      this.render();
+    });
+
+    const periodSelect = this.querySelector('.statistics-period') as HTMLSelectElement;
+    periodSelect.addEventListener('change', () => {
+      this.period = periodSelect.value as StatisticsPeriod;
+      this.render();
+    });
+  }
+
+  /**
+   * Replaces the aggregates
+   * @param statistics Aggregates per week and per month, oldest period first
+   */
+  public setStatistics(statistics: Record<StatisticsPeriod, PeriodStatistics[]>) {
+    this.statistics = statistics;
+    this.render();
+  }
+
+  private render() {
+    const toggle = this.querySelector('.statistics-toggle');
+    const content = this.querySelector('.statistics-content');
+    const body = this.querySelector('.statistics-body');
+    if (!toggle || !content || !body) return;
+
+    toggle.innerHTML = `Statistics <span class="text-gray-400 ml-1">${this.expanded ? '▲' : '▼'}</span>`;
+    content.classList.toggle('hidden', !this.expanded);
+    if (!this.expanded) return;
+
+    const formatClock = (minutes: number | null) => minutes === null
+      ? '-'
+      : `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${Math.floor(minutes % 60).toString().padStart(2, '0')}`;
+    const formatMinutes = (minutes: number | null) => minutes === null ? '' : ` ±${Math.round(minutes)}m`;
+    const formatDuration = (ms: number) => {
+      const totalMinutes = Math.round(ms / (60 * 1000));
+      return `${Math.floor(totalMinutes / 60)}h${(totalMinutes % 60).toString().padStart(2, '0')}m`;
+    };
+    const formatDrift = (ms: number | null) => ms === null ? '-' : `${ms >= 0 ? '+' : '-'}${Math.round(Math.abs(ms) / (60 * 1000))}m`;
+    const formatStart = (date: string) => new Date(date).toLocaleDateString(undefined, this.period === 'month'
+      ? { month: 'short', year: 'numeric', timeZone: 'UTC' }
+      : { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+    // Most recent period first
+    const rows = [...this.statistics[this.period]].reverse();
+    body.innerHTML = rows.length === 0
+      ? '<tr><td colspan="7" class="text-gray-400">No entries</td></tr>'
+      : rows.map(row => `
+        <tr title="${row.days} day${row.days === 1 ? '' : 's'} with entries">
+          <td class="whitespace-nowrap">${formatStart(row.start)}</td>
+          <td class="whitespace-nowrap">${formatClock(row.onsetMean)}${formatMinutes(row.onsetSd)}</td>
+          <td class="whitespace-nowrap">${formatClock(row.wakeMean)}${formatMinutes(row.wakeSd)}</td>
+          <td>${formatDuration(row.meanTotalSleep)}</td>
+          <td>${row.napCount}</td>
+          <td>${row.meanRating.toFixed(1)}</td>
+          <td>${formatDrift(row.drift)}</td>
+        </tr>
+      `).join('');
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="bg-black bg-opacity-70 p-2 rounded text-white text-xs max-w-xl">
+        <button type="button" class="statistics-toggle font-bold w-full text-left" title="Weekly and monthly aggregates of the visible entries">Statistics <span class="text-gray-400 ml-1">▼</span></button>
+        <div class="statistics-content hidden mt-1 border-t border-gray-600 pt-1">
+          <select class="statistics-period bg-gray-800 text-white text-xs p-1 rounded mb-1">
+            <option value="week">Per week</option>
+            <option value="month">Per month</option>
+          </select>
+          <div class="max-h-64 overflow-y-auto">
+            <table class="w-full text-left border-separate border-spacing-x-2">
+              <thead class="text-gray-400">
+                <tr>
+                  <th>Period</th>
+                  <th title="Circular mean and standard deviation of the main sleep onsets">Onset</th>
+                  <th title="Circular mean and standard deviation of the main sleep wake times">Wake</th>
+                  <th title="Mean sleep per day with entries, naps included">Sleep</th>
+                  <th>Naps</th>
+                  <th>Rating</th>
+                  <th title="Estimated daily drift of the sleep onset">Drift</th>
+                </tr>
+              </thead>
+              <tbody class="statistics-body"></tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('sleep-statistics', SleepStatistics);
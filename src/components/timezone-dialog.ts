@@ -0,0 +1,149 @@
+import type { TimezoneColumn } from '../utils/timezones';
+import { isValidTimeZone } from '../utils/timezones';
+import { escapeHtml } from '../utils/html';
+
+/**
+ * Modal dialog for configuring the timezone columns of the Y-axis
+ * Dispatches `timezones-change` with the new list of columns
+ */
+export class TimezoneDialog extends HTMLElement {
+  private timezones: TimezoneColumn[] = [];
+
+  constructor() {
+    super();
+    this.innerHTML = this.createTemplate();
+  }
+
+  connectedCallback() {
+    const form = this.querySelector('form') as HTMLFormElement;
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.submit();
+    });
+
+    this.querySelector('.add-button')?.addEventListener('click', () => {
+      this.timezones = [...this.readRows(), { label: '', timeZone: '' }];
+      this.renderRows();
+    });
+
+    // Remove buttons are re-created with the rows, so listen on the container
+    this.querySelector('.timezone-rows')?.addEventListener('click', (event) => {
+      const target = event.target as HTMLElement;
+      if (!target.classList.contains('remove-button')) return;
+
+      const index = parseInt(target.dataset.index ?? '-1', 10);
+      this.timezones = this.readRows().filter((_, i) => i !== index);
+      this.renderRows();
+    });
+
+    this.querySelector('.cancel-button')?.addEventListener('click', () => this.close());
+
+    this.querySelector('.dialog-backdrop')?.addEventListener('click', (event) => {
+      if (event.target === event.currentTarget) this.close();
+    });
+
+    this.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+    });
+  }
+
+  /**
+   * Opens the dialog
+   * @param timezones The currently configured columns
+   */
+  public open(timezones: TimezoneColumn[]) {
+    this.timezones = timezones.map(column => ({ ...column }));
+    this.renderRows();
+    this.showErrors([]);
+    this.querySelector('.dialog-backdrop')?.classList.remove('hidden');
+  }
+
+  /**
+   * Closes the dialog without applying changes
+   */
+  public close() {
+    this.querySelector('.dialog-backdrop')?.classList.add('hidden');
+  }
+
+  /**
+   * Reads the current values of the rows
+   */
+  private readRows(): TimezoneColumn[] {
+    return Array.from(this.querySelectorAll('.timezone-row')).map(row => ({
+      label: (row.querySelector('.timezone-label') as HTMLInputElement).value.trim(),
+      timeZone: (row.querySelector('.timezone-name') as HTMLInputElement).value.trim(),
+    }));
+  }
+
+  private renderRows() {
+    const container = this.querySelector('.timezone-rows');
+    if (!container) return;
+
+    container.innerHTML = this.timezones.map((column, index) => `
+      <div class="timezone-row flex items-center gap-2">
+        <input type="text" class="timezone-label bg-gray-800 text-white text-xs p-1 rounded w-12" maxlength="4" placeholder="NY" value="${escapeHtml(column.label)}" />
+        <input type="text" class="timezone-name bg-gray-800 text-white text-xs p-1 rounded flex-1" placeholder="America/New_York" value="${escapeHtml(column.timeZone)}" />
+        <button type="button" class="remove-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded" data-index="${index}" ${this.timezones.length <= 1 ? 'disabled' : ''}>✕</button>
+      </div>
+    `).join('');
+  }
+
+  /**
+   * Validates the rows and dispatches `timezones-change`
+   */
+  private submit() {
+    const timezones = this.readRows();
+    const errors: string[] = [];
+
+    if (timezones.length === 0) {
+      errors.push('Add at least one timezone');
+    }
+    timezones.forEach((column, index) => {
+      if (!column.label) errors.push(`Row ${index + 1}: the label is empty`);
+      if (!isValidTimeZone(column.timeZone)) errors.push(`Row ${index + 1}: "${column.timeZone}" is not a known timezone`);
+    });
+
+    if (errors.length > 0) {
+      this.showErrors(errors);
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent<TimezoneColumn[]>('timezones-change', {
+      detail: timezones,
+      bubbles: true
+    }));
+    this.close();
+  }
+
+  private showErrors(errors: string[]) {
+    const errorList = this.querySelector('.dialog-errors');
+    if (!errorList) return;
+
+    errorList.innerHTML = errors.map(error => `<li>${escapeHtml(error)}</li>`).join('');
+    errorList.classList.toggle('hidden', errors.length === 0);
+  }
+
+  private createTemplate(): string {
+    return `
+      <div class="dialog-backdrop hidden fixed inset-0 bg-black bg-opacity-60 z-30 flex items-center justify-center">
+        <form class="bg-[#222222] border border-[#444444] rounded p-4 w-96 text-white text-xs flex flex-col gap-2" novalidate>
+          <div class="font-bold mb-1 border-b border-gray-600 pb-1">Timezone columns</div>
+          <div class="text-gray-400">Label and IANA timezone name (e.g. Europe/Berlin) for each column of the Y-axis</div>
+
+          <div class="timezone-rows flex flex-col gap-1"></div>
+          <button type="button" class="add-button self-start bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">+ Add timezone</button>
+
+          <ul class="dialog-errors hidden text-red-400 list-disc pl-4"></ul>
+
+          <div class="flex justify-end gap-2 mt-2">
+            <button type="button" class="cancel-button bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">Cancel</button>
+            <button type="submit" class="bg-[#3B82F6] hover:bg-blue-400 px-2 py-1 rounded">Save</button>
+          </div>
+        </form>
+      </div>
+    `;
+  }
+}
+
+// Register the custom element
+customElements.define('timezone-dialog', TimezoneDialog);
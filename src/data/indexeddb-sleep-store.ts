@@ -0,0 +1,165 @@
+import type { SleepRecord } from '../types/sleep-record';
+import type { Intervention } from '../types/intervention';
+import type { SleepStore, SleepRecordKey } from './sleep-store';
+import { CURRENT_SCHEMA_VERSION, migrateRecords } from './schema';
+import { sortInterventions } from '../utils/interventions';
+
+// The database version follows the version of the file format, so stored records are migrated like files
+// (version 1 was keyed by sleep start, later versions by id)
+const DB_VERSION = CURRENT_SCHEMA_VERSION;
+const RECORDS_STORE = 'records'; // Sleep records, keyed by id
+const INTERVENTIONS_STORE = 'interventions'; // Interventions, keyed by id (version 4 and later)
+const META_STORE = 'meta';       // Key/value pairs describing the database itself
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction has been committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Sleep store persisted in the browser's IndexedDB
+ */
+export class IndexedDBSleepStore implements SleepStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private dbName: string;
+
+  constructor(dbName: string = 'sleep-man') {
+    this.dbName = dbName;
+  }
+
+  /**
+   * Opens the database (once), creating the object stores when needed
+   */
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(INTERVENTIONS_STORE)) {
+          db.createObjectStore(INTERVENTIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+          db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+          return;
+        }
+
+        if (event.oldVersion < DB_VERSION) {
+          // Read the old records, then recreate the store (the key path can't be changed in place) with the migrated ones
+          // Everything runs in the upgrade transaction, so a failure leaves the database at its old version
+          const upgrade = request.transaction as IDBTransaction;
+          const oldRecords = upgrade.objectStore(RECORDS_STORE).getAll();
+          oldRecords.onsuccess = () => {
+            db.deleteObjectStore(RECORDS_STORE);
+            const store = db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+            migrateRecords(oldRecords.result, event.oldVersion).forEach(record => store.put(record));
+          };
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return this.dbPromise;
+  }
+
+  async list(): Promise<SleepRecord[]> {
+    const db = await this.open();
+    const store = db.transaction(RECORDS_STORE, 'readonly').objectStore(RECORDS_STORE);
+    const records = await promisify(store.getAll() as IDBRequest<SleepRecord[]>);
+    return records.sort((a, b) => new Date(a.sleep).getTime() - new Date(b.sleep).getTime());
+  }
+
+  async get(key: SleepRecordKey): Promise<SleepRecord | undefined> {
+    const db = await this.open();
+    const store = db.transaction(RECORDS_STORE, 'readonly').objectStore(RECORDS_STORE);
+    return await promisify(store.get(key) as IDBRequest<SleepRecord | undefined>);
+  }
+
+  async put(record: SleepRecord): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(RECORDS_STORE, 'readwrite');
+    transaction.objectStore(RECORDS_STORE).put(record);
+    await transactionDone(transaction);
+  }
+
+  async delete(key: SleepRecordKey): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(RECORDS_STORE, 'readwrite');
+    transaction.objectStore(RECORDS_STORE).delete(key);
+    await transactionDone(transaction);
+  }
+
+  async bulkImport(records: SleepRecord[], interventions: Intervention[] = []): Promise<void> {
+    const db = await this.open();
+    // A single transaction, so a failed import doesn't leave half of the records behind
+    const transaction = db.transaction([RECORDS_STORE, INTERVENTIONS_STORE], 'readwrite');
+    const store = transaction.objectStore(RECORDS_STORE);
+    records.forEach(record => store.put(record));
+    const interventionStore = transaction.objectStore(INTERVENTIONS_STORE);
+    interventions.forEach(intervention => interventionStore.put(intervention));
+    await transactionDone(transaction);
+  }
+
+  async listInterventions(): Promise<Intervention[]> {
+    const db = await this.open();
+    const store = db.transaction(INTERVENTIONS_STORE, 'readonly').objectStore(INTERVENTIONS_STORE);
+    const interventions = await promisify(store.getAll() as IDBRequest<Intervention[]>);
+    return sortInterventions(interventions);
+  }
+
+  async putIntervention(intervention: Intervention): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(INTERVENTIONS_STORE, 'readwrite');
+    transaction.objectStore(INTERVENTIONS_STORE).put(intervention);
+    await transactionDone(transaction);
+  }
+
+  async deleteIntervention(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(INTERVENTIONS_STORE, 'readwrite');
+    transaction.objectStore(INTERVENTIONS_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Whether the store has already been seeded with the initial data
+   */
+  async isSeeded(): Promise<boolean> {
+    const db = await this.open();
+    const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+    return Boolean(await promisify(store.get('seeded')));
+  }
+
+  /**
+   * Remembers that the store has been seeded, so deleting every record doesn't bring the seed data back
+   */
+  async markSeeded(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(true, 'seeded');
+    await transactionDone(transaction);
+  }
+}
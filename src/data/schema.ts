@@ -0,0 +1,147 @@
+import type { SleepRecord } from '../types/sleep-record';
+import type { Intervention } from '../types/intervention';
+import { suggestTags } from '../utils/tags';
+
+/**
+ * Version of the sleep log format written by this version of the app
+ * - 1: a bare array of records with only sleep, wake, rating and note
+ * - 2: `{ schemaVersion, records }`, records have a stable id and optional sleep details
+ * - 3: records have a list of tags
+ * - 4: the file also has a list of interventions (melatonin, light, medication)
+ * - 5: records can be marked as main sleep or nap by hand
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+/**
+ * Contents of a versioned sleep log file (data.json, JSON exports)
+ */
+export interface SleepLogFile {
+  schemaVersion: number;          // Version of the format the records follow
+  records: SleepRecord[];         // Records, in any order
+  interventions?: Intervention[]; // Interventions, in any order (version 4 and later)
+}
+
+/**
+ * Everything read from a sleep log file, in the current format
+ */
+export interface SleepLog {
+  records: SleepRecord[];
+  interventions: Intervention[];
+}
+
+/**
+ * Upgrades the records of a version to the next one
+ * Fields the migration doesn't know about are kept, so newer optional fields survive a round trip
+ */
+type Migration = (records: Record<string, unknown>[]) => Record<string, unknown>[];
+
+const MIGRATIONS: Record<number, Migration> = {
+  // 1 -> 2: make the new optional fields explicit (ids are added below for every version)
+  1: records => records.map(record => ({
+    inBed: null,
+    outOfBed: null,
+    latency: null,
+    awakenings: null,
+    waso: null,
+    source: null,
+    ...record,
+  })),
+  // 2 -> 3: suggest tags from the keywords of the notes
+  2: records => records.map(record => ({
+    ...record,
+    tags: Array.isArray(record.tags) ? record.tags : suggestTags(typeof record.note === 'string' ? record.note : ''),
+  })),
+  // 3 -> 4: records are unchanged, the interventions are stored next to them
+  3: records => records,
+  // 4 -> 5: records without a type are told apart by duration, as before
+  4: records => records,
+};
+
+/**
+ * Creates a new record id
+ * Falls back to a time based id where crypto.randomUUID isn't available (it needs a secure context)
+ */
+export function createRecordId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Id of an entry read without one, derived from its fields and position (FNV-1a hash)
+ * The same file always gives the same ids, so reading it again updates the stored entries instead of adding copies.
+ * @param fields Fields identifying the entry (times, type)
+ * @param index Position of the entry in the file, telling apart duplicate entries
+ */
+function deriveId(fields: unknown[], index: number): string {
+  const key = [...fields.map(String), index].join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `legacy-${(hash >>> 0).toString(16).padStart(8, '0')}-${index.toString(36)}`;
+}
+
+/**
+ * Upgrades records from an older version of the format to the current one
+ * @param records Records as read from the file (entries that aren't objects become empty records, reported by validation)
+ * @param fromVersion Version of the format the records follow
+ */
+export function migrateRecords(records: unknown[], fromVersion: number): SleepRecord[] {
+  let migrated = records.map(record => (typeof record === 'object' && record !== null ? { ...record } : {}) as Record<string, unknown>);
+
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) throw new Error(`No migration from sleep log version ${version}`);
+    migrated = migration(migrated);
+  }
+
+  // Every record needs an id to be stored, and files edited by hand may leave it out
+  migrated.forEach((record, index) => {
+    if (typeof record.id !== 'string' || record.id === '') record.id = deriveId([record.sleep, record.wake], index);
+  });
+
+  return migrated as unknown as SleepRecord[];
+}
+
+/**
+ * Reads the interventions of a file, giving an id to the ones without (derived like the records', see deriveId)
+ * Entries that aren't objects are dropped, as they can't be shown or fixed in the app
+ */
+function readInterventions(items: unknown[]): Intervention[] {
+  return items
+    .filter(item => typeof item === 'object' && item !== null)
+    .map((item, index) => {
+      const intervention = { dose: null, unit: '', duration: null, name: '', note: '', ...(item as object) } as Intervention;
+      if (typeof intervention.id !== 'string' || intervention.id === '') {
+        intervention.id = deriveId([intervention.time, intervention.type], index);
+      }
+      return intervention;
+    });
+}
+
+/**
+ * Reads a sleep log file in any supported version
+ * @param json Parsed contents of the file: a bare array (version 1) or a `{ schemaVersion, records }` object
+ * @returns Records and interventions in the current format
+ */
+export function parseSleepLog(json: unknown): SleepLog {
+  if (Array.isArray(json)) return { records: migrateRecords(json, 1), interventions: [] };
+
+  if (typeof json === 'object' && json !== null) {
+    const { schemaVersion, records, interventions } = json as Partial<Record<keyof SleepLogFile, unknown>>;
+    if (typeof schemaVersion === 'number' && Number.isInteger(schemaVersion) && schemaVersion >= 1 && Array.isArray(records)) {
+      if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`Sleep log version ${schemaVersion} is newer than the supported version ${CURRENT_SCHEMA_VERSION}`);
+      }
+      return {
+        records: migrateRecords(records, schemaVersion),
+        interventions: Array.isArray(interventions) ? readInterventions(interventions) : [],
+      };
+    }
+  }
+
+  throw new Error('Unrecognized sleep log format');
+}
@@ -0,0 +1,127 @@
+import type { SleepRecord } from '../types/sleep-record';
+import type { Intervention } from '../types/intervention';
+import { IndexedDBSleepStore } from './indexeddb-sleep-store';
+import type { SleepLog } from './schema';
+import { parseSleepLog } from './schema';
+import { sortInterventions } from '../utils/interventions';
+
+/**
+ * Key used to identify a record in a store
+ * Records are keyed by their id, so editing the times of a record keeps its key
+ */
+export type SleepRecordKey = string;
+
+/**
+ * Storage backend for sleep records
+ */
+export interface SleepStore {
+  /** Returns all records, sorted by sleep start */
+  list(): Promise<SleepRecord[]>;
+  /** Returns the record with the given key, if any */
+  get(key: SleepRecordKey): Promise<SleepRecord | undefined>;
+  /** Adds a record, or replaces the record with the same key */
+  put(record: SleepRecord): Promise<void>;
+  /** Removes the record with the given key */
+  delete(key: SleepRecordKey): Promise<void>;
+  /** Adds or replaces many records (and interventions) at once */
+  bulkImport(records: SleepRecord[], interventions?: Intervention[]): Promise<void>;
+  /** Returns all interventions, sorted by time */
+  listInterventions(): Promise<Intervention[]>;
+  /** Adds an intervention, or replaces the intervention with the same id */
+  putIntervention(intervention: Intervention): Promise<void>;
+  /** Removes the intervention with the given id */
+  deleteIntervention(id: string): Promise<void>;
+}
+
+/**
+ * Returns the key of a record
+ * Records get an id when they are read from a file or saved from the chart, so a missing id is a bug
+ */
+export function getRecordKey(record: SleepRecord): SleepRecordKey {
+  if (!record.id) throw new Error(`Sleep record from ${record.sleep} has no id`);
+  return record.id;
+}
+
+/**
+ * Sorts records by sleep start (in place)
+ */
+export function sortRecords(records: SleepRecord[]): SleepRecord[] {
+  return records.sort((a, b) => new Date(a.sleep).getTime() - new Date(b.sleep).getTime());
+}
+
+/**
+ * Fetches the JSON file used to seed a new store
+ * Files in an older format are upgraded to the current one
+ */
+export async function fetchSeedData(url: string): Promise<SleepLog> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to load data');
+  }
+  return parseSleepLog(await response.json());
+}
+
+/**
+ * Non-persistent store, used when IndexedDB is not available (e.g. some private browsing modes)
+ */
+export class MemorySleepStore implements SleepStore {
+  private records = new Map<SleepRecordKey, SleepRecord>();
+  private interventions = new Map<string, Intervention>();
+
+  async list(): Promise<SleepRecord[]> {
+    return sortRecords([...this.records.values()]);
+  }
+
+  async get(key: SleepRecordKey): Promise<SleepRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async put(record: SleepRecord): Promise<void> {
+    this.records.set(getRecordKey(record), record);
+  }
+
+  async delete(key: SleepRecordKey): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async bulkImport(records: SleepRecord[], interventions: Intervention[] = []): Promise<void> {
+    records.forEach(record => this.records.set(getRecordKey(record), record));
+    interventions.forEach(intervention => this.interventions.set(intervention.id, intervention));
+  }
+
+  async listInterventions(): Promise<Intervention[]> {
+    return sortInterventions([...this.interventions.values()]);
+  }
+
+  async putIntervention(intervention: Intervention): Promise<void> {
+    this.interventions.set(intervention.id, intervention);
+  }
+
+  async deleteIntervention(id: string): Promise<void> {
+    this.interventions.delete(id);
+  }
+}
+
+/**
+ * Opens the persistent sleep store
+ * On first run the store is seeded from the given JSON file
+ * Falls back to an in-memory store (seeded on every load) when IndexedDB is not available
+ * @param seedUrl URL of the JSON file used to seed an empty store
+ */
+export async function openSleepStore(seedUrl: string = '/data.json'): Promise<SleepStore> {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB is not available, changes will not be saved');
+    const store = new MemorySleepStore();
+    const seed = await fetchSeedData(seedUrl);
+    await store.bulkImport(seed.records, seed.interventions);
+    return store;
+  }
+
+  const store = new IndexedDBSleepStore();
+  if (!(await store.isSeeded())) {
+    const seed = await fetchSeedData(seedUrl);
+    await store.bulkImport(seed.records, seed.interventions);
+    await store.markSeeded();
+  }
+  return store;
+}
@@ -0,0 +1,15 @@
+// Kind of intervention used to manage the sleep-wake rhythm
+export type InterventionType = 'melatonin' | 'light' | 'medication';
+
+// A timestamped intervention (a dose of melatonin, a light therapy session...)
+// Interventions were added in version 4 of the file format (see data/schema.ts)
+export interface Intervention {
+  id: string;               // Stable identifier
+  type: InterventionType;
+  time: string;             // ISO datetime string for the dose or the start of the session
+  dose: number | null;      // Amount in `unit` (e.g. 0.5 mg of melatonin, 10000 lux of light)
+  unit: string;             // Unit of the dose
+  duration: number | null;  // Minutes the intervention lasts (e.g. a light session), null for a single dose
+  name: string;             // Product or device (e.g. the name of the medication), may be empty
+  note: string;             // Optional notes
+}
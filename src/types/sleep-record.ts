@@ -0,0 +1,32 @@
+// Main sleep or nap, when set by hand
+export type SleepType = 'main' | 'nap';
+
+// Define the interface for sleep data
+// The optional fields were added in versions 2, 3 and 5 of the file format (see data/schema.ts), older records don't have them
+export interface SleepRecord {
+  id?: string;                  // Stable identifier, kept when the times are edited (assigned when the record is first stored)
+  sleep: string;                // ISO datetime string for sleep start (falling asleep)
+  wake: string;                 // ISO datetime string for wake time (final awakening)
+  rating: number;               // Sleep quality rating (e.g., 1-5)
+  note: string;                 // Optional notes about the sleep
+  inBed?: string | null;        // ISO datetime string for getting into bed (time in bed = inBed to outOfBed)
+  outOfBed?: string | null;     // ISO datetime string for getting out of bed
+  latency?: number | null;      // Minutes it took to fall asleep
+  awakenings?: number | null;   // Number of awakenings during the sleep
+  waso?: number | null;         // Minutes awake after sleep onset (wake after sleep onset)
+  source?: string | null;       // Where the record comes from ('manual', 'csv', or the name of a device or app)
+  tags?: string[];              // Structured tags (e.g. 'caffeine', 'alarm'), lower case
+  sleepType?: SleepType | null; // Main sleep or nap set by hand, null = told apart by duration
+}
+
+// Range of likely times for a predicted event
+export interface PredictionRange {
+  earliest: string; // ISO datetime string for the start of the range
+  latest: string;   // ISO datetime string for the end of the range
+}
+
+export interface PredictedSleepRecord extends SleepRecord {
+  isPredicted: boolean;         // Flag to indicate this is a predicted entry
+  sleepRange?: PredictionRange; // Likely range for the sleep start (80% prediction interval)
+  wakeRange?: PredictionRange;  // Likely range for the wake time (80% prediction interval)
+}
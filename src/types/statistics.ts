@@ -0,0 +1,16 @@
+// Length of the periods the statistics are aggregated over
+export type StatisticsPeriod = 'week' | 'month';
+
+// Aggregates of the sleep log over one week or month
+export interface PeriodStatistics {
+  start: string;              // First day of the period (YYYY-MM-DD, weeks start on Monday)
+  days: number;               // Days with entries in the period
+  onsetMean: number | null;   // Circular mean of the main sleep onsets, minutes after midnight
+  onsetSd: number | null;     // Circular standard deviation of the main sleep onsets, in minutes
+  wakeMean: number | null;    // Circular mean of the main sleep wake times, minutes after midnight
+  wakeSd: number | null;      // Circular standard deviation of the main sleep wake times, in minutes
+  meanTotalSleep: number;     // Mean sleep per day with entries, naps included (milliseconds)
+  napCount: number;           // Entries that aren't the main sleep of their day
+  meanRating: number;         // Mean rating of all the entries
+  drift: number | null;       // Estimated daily drift of the sleep onset (milliseconds), null with fewer than 2 main sleeps
+}
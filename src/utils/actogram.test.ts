@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { findOverlappingRows, findRowIndex, getActogramSegment } from './actogram';
+
+const HOUR = 60 * 60 * 1000; // One hour in milliseconds
+
+// Rows of a double plot with a gap (days 0-2, then 5-6), and of a natural-cycle view with a 24.7h cycle
+const layouts = [
+  { name: 'double plot', rowStarts: [0, 1, 2, 5, 6].map(day => day * 24 * HOUR), span: 48 * HOUR, period: 24 * HOUR },
+  { name: 'natural cycle', rowStarts: Array.from({ length: 6 }, (_, i) => i * 24.7 * HOUR), span: 24.7 * HOUR, period: 24.7 * HOUR }
+];
+
+// Ranges from before the first row to after the last one, some starting or ending on a row start
+const ranges = Array.from({ length: 40 }, (_, i) => ({ start: (i * 4.5 - 30) * HOUR, end: (i * 4.5 - 30 + 8 + (i % 5) * 12) * HOUR }));
+
+describe.each(layouts)('$name', ({ rowStarts, span, period }) => {
+  it('finds the same rows as clipping the range to every row', () => {
+    ranges.forEach(({ start, end }) => {
+      const expected = rowStarts
+        .map((rowStart, rowIndex) => getActogramSegment(rowStart, span, start, end) ? rowIndex : -1)
+        .filter(rowIndex => rowIndex !== -1);
+      const { first, last } = findOverlappingRows(rowStarts, span, start, end);
+      expect(Array.from({ length: last - first }, (_, i) => first + i)).toEqual(expected);
+    });
+  });
+
+  it('finds the row a time starts in', () => {
+    ranges.forEach(({ start }) => {
+      const expected = rowStarts.findIndex(rowStart => start >= rowStart && start < rowStart + period);
+      expect(findRowIndex(rowStarts, period, start)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import type { SleepRecord } from '../types/sleep-record';
+
+/**
+ * How the chart lays out the days
+ * - standard:      one 24h column per day, sleep crossing the day boundary wraps to the top
+ * - double-plot:   one 48h row per day (day N and day N+1 side by side), so a drifting sleep stays continuous
+ * - natural-cycle: one row per circadian cycle (tau), so a free-running sleep shows up as a straight band
+ */
+export type DisplayMode = 'standard' | 'double-plot' | 'natural-cycle';
+
+export const DISPLAY_MODES: DisplayMode[] = ['standard', 'double-plot', 'natural-cycle'];
+
+/**
+ * Direction of the rows in the double-plotted and natural-cycle views
+ * - vertical:   one column per day (left to right), time runs down like in the standard view
+ * - horizontal: one row per day (top to bottom), time runs to the right like a classic actogram
+ */
+export type PlotOrientation = 'vertical' | 'horizontal';
+
+export const PLOT_ORIENTATIONS: PlotOrientation[] = ['vertical', 'horizontal'];
+
+export const DOUBLE_PLOT_SPAN = 48 * 60 * 60 * 1000; // Time covered by a row of the double plot (48 hours)
+
+// Circadian time at which the rows of the natural-cycle view start
+// CT0 is the habitual wake time, so starting at CT4 keeps the main sleep (around CT16-CT24) away from the row edges
+export const CYCLE_START_CT = 4;
+
+/**
+ * Rows of the double-plotted and natural-cycle views
+ */
+export interface ActogramLayout {
+  rowStarts: number[]; // Start of each row (epoch milliseconds), sorted
+  span: number;        // Time covered by a row in milliseconds (48 hours, or one cycle)
+  period: number;      // Time between the starts of consecutive rows in milliseconds (24 hours, or one cycle)
+}
+
+/**
+ * Part of a time range that falls within a row, in percent of the row's time axis
+ */
+export interface ActogramSegment {
+  offset: number; // Start of the segment (0-100)
+  length: number; // Length of the segment (0-100)
+}
+
+/**
+ * Start of the sleep day containing a time: the last local `dayStartHour`:00 at or before it
+ * @param time Epoch milliseconds
+ * @param dayStartHour Local hour at which the day starts (0-23)
+ * @returns Epoch milliseconds
+ */
+export function getSleepDayStart(time: number, dayStartHour: number): number {
+  const start = new Date(time);
+  start.setHours(dayStartHour, 0, 0, 0);
+  if (start.getTime() > time) start.setDate(start.getDate() - 1);
+  return start.getTime();
+}
+
+/**
+ * Sleep day a time belongs to, named after the local date its day starts on
+ * Every grouping by day uses this, so entries land in the same column they are drawn in: with the day starting at
+ * 17:00, sleeps at 23:00 and at 01:00 the same night are on the same day.
+ * @param time Epoch milliseconds
+ * @param dayStartHour Local hour at which the day starts (0-23)
+ * @returns Date string (YYYY-MM-DD)
+ */
+export function getSleepDay(time: number, dayStartHour: number): string {
+  const start = new Date(getSleepDayStart(time, dayStartHour));
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+}
+
+/**
+ * Starts of the rows of the double-plotted view, one per sleep day that has an entry
+ * @param records Entries to plot
+ * @param dayStartHour Local hour at which the day starts (0-23)
+ * @param continuous Whether to include the days without entries between the first and the last day
+ * @returns Sorted epoch milliseconds
+ */
+export function getActogramRowStarts(records: SleepRecord[], dayStartHour: number, continuous: boolean = false): number[] {
+  const starts = [...new Set(records.map(record => getSleepDayStart(new Date(record.sleep).getTime(), dayStartHour)))]
+    .sort((a, b) => a - b);
+  if (!continuous || starts.length === 0) return starts;
+
+  // Step by calendar day rather than 24h, so the rows stay on the day start hour across DST changes
+  const filled: number[] = [];
+  const day = new Date(starts[0]);
+  while (day.getTime() <= starts[starts.length - 1]) {
+    filled.push(day.getTime());
+    day.setDate(day.getDate() + 1);
+    day.setHours(dayStartHour, 0, 0, 0);
+  }
+  return filled;
+}
+
+/**
+ * Starts of the rows of the natural-cycle view, one per cycle that has an entry
+ * @param records Entries to plot
+ * @param reference Start of one of the cycles (epoch milliseconds), the other cycles are whole periods away
+ * @param period Length of a cycle in milliseconds
+ * @param continuous Whether to include the cycles without entries between the first and the last cycle
+ * @returns Sorted epoch milliseconds
+ */
+export function getCycleRowStarts(records: SleepRecord[], reference: number, period: number, continuous: boolean = false): number[] {
+  let cycles = [...new Set(records.map(record => Math.floor((new Date(record.sleep).getTime() - reference) / period)))]
+    .sort((a, b) => a - b);
+  if (continuous && cycles.length > 0) {
+    cycles = Array.from({ length: cycles[cycles.length - 1] - cycles[0] + 1 }, (_, i) => cycles[0] + i);
+  }
+  return cycles.map(cycle => reference + cycle * period);
+}
+
+/**
+ * Clips a time range to a row
+ * @param rowStart Start of the row (epoch milliseconds)
+ * @param span Length of the row's time axis in milliseconds
+ * @param start Start of the range (epoch milliseconds)
+ * @param end End of the range (epoch milliseconds)
+ * @returns The visible part of the range, or null when it doesn't overlap the row
+ */
+export function getActogramSegment(rowStart: number, span: number, start: number, end: number): ActogramSegment | null {
+  const from = Math.max(start, rowStart);
+  const to = Math.min(end, rowStart + span);
+  if (to <= from) return null;
+
+  return {
+    offset: ((from - rowStart) / span) * 100,
+    length: ((to - from) / span) * 100,
+  };
+}
+
+/**
+ * Index of the first value above the target (or at it, with `inclusive`)
+ * @param values Sorted numbers
+ */
+function searchSorted(values: number[], target: number, inclusive: boolean = false): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (values[middle] < target || (!inclusive && values[middle] === target)) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Row a time belongs to: the last row starting at or before it, when the time is within that row's period
+ * @param rowStarts Starts of the rows (epoch milliseconds), sorted
+ * @param period Time between the starts of consecutive rows in milliseconds
+ * @param time Epoch milliseconds
+ * @returns Index of the row, -1 when no row covers the time
+ */
+export function findRowIndex(rowStarts: number[], period: number, time: number): number {
+  const index = searchSorted(rowStarts, time) - 1;
+  return index >= 0 && time < rowStarts[index] + period ? index : -1;
+}
+
+/**
+ * Rows whose time axis overlaps a time range, the rows getActogramSegment returns a segment for
+ * Found by binary search, so placing an entry doesn't go through every row
+ * @param rowStarts Starts of the rows (epoch milliseconds), sorted
+ * @param span Length of a row's time axis in milliseconds
+ * @param start Start of the range (epoch milliseconds)
+ * @param end End of the range (epoch milliseconds)
+ * @returns Index of the first overlapping row and the index after the last one (the same when none overlaps)
+ */
+export function findOverlappingRows(rowStarts: number[], span: number, start: number, end: number): { first: number, last: number } {
+  if (end <= start) return { first: 0, last: 0 };
+
+  // A row overlaps when it starts before the end of the range and ends after its start
+  const first = searchSorted(rowStarts, start - span);
+  const last = Math.max(first, searchSorted(rowStarts, end, true));
+  return { first, last };
+}
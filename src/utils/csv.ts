@@ -0,0 +1,319 @@
+import type { SleepRecord } from '../types/sleep-record';
+import { parseTags, suggestTags } from './tags';
+
+/**
+ * Supported formats for the date column
+ */
+export type DateFormat = 'MM/DD/YY' | 'DD/MM/YY' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
+
+export const DATE_FORMATS: DateFormat[] = ['MM/DD/YY', 'DD/MM/YY', 'MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'];
+
+/**
+ * How the date column relates to the sleep start
+ * - sleep-date: the date is the day the sleep started
+ * - wake-date:  the date is the day of waking up (sleep starts the day before when its time is after the wake time)
+ * - cutoff:     sleep times before the cutoff hour belong to the day after the date (the old convert script used 12:00)
+ */
+export type SleepDateRule = 'sleep-date' | 'wake-date' | 'cutoff';
+
+export const SLEEP_DATE_RULES: { value: SleepDateRule, label: string }[] = [
+  { value: 'sleep-date', label: 'Date is the sleep date' },
+  { value: 'wake-date', label: 'Date is the wake date' },
+  { value: 'cutoff', label: 'Sleep before cutoff hour is the next day' },
+];
+
+/**
+ * Column index for each field (null = not present in the file)
+ */
+export interface ColumnMapping {
+  date: number | null;
+  sleep: number | null;
+  wake: number | null;
+  rating: number | null;
+  note: number | null;
+  tags: number | null;
+}
+
+export interface CsvConversionOptions {
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  sleepDateRule: SleepDateRule;
+  cutoffHour: number;    // Only used by the cutoff rule
+  defaultRating: number; // Used when there is no rating column, or its value can't be parsed
+}
+
+/**
+ * A row that could not be converted into a record
+ */
+export interface RowProblem {
+  row: number;     // Index of the row in the parsed data
+  message: string;
+}
+
+export interface CsvConversionResult {
+  records: { row: number, record: SleepRecord }[];
+  problems: RowProblem[];
+}
+
+/**
+ * Splits CSV text into rows of trimmed cells
+ * Handles quoted cells (including commas, newlines and escaped quotes inside them)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat \r\n as a single line break
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  // Skip empty lines
+  return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+/**
+ * Guesses the column mapping from the header row
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const find = (...keywords: string[]) => {
+    const index = headers.findIndex(header => keywords.some(keyword => header.toLowerCase().includes(keyword)));
+    return index === -1 ? null : index;
+  };
+
+  const mapping: ColumnMapping = {
+    date: find('date', 'day'),
+    sleep: find('sleep', 'bed', 'start'),
+    wake: find('wake', 'rise', 'end', 'up'),
+    rating: find('rating', 'quality', 'score'),
+    note: find('note', 'comment', 'remark'),
+    tags: find('tags', 'labels'),
+  };
+
+  // Fall back to the column order used by the old convert script (date, sleep, wake, ?, note)
+  if (mapping.date === null && mapping.sleep === null && mapping.wake === null) {
+    return { date: 0, sleep: 1, wake: 2, rating: null, note: headers.length > 4 ? 4 : null, tags: null };
+  }
+  return mapping;
+}
+
+/**
+ * Parses a date cell into year, month (0-based) and day
+ * @returns null when the value doesn't match the format
+ */
+export function parseDate(value: string, format: DateFormat): { year: number, month: number, day: number } | null {
+  const parts = value.split(/[/.-]/).map(part => part.trim());
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+  const numbers = parts.map(part => parseInt(part, 10));
+  let year: number, month: number, day: number;
+
+  switch (format) {
+    case 'MM/DD/YY':
+    case 'MM/DD/YYYY':
+      [month, day, year] = numbers;
+      break;
+    case 'DD/MM/YY':
+    case 'DD/MM/YYYY':
+      [day, month, year] = numbers;
+      break;
+    case 'YYYY-MM-DD':
+      [year, month, day] = numbers;
+      break;
+  }
+
+  // Two digit years are assumed to be in the 2000s
+  if (year < 100) year += 2000;
+
+  // Reject impossible dates (e.g. 31/02), which the Date constructor would silently roll over
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+
+  return { year, month: month - 1, day };
+}
+
+/**
+ * Parses a time cell ("23:15", "7:05", "11:30 PM", "1:00am") into hours and minutes
+ * @returns null when the value is not a valid time
+ */
+export function parseTime(value: string): { hours: number, minutes: number } | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([aApP][mM])?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const meridiem = match[3]?.toLowerCase();
+
+  if (minutes > 59) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    // 12 AM is midnight and 12 PM is noon
+    if (meridiem === 'am') hours = hours === 12 ? 0 : hours;
+    else hours = hours === 12 ? 12 : hours + 12;
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return { hours, minutes };
+}
+
+/**
+ * Converts parsed CSV rows into sleep records
+ * Rows that can't be parsed are reported as problems instead of being converted
+ * @param rows Data rows (without the header row)
+ * @param options Column mapping and parsing rules
+ * @param firstRow Index of the first data row in the original file, used in problem reports
+ */
+export function convertRows(rows: string[][], options: CsvConversionOptions, firstRow: number = 0): CsvConversionResult {
+  const result: CsvConversionResult = { records: [], problems: [] };
+  const { mapping } = options;
+
+  if (mapping.date === null || mapping.sleep === null || mapping.wake === null) {
+    result.problems.push({ row: firstRow, message: 'Date, sleep and wake columns are required' });
+    return result;
+  }
+
+  rows.forEach((cells, i) => {
+    const row = firstRow + i;
+    const cell = (column: number | null) => column === null ? '' : (cells[column] ?? '');
+
+    const date = parseDate(cell(mapping.date), options.dateFormat);
+    if (!date) {
+      result.problems.push({ row, message: `Can't parse date "${cell(mapping.date)}" as ${options.dateFormat}` });
+      return;
+    }
+
+    const sleepTime = parseTime(cell(mapping.sleep));
+    if (!sleepTime) {
+      result.problems.push({ row, message: `Can't parse sleep time "${cell(mapping.sleep)}"` });
+      return;
+    }
+
+    const wakeTime = parseTime(cell(mapping.wake));
+    if (!wakeTime) {
+      result.problems.push({ row, message: `Can't parse wake time "${cell(mapping.wake)}"` });
+      return;
+    }
+
+    // Work out which day the sleep started on
+    const sleepDate = new Date(date.year, date.month, date.day);
+    const sleepMinutes = sleepTime.hours * 60 + sleepTime.minutes;
+    const wakeMinutes = wakeTime.hours * 60 + wakeTime.minutes;
+
+    switch (options.sleepDateRule) {
+      case 'sleep-date':
+        break;
+      case 'wake-date':
+        // Sleeping at or after the wake time means the sleep started the day before
+        if (sleepMinutes >= wakeMinutes) sleepDate.setDate(sleepDate.getDate() - 1);
+        break;
+      case 'cutoff':
+        if (sleepTime.hours < options.cutoffHour) sleepDate.setDate(sleepDate.getDate() + 1);
+        break;
+    }
+    sleepDate.setHours(sleepTime.hours, sleepTime.minutes, 0, 0);
+
+    // If wake time is not after the sleep time, it's the next day
+    const wakeDate = new Date(sleepDate);
+    if (wakeMinutes <= sleepMinutes) wakeDate.setDate(wakeDate.getDate() + 1);
+    wakeDate.setHours(wakeTime.hours, wakeTime.minutes, 0, 0);
+
+    const rating = parseInt(cell(mapping.rating), 10);
+
+    result.records.push({
+      row,
+      record: {
+        sleep: sleepDate.toISOString(),
+        wake: wakeDate.toISOString(),
+        rating: rating >= 1 && rating <= 5 ? rating : options.defaultRating,
+        note: cell(mapping.note),
+        source: 'csv',
+        // Without a tags column, suggest tags from the note
+        tags: mapping.tags !== null ? parseTags(cell(mapping.tags)) : suggestTags(cell(mapping.note)),
+      }
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Scores how plausible a converted log is (lower is better)
+ * Penalizes overlapping or out of order sleeps, and gaps between consecutive sleep starts far from a day
+ */
+function scoreConversion(result: CsvConversionResult): number {
+  const HOURS_IN_DAY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+  let score = result.problems.length * HOURS_IN_DAY;
+
+  for (let i = 1; i < result.records.length; i++) {
+    const prev = result.records[i - 1].record;
+    const curr = result.records[i].record;
+    const gap = new Date(curr.sleep).getTime() - new Date(prev.sleep).getTime();
+
+    // Sleeps starting before the previous one ended are almost certainly on the wrong day
+    if (new Date(curr.sleep).getTime() < new Date(prev.wake).getTime()) {
+      score += HOURS_IN_DAY;
+    }
+
+    // Distance from a whole number of days (naps and skipped days are still plausible)
+    const remainder = ((gap % HOURS_IN_DAY) + HOURS_IN_DAY) % HOURS_IN_DAY;
+    score += Math.min(remainder, HOURS_IN_DAY - remainder) / 4;
+  }
+
+  return score;
+}
+
+/**
+ * Picks the sleep date rule that produces the most plausible log
+ * Assumes the rows are in chronological order, which is how sleep logs are usually kept
+ */
+export function inferSleepDateRule(rows: string[][], options: Omit<CsvConversionOptions, 'sleepDateRule'>): SleepDateRule {
+  let bestRule: SleepDateRule = 'sleep-date';
+  let bestScore = Infinity;
+
+  SLEEP_DATE_RULES.forEach(({ value }) => {
+    const score = scoreConversion(convertRows(rows, { ...options, sleepDateRule: value }));
+    if (score < bestScore) {
+      bestScore = score;
+      bestRule = value;
+    }
+  });
+
+  return bestRule;
+}
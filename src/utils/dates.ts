@@ -0,0 +1,52 @@
+import type { StatisticsPeriod } from '../types/statistics';
+
+const DAY_MS = 24 * 60 * 60 * 1000; // One day in milliseconds
+
+/**
+ * Number of calendar days from one date to another
+ * @param from Date string (YYYY-MM-DD)
+ * @param to Date string (YYYY-MM-DD)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Every date from the first to the last date of a list, so days without data keep their place
+ * @param dates Sorted date strings (YYYY-MM-DD)
+ * @returns Sorted date strings (YYYY-MM-DD), including the dates in between
+ */
+export function fillDateRange(dates: string[]): string[] {
+  if (dates.length === 0) return [];
+
+  const filled: string[] = [];
+  const last = Date.parse(dates[dates.length - 1]);
+  for (let time = Date.parse(dates[0]); time <= last; time += DAY_MS) {
+    filled.push(new Date(time).toISOString().split('T')[0]);
+  }
+  return filled;
+}
+
+/**
+ * First day of the week (starting on Monday) or month a date belongs to
+ * @param date Date string (YYYY-MM-DD)
+ * @returns Date string (YYYY-MM-DD)
+ */
+export function getPeriodStart(date: string, period: StatisticsPeriod): string {
+  if (period === 'month') return `${date.slice(0, 7)}-01`;
+
+  const time = Date.parse(date);
+  const daysSinceMonday = (new Date(time).getUTCDay() + 6) % 7;
+  return new Date(time - daysSinceMonday * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Converts an ISO datetime string to the local format used by datetime-local inputs
+ */
+export function toLocalInputValue(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
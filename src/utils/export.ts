@@ -0,0 +1,209 @@
+import type { SleepRecord, PredictedSleepRecord } from '../types/sleep-record';
+import type { Intervention } from '../types/intervention';
+import { CURRENT_SCHEMA_VERSION } from '../data/schema';
+import type { AnalysisOptions } from '../analytics/sleep-analysis';
+import { calculateEntryDrift, getVisibleRecords } from '../analytics/sleep-analysis';
+import { getMainSleepRecords, groupSleepPeriods } from '../analytics/sleep-periods';
+import { getSleepDay } from './actogram';
+
+/**
+ * Which records to export
+ * - all:     every record in the log
+ * - visible: the records currently shown in the chart (limited by the entry limit)
+ * - custom:  records whose sleep starts between two sleep days (inclusive), see getSleepDay
+ */
+export type ExportRange = 'all' | 'visible' | 'custom';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  range: ExportRange;
+  from: string | null;        // First sleep day (YYYY-MM-DD) of a custom range
+  to: string | null;          // Last sleep day (YYYY-MM-DD) of a custom range
+  includeMainSleep: boolean;  // Add the main sleep / nap flag
+  includeDuration: boolean;   // Add the sleep duration
+  includeDrift: boolean;      // Add the drift from the previous day's main sleep
+  includePredictions: boolean; // Add the predicted entries after the real ones
+}
+
+/**
+ * A record with the values computed by the chart
+ */
+export interface ExportRow {
+  record: SleepRecord;
+  isPredicted: boolean;
+  isMainSleep: boolean;
+  durationMs: number;
+  sleepDrift: number | null; // Milliseconds, null when there is no previous day to compare with
+  wakeDrift: number | null;
+}
+
+// Value of an exported field (tag lists are arrays in JSON, and joined with semicolons in CSV)
+type ExportValue = string | number | boolean | null | string[];
+
+/**
+ * Converts milliseconds to whole minutes
+ */
+function toMinutes(ms: number | null): number | null {
+  return ms === null ? null : Math.round(ms / (60 * 1000));
+}
+
+/**
+ * Builds a plain object with the selected fields for a row
+ */
+function toExportObject(row: ExportRow, options: ExportOptions): Record<string, ExportValue> {
+  const result: Record<string, ExportValue> = {
+    sleep: row.record.sleep,
+    wake: row.record.wake,
+    rating: row.record.rating,
+    note: row.record.note,
+    id: row.record.id ?? null,
+    inBed: row.record.inBed ?? null,
+    outOfBed: row.record.outOfBed ?? null,
+    latency: row.record.latency ?? null,
+    awakenings: row.record.awakenings ?? null,
+    waso: row.record.waso ?? null,
+    source: row.record.source ?? null,
+    tags: row.record.tags ?? [],
+    sleepType: row.record.sleepType ?? null,
+  };
+
+  if (options.includePredictions) result.predicted = row.isPredicted;
+  if (options.includeMainSleep) result.mainSleep = row.isMainSleep;
+  if (options.includeDuration) result.durationMinutes = toMinutes(row.durationMs);
+  if (options.includeDrift) {
+    result.sleepDriftMinutes = toMinutes(row.sleepDrift);
+    result.wakeDriftMinutes = toMinutes(row.wakeDrift);
+  }
+
+  return result;
+}
+
+/**
+ * Quotes a CSV cell when it contains commas, quotes or line breaks
+ */
+function escapeCsvCell(value: ExportValue): string {
+  const text = value === null ? '' : Array.isArray(value) ? value.join(';') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds the rows of an export, with the main sleep flag and the drift computed the same way as in the chart
+ * @param records Plottable records, sorted by sleep start
+ * @param predictions Predicted entries, added after the records when the options include them
+ * @param analysis Day start, entry limit (for the visible range) and sleep classification
+ */
+export function buildExportRows(records: SleepRecord[], predictions: PredictedSleepRecord[], options: ExportOptions, analysis: AnalysisOptions): ExportRow[] {
+  // Start from the same data the chart would show for the selected range
+  const data = options.range === 'visible' ? getVisibleRecords(records, analysis.maxEntries) : records;
+  const combinedData: (SleepRecord | PredictedSleepRecord)[] = [...data, ...(options.includePredictions ? predictions : [])];
+
+  const getDate = (record: SleepRecord) => getSleepDay(new Date(record.sleep).getTime(), analysis.dayStartHour);
+  const periods = groupSleepPeriods(combinedData, getDate, analysis.classification);
+  const mainSleepIndices = new Set(periods.filter(period => period.isMain).flatMap(period => period.indices));
+  const mainSleepByDate = new Map(getMainSleepRecords(combinedData, periods).map(record => [getDate(record), record]));
+  const dateStrs = combinedData.map(getDate);
+  const uniqueDates = [...new Set(dateStrs)].sort();
+  const dateIndices = new Map(uniqueDates.map((date, i) => [date, i]));
+
+  const rows = combinedData.map((record, index): ExportRow => {
+    const isPredicted = Boolean('isPredicted' in record && record.isPredicted);
+
+    // Drift from the previous day's main sleep (not available for predictions)
+    const prevDateStr = uniqueDates[(dateIndices.get(dateStrs[index]) ?? 0) - 1];
+    const prevMainSleep = prevDateStr ? mainSleepByDate.get(prevDateStr) : undefined;
+    const drift = !isPredicted && prevMainSleep ? calculateEntryDrift(prevMainSleep, record) : null;
+
+    return {
+      record,
+      isPredicted,
+      isMainSleep: mainSleepIndices.has(index),
+      durationMs: new Date(record.wake).getTime() - new Date(record.sleep).getTime(),
+      sleepDrift: drift ? drift.sleepDrift : null,
+      wakeDrift: drift ? drift.wakeDrift : null,
+    };
+  });
+
+  if (options.range !== 'custom' || !options.from || !options.to) {
+    return rows;
+  }
+
+  // Same days as the chart's columns, so a sleep after midnight stays with the previous evening
+  const { from, to } = options;
+  return rows.filter(({ record }) => {
+    const dateStr = getDate(record);
+    return dateStr >= from && dateStr <= to;
+  });
+}
+
+/**
+ * Interventions to export with the rows: all of them, or the ones from the first exported sleep day on
+ * (to the last day of a custom range)
+ * @param interventions Logged interventions
+ * @param options Range of the export
+ * @param rows Exported rows
+ * @param dayStartHour Local hour (0-23) at which a sleep day starts, the same as for the rows
+ */
+export function getExportInterventions(interventions: Intervention[], options: ExportOptions, rows: ExportRow[], dayStartHour: number): Intervention[] {
+  if (options.range === 'all') return interventions;
+
+  const getDate = (time: string) => getSleepDay(new Date(time).getTime(), dayStartHour);
+  const from = options.range === 'custom' ? options.from : rows.length > 0 ? getDate(rows[0].record.sleep) : null;
+  const to = options.range === 'custom' ? options.to : null;
+
+  return interventions.filter(intervention => {
+    const date = getDate(intervention.time);
+    return (from === null || date >= from) && (to === null || date <= to);
+  });
+}
+
+/**
+ * Serializes rows as CSV, with a header row
+ */
+export function toCsv(rows: ExportRow[], options: ExportOptions): string {
+  const objects = rows.map(row => toExportObject(row, options));
+
+  // Take the headers from an empty row, so an empty export still has them
+  const headers = Object.keys(toExportObject({
+    record: { sleep: '', wake: '', rating: 0, note: '' },
+    isPredicted: false,
+    isMainSleep: false,
+    durationMs: 0,
+    sleepDrift: null,
+    wakeDrift: null,
+  }, options));
+
+  const lines = [
+    headers.join(','),
+    ...objects.map(object => headers.map(header => escapeCsvCell(object[header])).join(',')),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes rows as JSON in the current data.json format, with the selected computed fields added to the records
+ * @param interventions Interventions to include (only the JSON format has them)
+ */
+export function toJson(rows: ExportRow[], options: ExportOptions, interventions: Intervention[] = []): string {
+  return JSON.stringify({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    records: rows.map(row => toExportObject(row, options)),
+    interventions,
+  }, null, 2);
+}
+
+/**
+ * Makes the browser download a text file
+ */
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,68 @@
+import type { TauEstimate } from '../analytics/tau';
+
+/**
+ * Formats a drift value in milliseconds to a human-readable string
+ * @param driftMs Drift in milliseconds
+ * @returns Formatted drift string with sign (e.g., "+30m" or "-1h 15m")
+ */
+export function formatDrift(driftMs: number): string {
+  const sign = driftMs >= 0 ? '+' : '-';
+  const absDrift = Math.abs(driftMs);
+
+  // Get just the drift part (not the full 24h + drift)
+  const hours = Math.floor(absDrift / (60 * 60 * 1000)) % 24; // Modulo 24 to get just the drift
+  const minutes = Math.floor((absDrift % (60 * 60 * 1000)) / (60 * 1000));
+
+  if (hours === 0) {
+    return `${sign}${minutes}m`;
+  } else if (minutes === 0) {
+    return `${sign}${hours}h`;
+  } else {
+    return `${sign}${hours}h ${minutes}m`;
+  }
+}
+
+/**
+ * Formats a number of days as weeks and days (e.g. "3w 2d"), "N/A" for 0
+ */
+export function formatDays(days: number): string {
+  if (days === 0) return 'N/A';
+  if (days === 1) return '1 day';
+
+  const weeks = Math.floor(days / 7);
+  const remainingDays = days % 7;
+
+  if (weeks === 0) return `${days} days`;
+  if (remainingDays === 0) return `${weeks}w`;
+  return `${weeks}w ${remainingDays}d`;
+}
+
+/**
+ * Formats an estimated period (tau) with its 95% confidence interval (e.g. "24h 40m ± 6m")
+ */
+export function formatTau(estimate: TauEstimate | null): string {
+  if (!estimate) return 'N/A';
+  const totalMinutes = Math.round(estimate.tau / (60 * 1000));
+  const tauStr = `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`;
+  return estimate.confidence === null ? tauStr : `${tauStr} ± ${Math.round(estimate.confidence / (60 * 1000))}m`;
+}
+
+/**
+ * Formats how well a constant drift fits the times (e.g. "R² 0.93"), with the details of the fit
+ */
+export function formatFit(estimate: TauEstimate | null): { fit: string, details: string } {
+  if (!estimate) return { fit: 'N/A', details: '' };
+  return {
+    fit: `R² ${estimate.rSquared.toFixed(2)}`,
+    details: `${estimate.n} days used, ${estimate.outliers} rejected as outliers, residual SD ${Math.round(estimate.residualSd / (60 * 1000))}m`
+  };
+}
+
+/**
+ * Formats an amount of sleep (e.g. "7h 45m"), "N/A" for null
+ */
+export function formatSleepAmount(ms: number | null): string {
+  if (ms === null) return 'N/A';
+  const hours = ms / (1000 * 60 * 60);
+  return `${Math.floor(hours)}h ${Math.round((hours % 1) * 60)}m`;
+}
@@ -0,0 +1,6 @@
+/**
+ * Escapes text for use inside HTML, in element content and in quoted attributes
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,42 @@
+import type { Intervention, InterventionType } from '../types/intervention';
+
+/**
+ * How each type of intervention is shown and entered
+ */
+export interface InterventionTypeInfo {
+  type: InterventionType;
+  label: string;
+  color: string;        // Color of the markers in the chart
+  defaultUnit: string;  // Unit offered when logging a new intervention
+}
+
+export const INTERVENTION_TYPES: InterventionTypeInfo[] = [
+  { type: 'melatonin', label: 'Melatonin', color: '#A855F7', defaultUnit: 'mg' },
+  { type: 'light', label: 'Bright light', color: '#FACC15', defaultUnit: 'lux' },
+  { type: 'medication', label: 'Medication', color: '#22C55E', defaultUnit: 'mg' },
+];
+
+/**
+ * Display information of an intervention type (falls back to medication for unknown types from hand-edited files)
+ */
+export function getInterventionTypeInfo(type: InterventionType): InterventionTypeInfo {
+  return INTERVENTION_TYPES.find(info => info.type === type) ?? INTERVENTION_TYPES[INTERVENTION_TYPES.length - 1];
+}
+
+/**
+ * Short description of an intervention (e.g. "Melatonin 0.5 mg", "Bright light 10000 lux, 30 min")
+ */
+export function describeIntervention(intervention: Intervention): string {
+  const info = getInterventionTypeInfo(intervention.type);
+  const name = intervention.name ? ` (${intervention.name})` : '';
+  const dose = intervention.dose !== null ? ` ${intervention.dose} ${intervention.unit}` : '';
+  const duration = intervention.duration !== null ? `, ${intervention.duration} min` : '';
+  return `${info.label}${name}${dose}${duration}`;
+}
+
+/**
+ * Sorts interventions by time (in place)
+ */
+export function sortInterventions(interventions: Intervention[]): Intervention[] {
+  return interventions.sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
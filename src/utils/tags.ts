@@ -0,0 +1,73 @@
+import type { SleepRecord } from '../types/sleep-record';
+
+/**
+ * What the tag filter does with the entries that don't have the selected tag
+ */
+export type TagFilterMode = 'dim' | 'hide';
+
+/**
+ * A tag offered in the form, with the keywords that suggest it from a note
+ */
+export interface KnownTag {
+  tag: string;
+  color: string;       // Color of the tag's markers on the X-axis
+  keywords: RegExp;    // Matches notes that suggest the tag
+}
+
+export const KNOWN_TAGS: KnownTag[] = [
+  { tag: 'caffeine', color: '#A16207', keywords: /\b(caffeine|coffee|espresso|cola|energy drinks?)\b/i },
+  { tag: 'alcohol', color: '#DC2626', keywords: /\b(alcohol|beers?|wine|drinks|drinking|drunk|hangover)\b/i },
+  { tag: 'exercise', color: '#16A34A', keywords: /\b(exercise[ds]?|workout|gym|running|ran|swimming|cycling|hiking)\b/i },
+  { tag: 'melatonin', color: '#7C3AED', keywords: /\bmelatonin\b/i },
+  { tag: 'illness', color: '#EA580C', keywords: /\b(ill|illness|sick|fever|flu|a cold|covid|migraine|headache)\b/i },
+  { tag: 'alarm', color: '#EAB308', keywords: /\b(alarm|woken up by|forced awake)\b/i },
+];
+
+const OTHER_TAG_COLOR = '#9CA3AF'; // Markers of tags that aren't in KNOWN_TAGS
+
+/**
+ * Normalizes a tag: lower case, words joined with dashes
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Reads a comma (or semicolon) separated list of tags
+ * @returns Normalized tags without duplicates or empty entries
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(/[,;]/).map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Suggests tags for a note by matching the keywords of the known tags
+ * @returns Matching tags, in the order of KNOWN_TAGS
+ */
+export function suggestTags(note: string): string[] {
+  return KNOWN_TAGS.filter(known => known.keywords.test(note)).map(known => known.tag);
+}
+
+/**
+ * Color of a tag's markers
+ */
+export function getTagColor(tag: string): string {
+  return KNOWN_TAGS.find(known => known.tag === tag)?.color ?? OTHER_TAG_COLOR;
+}
+
+/**
+ * Tags of a record (records from before version 3 of the format have none)
+ */
+export function getRecordTags(record: SleepRecord): string[] {
+  return Array.isArray(record.tags) ? record.tags : [];
+}
+
+/**
+ * All tags used in a list of records, known tags first, then the others alphabetically
+ */
+export function collectTags(records: SleepRecord[]): string[] {
+  const used = new Set(records.flatMap(getRecordTags));
+  const known = KNOWN_TAGS.map(known => known.tag).filter(tag => used.has(tag));
+  const others = [...used].filter(tag => !known.includes(tag)).sort();
+  return [...known, ...others];
+}
@@ -0,0 +1,57 @@
+import type { TargetWindow } from '../analytics/alignment';
+
+const STORAGE_KEY = 'sleep-man.target-schedule';
+
+export const DEFAULT_TARGET_WINDOW: TargetWindow = { sleepMinutes: 23 * 60, wakeMinutes: 7 * 60 }; // 23:00-07:00
+
+/**
+ * Formats minutes after midnight as a time input value ("HH:MM")
+ */
+export function formatTimeOfDay(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Reads a time input value ("HH:MM") as minutes after midnight
+ * @returns Minutes, or null when the value isn't a time
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Loads the target schedule
+ * @returns The target window, or null when the target schedule is off
+ */
+export function loadTargetSchedule(): TargetWindow | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && Number.isInteger(stored.sleepMinutes) && Number.isInteger(stored.wakeMinutes)) {
+      return { sleepMinutes: stored.sleepMinutes, wakeMinutes: stored.wakeMinutes };
+    }
+  } catch (error) {
+    console.error('Error loading the target schedule:', error);
+  }
+  return null;
+}
+
+/**
+ * Saves the target schedule
+ * @param target The target window, or null to turn the target schedule off
+ */
+export function saveTargetSchedule(target: TargetWindow | null) {
+  try {
+    if (target) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(target));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving the target schedule:', error);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * A timezone column shown on the Y-axis
+ */
+export interface TimezoneColumn {
+  label: string;    // Short label shown in the axis header (e.g. "NY")
+  timeZone: string; // IANA timezone name (e.g. "America/New_York")
+}
+
+export const DEFAULT_TIMEZONES: TimezoneColumn[] = [
+  { label: 'EU', timeZone: 'Europe/Paris' },
+  { label: 'NY', timeZone: 'America/New_York' },
+  { label: 'LA', timeZone: 'America/Los_Angeles' },
+];
+
+const STORAGE_KEY = 'sleep-man.timezones';
+
+/**
+ * Whether the browser knows the given IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats the time of a date in a timezone, in 24-hour format
+ * Without minutes, the hour alone is only shown when the time is on the hour in that zone: a zone with a half or
+ * quarter hour offset (e.g. Asia/Kolkata, Asia/Kathmandu) keeps its minutes, so its labels don't look an hour off.
+ * @param date The date to format
+ * @param timeZone IANA timezone name
+ * @param withMinutes Whether to include the minutes ("07:30") or only the hour ("07")
+ */
+export function formatTimeInZone(date: Date, timeZone: string, withMinutes: boolean = true): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const hour = parts.find(part => part.type === 'hour')?.value ?? '00';
+  const minute = parts.find(part => part.type === 'minute')?.value ?? '00';
+  return withMinutes || minute !== '00' ? `${hour}:${minute}` : hour;
+}
+
+/**
+ * Loads the configured timezone columns (falls back to the defaults)
+ */
+export function loadTimezones(): TimezoneColumn[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    // The labels end up in the Y-axis header, so anything but a string is rejected along with unknown timezones
+    const isColumn = (column: unknown): column is TimezoneColumn =>
+      typeof column === 'object' && column !== null
+      && typeof (column as TimezoneColumn).label === 'string'
+      && typeof (column as TimezoneColumn).timeZone === 'string'
+      && isValidTimeZone((column as TimezoneColumn).timeZone);
+    if (Array.isArray(stored) && stored.length > 0 && stored.every(isColumn)) {
+      return stored;
+    }
+  } catch (error) {
+    console.error('Error loading timezone settings:', error);
+  }
+  return DEFAULT_TIMEZONES;
+}
+
+/**
+ * Saves the configured timezone columns
+ */
+export function saveTimezones(timezones: TimezoneColumn[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timezones));
+  } catch (error) {
+    console.error('Error saving timezone settings:', error);
+  }
+}
@@ -0,0 +1,191 @@
+import type { SleepRecord } from '../types/sleep-record';
+import { getSleepDay } from './actogram';
+
+/**
+ * Checks the optional details of a record (time in bed, latency, awakenings, WASO, sleep type) against its sleep period
+ * Missing details are fine, only values that are present are checked
+ * @param sleepTime Sleep start (epoch milliseconds)
+ * @param wakeTime Wake time (epoch milliseconds)
+ * @returns List of human-readable messages (empty when consistent)
+ */
+function checkSleepDetails(record: SleepRecord, sleepTime: number, wakeTime: number): string[] {
+  const problems: string[] = [];
+  const isSet = (value: unknown) => value !== undefined && value !== null;
+
+  if (isSet(record.inBed)) {
+    const inBed = parseTime(record.inBed);
+    if (isNaN(inBed)) problems.push(`Unreadable in-bed time "${record.inBed}"`);
+    else if (inBed > sleepTime) problems.push('In-bed time is after the sleep time');
+  }
+  if (isSet(record.outOfBed)) {
+    const outOfBed = parseTime(record.outOfBed);
+    if (isNaN(outOfBed)) problems.push(`Unreadable out-of-bed time "${record.outOfBed}"`);
+    else if (outOfBed < wakeTime) problems.push('Out-of-bed time is before the wake time');
+  }
+
+  const checkCount = (value: unknown, label: string, integer: boolean) => {
+    if (!isSet(value)) return;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+      problems.push(`${label} must be ${integer ? 'a whole number' : 'a number'} of at least 0`);
+    }
+  };
+  checkCount(record.latency, 'Sleep latency', false);
+  checkCount(record.awakenings, 'Number of awakenings', true);
+  checkCount(record.waso, 'Time awake after sleep onset', false);
+
+  if (typeof record.waso === 'number' && record.waso * 60 * 1000 >= wakeTime - sleepTime) {
+    problems.push('Time awake after sleep onset is longer than the sleep');
+  }
+
+  if (isSet(record.sleepType) && record.sleepType !== 'main' && record.sleepType !== 'nap') {
+    problems.push(`Sleep type "${record.sleepType}" must be "main" or "nap"`);
+  }
+
+  return problems;
+}
+
+/**
+ * Checks a single sleep record against the rest of the data
+ * @param record The record to validate
+ * @param existing All records currently in the log
+ * @param ignoreIndex Index of the record being edited (excluded from the overlap check)
+ * @returns List of human-readable error messages (empty when valid)
+ */
+export function validateSleepRecord(record: SleepRecord, existing: SleepRecord[], ignoreIndex: number | null = null): string[] {
+  const errors: string[] = [];
+
+  const sleepTime = new Date(record.sleep).getTime();
+  const wakeTime = new Date(record.wake).getTime();
+
+  if (isNaN(sleepTime)) errors.push('Sleep time is not a valid date');
+  if (isNaN(wakeTime)) errors.push('Wake time is not a valid date');
+
+  // Nothing else can be checked without both times
+  if (errors.length > 0) return errors;
+
+  if (wakeTime <= sleepTime) {
+    errors.push('Wake time must be after sleep time');
+  }
+
+  if (!Number.isInteger(record.rating) || record.rating < 1 || record.rating > 5) {
+    errors.push('Rating must be a whole number between 1 and 5');
+  }
+
+  errors.push(...checkSleepDetails(record, sleepTime, wakeTime));
+
+  // Two periods overlap when each one starts before the other ends
+  existing.forEach((other, index) => {
+    if (index === ignoreIndex) return;
+
+    const otherSleep = new Date(other.sleep).getTime();
+    const otherWake = new Date(other.wake).getTime();
+
+    if (sleepTime < otherWake && otherSleep < wakeTime) {
+      const otherSleepStr = new Date(other.sleep).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+      const otherWakeStr = new Date(other.wake).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+      errors.push(`Overlaps with the entry from ${otherSleepStr} to ${otherWakeStr}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * How serious a problem in the log is
+ * - error:   the record can't be plotted (unreadable times, wake before sleep, duplicate) and is left out of the chart
+ * - warning: the record is plotted but looks wrong (overlap, very long sleep, rating out of range, inconsistent details)
+ */
+export type IssueSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in the log
+ */
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  message: string;
+  record: SleepRecord;  // The affected record
+  date: string | null;  // Sleep day (YYYY-MM-DD) of the sleep start, see getSleepDay, null when it can't be read
+}
+
+const LONG_SLEEP_HOURS = 20; // Sleeps longer than this are flagged as likely typos
+const OVERLAP_LOOKBACK = 7 * 24 * 60 * 60 * 1000; // Only earlier records starting within this window can overlap
+
+/**
+ * Reads an ISO datetime, rejecting values that aren't strings (new Date(null) would be 1970)
+ */
+function parseTime(value: unknown): number {
+  return typeof value === 'string' ? new Date(value).getTime() : NaN;
+}
+
+/**
+ * Formats a time for the issue messages (e.g. "Mar 5, 23:30")
+ */
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+/**
+ * Checks the whole log
+ * @param records All records in the log, in any order
+ * @param dayStartHour Local hour (0-23) at which a sleep day starts, the issues are dated with the chart's days
+ * @returns Problems of each record in the order of the records, followed by the overlaps (at most one error per record)
+ */
+export function validateSleepLog(records: SleepRecord[], dayStartHour: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const plottable: { record: SleepRecord, sleep: number, wake: number }[] = [];
+  const seen = new Set<string>();
+
+  records.forEach(record => {
+    const sleep = parseTime(record.sleep);
+    const wake = parseTime(record.wake);
+    const date = isNaN(sleep) ? null : getSleepDay(sleep, dayStartHour);
+    const addIssue = (severity: IssueSeverity, message: string) => issues.push({ severity, message, record, date });
+
+    // Errors: the record can't be plotted
+    if (isNaN(sleep) || isNaN(wake)) {
+      const invalid = [isNaN(sleep) ? `sleep "${record.sleep}"` : '', isNaN(wake) ? `wake "${record.wake}"` : ''].filter(Boolean);
+      addIssue('error', `Unreadable ${invalid.join(' and ')} time`);
+      return;
+    }
+    if (wake <= sleep) {
+      addIssue('error', `Wake time (${formatTime(wake)}) is not after sleep time (${formatTime(sleep)})`);
+      return;
+    }
+    const key = `${sleep}-${wake}`;
+    if (seen.has(key)) {
+      addIssue('error', `Duplicate of the entry from ${formatTime(sleep)}`);
+      return;
+    }
+    seen.add(key);
+
+    // Warnings: the record is plotted but looks wrong
+    const hours = (wake - sleep) / (60 * 60 * 1000);
+    if (hours > LONG_SLEEP_HOURS) {
+      addIssue('warning', `Sleep lasts ${Math.floor(hours)}h ${Math.round((hours % 1) * 60)}m, longer than ${LONG_SLEEP_HOURS}h`);
+    }
+    if (!Number.isInteger(record.rating) || record.rating < 1 || record.rating > 5) {
+      addIssue('warning', `Rating ${record.rating} is not a whole number between 1 and 5`);
+    }
+    checkSleepDetails(record, sleep, wake).forEach(message => addIssue('warning', message));
+
+    plottable.push({ record, sleep, wake });
+  });
+
+  // Overlaps, reported once on the later of the two records
+  const sorted = [...plottable].sort((a, b) => a.sleep - b.sleep);
+  sorted.forEach((current, i) => {
+    for (let j = i - 1; j >= 0 && current.sleep - sorted[j].sleep <= OVERLAP_LOOKBACK; j--) {
+      const other = sorted[j];
+      if (current.sleep < other.wake) {
+        issues.push({
+          severity: 'warning',
+          message: `Overlaps with the entry from ${formatTime(other.sleep)} to ${formatTime(other.wake)}`,
+          record: current.record,
+          date: getSleepDay(current.sleep, dayStartHour)
+        });
+      }
+    }
+  });
+
+  return issues;
+}
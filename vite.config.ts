@@ -1,8 +1,22 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import tailwindcss from '@tailwindcss/vite'
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [
     tailwindcss(),
   ],
-})
+  // The command line tool (npm run build:cli) is built for Node into bin/
+  build: isSsrBuild ? {
+    outDir: 'bin',
+    emptyOutDir: false,
+    copyPublicDir: false,
+    rollupOptions: {
+      output: { banner: '#!/usr/bin/env node' },
+    },
+  } : {},
+  test: {
+    // The sleep days depend on the local time, so the fixtures are read in UTC
+    env: { TZ: 'UTC' },
+  },
+}))